@@ -1,23 +1,36 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useRef } from 'react';
 import { cn } from '@/lib/utils';
+import { type ThemeBackground, defaultBackground } from '@/utils/visualizerHelpers';
+import { type FrameBus } from '@/utils/frameBus';
+import { useAnalyserFrame } from '@/hooks/useAnalyserFrame';
 
 interface AnimatedBackgroundProps {
   className?: string;
-  frequencyData?: Uint8Array;
+  // Source of the analyser frames the background reacts to
+  frameBus?: FrameBus;
   isPlaying?: boolean;
+  colors?: ThemeBackground;
 }
 
 const AnimatedBackground: React.FC<AnimatedBackgroundProps> = ({ 
   className,
-  frequencyData,
-  isPlaying = false
+  frameBus,
+  isPlaying = false,
+  colors = defaultBackground
 }) => {
-  const [energy, setEnergy] = useState(0);
-  
-  // Calculate audio energy level for background animation intensity
-  useEffect(() => {
-    if (frequencyData && frequencyData.length > 0) {
+  const accent = (index: number) => colors.accents[index % colors.accents.length];
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  const energyRef = useRef(0);
+
+  // The levels change every frame, so they're written to CSS variables
+  // rather than re-rendering the background
+  useAnalyserFrame(frameBus, ({ frequencyData, beat }) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    if (frequencyData.length > 0) {
       // Calculate average energy from lower frequencies
       const lowerFreqEnd = Math.min(32, frequencyData.length);
       let sum = 0;
@@ -28,52 +41,69 @@ const AnimatedBackground: React.FC<AnimatedBackgroundProps> = ({
       const average = sum / (lowerFreqEnd * 255);
       
       // Apply smoothing
-      setEnergy(prev => prev * 0.6 + average * 0.4);
+      energyRef.current = energyRef.current * 0.6 + average * 0.4;
     } else {
       // Decay energy when not playing
-      setEnergy(prev => prev * 0.95);
+      energyRef.current *= 0.95;
     }
-  }, [frequencyData]);
+
+    root.style.setProperty('--energy', energyRef.current.toFixed(3));
+    root.style.setProperty('--kick-pulse', beat.bands.kick.pulse.toFixed(3));
+    root.style.setProperty('--beat-pulse', beat.pulse.toFixed(3));
+    root.style.setProperty('--snare-pulse', beat.bands.snare.pulse.toFixed(3));
+  });
+
+  // Circles pulse on detected drums
+  const pulseTransition = 'transform 0.12s ease-out';
 
   return (
-    <div className={cn(
-      "fixed inset-0 -z-10 overflow-hidden",
-      className
-    )}>
+    <div
+      ref={rootRef}
+      className={cn(
+        "fixed inset-0 -z-10 overflow-hidden",
+        className
+      )}
+    >
       {/* Main gradient background */}
-      <div className="absolute inset-0 bg-gradient-to-b from-[#0e1a2d] to-[#090a14] transition-opacity duration-1000" />
+      <div
+        className="absolute inset-0 transition-opacity duration-1000"
+        style={{ backgroundImage: `linear-gradient(to bottom, ${colors.gradientFrom}, ${colors.gradientTo})` }}
+      />
 
       {/* Animated circles */}
       <div className="absolute inset-0">
         <div 
-          className="absolute w-[50vw] h-[50vw] rounded-full blur-[60px] opacity-20 bg-[#1e88e5] animate-float"
+          className="absolute w-[50vw] h-[50vw] rounded-full blur-[60px] opacity-20 animate-float"
           style={{ 
+            backgroundColor: accent(0),
             top: '-10vh', 
             right: '-10vw',
             animationDelay: '0.5s',
-            transform: `scale(${isPlaying ? 1 + energy * 0.3 : 1})`,
-            transition: 'transform 0.5s ease-out',
+            transform: isPlaying ? 'scale(calc(1 + var(--kick-pulse, 0) * 0.3))' : 'scale(1)',
+            transition: pulseTransition,
           }}
         />
         <div 
-          className="absolute w-[40vw] h-[40vw] rounded-full blur-[60px] opacity-20 bg-[#651fff] animate-float"
+          className="absolute w-[40vw] h-[40vw] rounded-full blur-[60px] opacity-20 animate-float"
           style={{ 
+            backgroundColor: accent(1),
             bottom: '-10vh', 
             left: '-8vw',
             animationDelay: '1.5s',
             animationDirection: 'reverse',
-            transform: `scale(${isPlaying ? 1 + energy * 0.5 : 1})`,
-            transition: 'transform 0.5s ease-out',
+            transform: isPlaying ? 'scale(calc(1 + var(--beat-pulse, 0) * 0.5))' : 'scale(1)',
+            transition: pulseTransition,
           }}
         />
         <div 
-          className="absolute w-[32vw] h-[32vw] rounded-full blur-[80px] opacity-10 bg-[#00bfa5] animate-float"
+          className="absolute w-[32vw] h-[32vw] rounded-full blur-[80px] opacity-10 animate-float"
           style={{ 
+            backgroundColor: accent(2),
             top: '60vh', 
             right: '5vw',
             animationDelay: '3s',
-            transform: `scale(${isPlaying ? 1 + energy * 0.4 : 1})`,
-            transition: 'transform 0.5s ease-out',
+            transform: isPlaying ? 'scale(calc(1 + var(--snare-pulse, 0) * 0.4))' : 'scale(1)',
+            transition: pulseTransition,
           }}
         />
       </div>
@@ -82,7 +112,7 @@ const AnimatedBackground: React.FC<AnimatedBackgroundProps> = ({
       <div 
         className="absolute inset-0 grid grid-cols-[repeat(25,1fr)] grid-rows-[repeat(25,1fr)] opacity-10"
         style={{
-          opacity: isPlaying ? 0.05 + energy * 0.1 : 0.05,
+          opacity: isPlaying ? 'calc(0.05 + var(--energy, 0) * 0.1)' : 0.05,
           transition: 'opacity 1s ease'
         }}
       >
@@ -99,15 +129,15 @@ const AnimatedBackground: React.FC<AnimatedBackgroundProps> = ({
         <div 
           className="absolute inset-0 flex items-center justify-center opacity-0"
           style={{
-            opacity: energy * 0.3,
+            opacity: 'calc(var(--energy, 0) * 0.3)',
             transition: 'opacity 0.3s ease'
           }}
         >
           <div 
             className="w-[100vmin] h-[100vmin] rounded-full border border-white/10 animate-pulse-subtle"
             style={{
-              transform: `scale(${0.5 + energy * 1.5})`,
-              opacity: 0.2 * energy,
+              transform: 'scale(calc(0.5 + var(--energy, 0) * 1.5))',
+              opacity: 'calc(var(--energy, 0) * 0.2)',
               transition: 'transform 0.5s ease-out, opacity 0.5s ease-out'
             }}
           />
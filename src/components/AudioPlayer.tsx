@@ -1,8 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, ZoomIn, ZoomOut } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatTime } from '@/utils/visualizerHelpers';
+import { type TempoAnalysis, getTempoAt, getBarPosition } from '@/utils/tempoAnalysis';
+import { type KeyEstimate } from '@/utils/chroma';
+import { type TrackMarkers, getLoopBounds } from '@/utils/trackMarkers';
+import { type WaveformPeaks } from '@/utils/waveform';
+import WaveformCanvas from '@/components/WaveformCanvas';
+import PlaybackSpeedControls from '@/components/PlaybackSpeedControls';
+import MarkerControls from '@/components/MarkerControls';
 
 interface AudioPlayerProps {
   audioRef: React.RefObject<HTMLAudioElement>;
@@ -16,12 +23,35 @@ interface AudioPlayerProps {
   onNext?: () => void;
   onPrevious?: () => void;
   className?: string;
+  // Whole-track tempo and key, shown next to the time once they're ready
+  tempo?: TempoAnalysis | null;
+  musicalKey?: KeyEstimate | null;
+  // Speed and pitch controls are shown when a rate handler is given
+  playbackRate?: number;
+  preservesPitch?: boolean;
+  pitchShift?: number;
+  isPitchShiftSupported?: boolean;
+  onPlaybackRateChange?: (rate: number) => void;
+  onPreservesPitchChange?: (preserve: boolean) => void;
+  onPitchShiftChange?: (semitones: number) => void;
+  // Loop and cues of the track; they're drawn on the seek bar and can be
+  // edited when a change handler is given
+  markers?: TrackMarkers;
+  onMarkersChange?: (markers: TrackMarkers) => void;
+  // Overview of the track; when present it replaces the plain progress bar
+  // and can be zoomed
+  waveform?: WaveformPeaks | null;
   trackInfo?: {
     title?: string;
     artist?: string;
+    album?: string;
+    coverUrl?: string;
   };
 }
 
+// Zoom steps of the waveform seek bar
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+
 const AudioPlayer: React.FC<AudioPlayerProps> = ({
   audioRef,
   isPlaying,
@@ -34,20 +64,47 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   onNext,
   onPrevious,
   className,
+  tempo,
+  musicalKey,
+  playbackRate = 1,
+  preservesPitch = true,
+  pitchShift = 0,
+  isPitchShiftSupported = false,
+  onPlaybackRateChange,
+  onPreservesPitchChange,
+  onPitchShiftChange,
+  markers,
+  onMarkersChange,
+  waveform,
   trackInfo
 }) => {
   const [isMuted, setIsMuted] = useState(false);
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragValue, setDragValue] = useState(0);
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
   const progressRef = React.useRef<HTMLDivElement>(null);
 
+  // A zoomed waveform shows part of the track, centered on the playhead
+  const zoom = waveform ? ZOOM_LEVELS[zoomIndex] : 1;
+  const viewSpan = duration / zoom;
+  const viewStart = zoom > 1
+    ? Math.max(0, Math.min(duration - viewSpan, (currentTime || 0) - viewSpan / 2))
+    : 0;
+
+  // Time under a pointer position on the seek bar
+  const timeAt = (clientX: number) => {
+    if (!progressRef.current) return 0;
+    const rect = progressRef.current.getBoundingClientRect();
+    const pos = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return viewStart + pos * viewSpan;
+  };
+
   // Handle progress bar interactions
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (progressRef.current) {
-      const rect = progressRef.current.getBoundingClientRect();
-      const pos = (e.clientX - rect.left) / rect.width;
-      seekTo(pos * duration);
+      seekTo(timeAt(e.clientX));
     }
   };
 
@@ -59,9 +116,7 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
 
   const handleProgressDrag = (e: React.MouseEvent | MouseEvent) => {
     if (isDragging && progressRef.current) {
-      const rect = progressRef.current.getBoundingClientRect();
-      const pos = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
-      setDragValue(pos * duration);
+      setDragValue(timeAt(e.clientX));
     }
   };
 
@@ -106,10 +161,18 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
     setIsMuted(newVolume === 0);
   };
 
+  // Position of a time across the visible part of the seek bar
+  const toPercent = (time: number) => (viewSpan ? Math.max(0, Math.min(100, ((time - viewStart) / viewSpan) * 100)) : 0);
+  const isInView = (time: number) => time >= viewStart && time <= viewStart + viewSpan;
+
   // Calculate progress percentage
-  const progressPercent = isDragging 
-    ? (dragValue / duration) * 100 
-    : ((currentTime || 0) / (duration || 1)) * 100;
+  const progressTime = isDragging ? dragValue : currentTime || 0;
+  const progressPercent = toPercent(progressTime);
+  const loopBounds = markers ? getLoopBounds(markers.loop) : null;
+
+  // Local tempo and bar.beat at the playhead
+  const localBpm = tempo ? getTempoAt(tempo, currentTime) : null;
+  const barPosition = tempo ? getBarPosition(tempo, currentTime) : null;
 
   // Add ripple effect on button click
   const handleButtonRipple = (e: React.MouseEvent<HTMLButtonElement>) => {
@@ -140,35 +203,151 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
     )}>
       {/* Track info */}
       {trackInfo && (trackInfo.title || trackInfo.artist) && (
-        <div className="mb-3 text-center">
-          {trackInfo.title && (
-            <div className="font-medium text-sm truncate">{trackInfo.title}</div>
-          )}
-          {trackInfo.artist && (
-            <div className="text-xs text-muted-foreground truncate">{trackInfo.artist}</div>
+        <div className={cn(
+          "mb-3 flex items-center gap-3",
+          trackInfo.coverUrl ? "text-left" : "justify-center text-center"
+        )}>
+          {trackInfo.coverUrl && (
+            <img
+              src={trackInfo.coverUrl}
+              alt={trackInfo.album ? `${trackInfo.album} cover` : 'Cover art'}
+              className="w-12 h-12 rounded-md object-cover shadow-md shrink-0 animate-fade-in"
+            />
           )}
+          <div className="min-w-0">
+            {trackInfo.title && (
+              <div className="font-medium text-sm truncate">{trackInfo.title}</div>
+            )}
+            {(trackInfo.artist || trackInfo.album) && (
+              <div className="text-xs text-white/60 truncate">
+                {[trackInfo.artist, trackInfo.album].filter(Boolean).join(' • ')}
+              </div>
+            )}
+          </div>
         </div>
       )}
       
       {/* Progress bar */}
-      <div 
-        ref={progressRef}
-        className="progress-bar w-full mb-2" 
-        onClick={handleProgressClick}
-        onMouseDown={handleProgressMouseDown}
-      >
+      <div className="relative mb-2">
         <div 
-          className="progress-fill" 
-          style={{ width: `${progressPercent}%` }}
-        />
+          ref={progressRef}
+          className={waveform ? "relative w-full h-12 cursor-pointer overflow-hidden rounded-md" : "progress-bar w-full"}
+          onClick={handleProgressClick}
+          onMouseDown={handleProgressMouseDown}
+          onMouseMove={(e) => setHoverTime(duration ? timeAt(e.clientX) : null)}
+          onMouseLeave={() => setHoverTime(null)}
+        >
+          {loopBounds && (
+            <div
+              className={cn(
+                "absolute inset-y-0 transition-colors",
+                markers?.loop.enabled ? "bg-white/30" : "bg-white/10"
+              )}
+              style={{
+                left: `${toPercent(loopBounds.start)}%`,
+                width: `${toPercent(loopBounds.end) - toPercent(loopBounds.start)}%`
+              }}
+            />
+          )}
+          {waveform ? (
+            <WaveformCanvas
+              peaks={waveform}
+              start={viewStart}
+              end={viewStart + viewSpan}
+              position={progressTime}
+              className="absolute inset-0"
+            />
+          ) : (
+            <div 
+              className="progress-fill" 
+              style={{ width: `${progressPercent}%` }}
+            />
+          )}
+        </div>
+
+        {hoverTime !== null && (
+          <span
+            className="absolute bottom-full mb-3 -translate-x-1/2 px-1.5 py-0.5 rounded bg-black/80 text-[10px] tabular-nums pointer-events-none"
+            style={{ left: `${toPercent(hoverTime)}%` }}
+          >
+            {formatTime(hoverTime)}
+          </span>
+        )}
+
+        {/* Loop points and cues sit just above the bar */}
+        {markers && duration > 0 && (
+          <>
+            {([['A', markers.loop.start], ['B', markers.loop.end]] as const).map(([label, time]) => time !== null && isInView(time) && (
+              <span
+                key={label}
+                className="absolute bottom-full mb-0.5 -translate-x-1/2 text-[9px] leading-none text-white/70 pointer-events-none"
+                style={{ left: `${toPercent(time)}%` }}
+              >
+                {label}
+              </span>
+            ))}
+            {markers.cues.filter(cue => isInView(cue.time)).map(cue => (
+              <button
+                key={cue.id}
+                onClick={() => seekTo(cue.time)}
+                className="absolute -top-1 w-1 h-3.5 -translate-x-1/2 rounded-sm bg-white/70 hover:bg-white transition-colors"
+                style={{ left: `${toPercent(cue.time)}%` }}
+                aria-label={`Jump to ${cue.name}`}
+                title={`${cue.name} · ${formatTime(cue.time)}`}
+              />
+            ))}
+          </>
+        )}
       </div>
       
       {/* Time display */}
       <div className="flex justify-between text-xs mb-3">
         <span>{formatTime(currentTime)}</span>
-        <span>{formatTime(duration)}</span>
+        {(localBpm !== null || musicalKey) && (
+          <span className="tabular-nums opacity-70" title={tempo ? `Track tempo ${tempo.bpm} BPM` : undefined}>
+            {[
+              localBpm !== null && `${Math.round(localBpm)} BPM`,
+              barPosition && `${barPosition.bar}.${barPosition.beat}`,
+              musicalKey?.name
+            ].filter(Boolean).join(' · ')}
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          {waveform && (
+            <>
+              <button
+                onClick={() => setZoomIndex(index => Math.max(0, index - 1))}
+                disabled={zoomIndex === 0}
+                className="p-0.5 rounded text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+                aria-label="Zoom out"
+                title="Zoom out"
+              >
+                <ZoomOut size={12} />
+              </button>
+              <button
+                onClick={() => setZoomIndex(index => Math.min(ZOOM_LEVELS.length - 1, index + 1))}
+                disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+                className="p-0.5 rounded text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+                aria-label="Zoom in"
+                title={zoom > 1 ? `Zoom in (${zoom}x)` : 'Zoom in'}
+              >
+                <ZoomIn size={12} />
+              </button>
+            </>
+          )}
+          {formatTime(duration)}
+        </span>
       </div>
       
+      {markers && onMarkersChange && (
+        <MarkerControls
+          markers={markers}
+          getTime={() => audioRef.current?.currentTime ?? currentTime}
+          onChange={onMarkersChange}
+          onSeek={seekTo}
+        />
+      )}
+
       {/* Playback controls */}
       <div className="flex items-center justify-center gap-4">
         {onPrevious && (
@@ -199,8 +378,22 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
           </button>
         )}
         
+        {onPlaybackRateChange && (
+          <div className="ml-auto">
+            <PlaybackSpeedControls
+              playbackRate={playbackRate}
+              preservesPitch={preservesPitch}
+              pitchShift={pitchShift}
+              isPitchShiftSupported={isPitchShiftSupported}
+              onPlaybackRateChange={onPlaybackRateChange}
+              onPreservesPitchChange={preserve => onPreservesPitchChange?.(preserve)}
+              onPitchShiftChange={semitones => onPitchShiftChange?.(semitones)}
+            />
+          </div>
+        )}
+
         {/* Volume control */}
-        <div className="relative ml-auto">
+        <div className={cn("relative", !onPlaybackRateChange && "ml-auto")}>
           <button 
             className="control-button relative overflow-hidden"
             onClick={handleToggleMute}
@@ -1,15 +1,27 @@
 
 import React, { useState, useRef } from 'react';
-import { Upload, X } from 'lucide-react';
+import { Upload, X, Mic, MonitorSpeaker, Library } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { validateAudioFile } from '@/utils/audioFiles';
 
 interface AudioUploadProps {
   onFileSelect: (file: File, objectUrl: string) => void;
+  onMicrophoneSelect?: () => void;
+  onDisplayCaptureSelect?: () => void;
+  onLibraryOpen?: () => void;
+  inputError?: string | null;
   className?: string;
 }
 
-const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) => {
+const AudioUpload: React.FC<AudioUploadProps> = ({
+  onFileSelect,
+  onMicrophoneSelect,
+  onDisplayCaptureSelect,
+  onLibraryOpen,
+  inputError,
+  className
+}) => {
   const [dragActive, setDragActive] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -17,7 +29,7 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) =>
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      processFile(files[0]);
+      processFiles(Array.from(files));
     }
   };
 
@@ -39,7 +51,7 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) =>
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      processFile(files[0]);
+      processFiles(Array.from(files));
     }
   };
 
@@ -54,24 +66,25 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) =>
     }
   };
 
-  const processFile = (file: File) => {
-    // Check if file is an audio file
-    if (!file.type.startsWith('audio/')) {
-      toast.error('Please select an audio file');
-      return;
-    }
+  const processFiles = (files: File[]) => {
+    const accepted = files.filter(file => {
+      const error = validateAudioFile(file);
+      if (error) {
+        toast.error(error);
+      }
+      return !error;
+    });
 
-    // Check file size (limit to 30MB)
-    if (file.size > 30 * 1024 * 1024) {
-      toast.error('File is too large. Please select a file under 30MB');
-      return;
-    }
+    if (!accepted.length) return;
 
-    // Create object URL and pass to parent
-    const objectUrl = URL.createObjectURL(file);
-    onFileSelect(file, objectUrl);
-    setFileName(file.name);
-    toast.success('Audio file selected');
+    // Create object URLs and pass to parent, which takes ownership of them
+    accepted.forEach(file => {
+      const objectUrl = URL.createObjectURL(file);
+      onFileSelect(file, objectUrl);
+    });
+
+    setFileName(accepted.length === 1 ? accepted[0].name : `${accepted.length} files`);
+    toast.success(accepted.length === 1 ? 'Audio file selected' : `${accepted.length} audio files added`);
   };
 
   return (
@@ -92,6 +105,7 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) =>
         type="file"
         className="hidden"
         accept="audio/*"
+        multiple
         onChange={handleFileChange}
       />
 
@@ -122,21 +136,54 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, className }) =>
               <Upload size={32} className="text-white/80" />
             </div>
           </div>
-          <h3 className="text-lg font-medium mb-2">Drop your audio file here</h3>
+          <h3 className="text-lg font-medium mb-2">Drop your audio files here</h3>
           <p className="text-sm text-white/70 mb-4">
             Support for MP3, WAV, OGG, and more
           </p>
-          <button
-            onClick={handleButtonClick}
-            className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
-          >
-            Browse files
-          </button>
+          <div className="flex flex-wrap justify-center gap-2">
+            <button
+              onClick={handleButtonClick}
+              className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              Browse files
+            </button>
+            {onMicrophoneSelect && (
+              <button
+                onClick={onMicrophoneSelect}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <Mic size={14} />
+                Use microphone
+              </button>
+            )}
+            {onDisplayCaptureSelect && (
+              <button
+                onClick={onDisplayCaptureSelect}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <MonitorSpeaker size={14} />
+                Capture tab audio
+              </button>
+            )}
+            {onLibraryOpen && (
+              <button
+                onClick={onLibraryOpen}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <Library size={14} />
+                Open library
+              </button>
+            )}
+          </div>
         </div>
       )}
+
+      {inputError && (
+        <p className="mt-4 text-xs text-red-300">{inputError}</p>
+      )}
       
       <p className="mt-4 text-xs text-white/60">
-        Maximum file size: 30MB
+        Maximum file size: 30MB per track
       </p>
     </div>
   );
@@ -0,0 +1,390 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Save, SlidersVertical, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  type AnalysisPoint,
+  type EqBand,
+  type EqBandType,
+  type EqPreset,
+  EQ_BAND_TYPES,
+  EQ_GAIN_RANGE,
+  bandHasGain,
+  frequencyToPosition,
+  getEqResponse,
+  positionToFrequency
+} from '@/utils/equalizer';
+import { type AnalyserFrame, type FrameBus } from '@/utils/frameBus';
+import { useAnalyserFrame } from '@/hooks/useAnalyserFrame';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface EqualizerPanelProps {
+  bands: EqBand[];
+  bypass: boolean;
+  presets: EqPreset[];
+  customPresets: EqPreset[];
+  presetId: string | null;
+  analysisPoint: AnalysisPoint;
+  // Source of the live spectrum drawn behind the curve
+  frameBus?: FrameBus;
+  // Context used to read filter responses; one is made when there's none yet
+  audioContext?: BaseAudioContext | null;
+  sampleRate?: number;
+  onBandChange: (id: string, changes: Partial<Omit<EqBand, 'id'>>) => void;
+  onBypassChange: (bypass: boolean) => void;
+  onPresetSelect: (id: string) => void;
+  onPresetSave: (name: string) => void;
+  onPresetDelete: (id: string) => void;
+  onAnalysisPointChange: (point: AnalysisPoint) => void;
+  className?: string;
+}
+
+const CANVAS_HEIGHT = 160;
+// How close the pointer has to be to grab a handle, in CSS pixels
+const HANDLE_RADIUS = 12;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GRID_GAINS = [-12, -6, 0, 6, 12];
+
+let fallbackContext: OfflineAudioContext | null = null;
+
+// Filter responses don't depend on the graph, so any context will do
+const getResponseContext = (context?: BaseAudioContext | null): BaseAudioContext => {
+  if (context) return context;
+  if (!fallbackContext) fallbackContext = new OfflineAudioContext(1, 1, 44100);
+  return fallbackContext;
+};
+
+const gainToY = (gain: number, height: number) => height / 2 - (gain / EQ_GAIN_RANGE) * (height / 2 - 8);
+const yToGain = (y: number, height: number) => ((height / 2 - y) / (height / 2 - 8)) * EQ_GAIN_RANGE;
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)} kHz` : `${Math.round(hz)} Hz`);
+
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({
+  bands,
+  bypass,
+  presets,
+  customPresets,
+  presetId,
+  analysisPoint,
+  frameBus,
+  audioContext,
+  sampleRate = 48000,
+  onBandChange,
+  onBypassChange,
+  onPresetSelect,
+  onPresetSave,
+  onPresetDelete,
+  onAnalysisPointChange,
+  className
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [selectedId, setSelectedId] = useState(bands[0]?.id ?? '');
+  const [presetName, setPresetName] = useState('');
+  const dragRef = useRef<{ id: string; pointerId: number } | null>(null);
+  const selected = bands.find(band => band.id === selectedId) ?? bands[0];
+
+  // One frequency per pixel column
+  const frequencies = useMemo(
+    () => Float32Array.from({ length: Math.max(1, width) }, (_, x) => positionToFrequency(x / Math.max(1, width - 1))),
+    [width]
+  );
+  const response = useMemo(
+    () => getEqResponse(getResponseContext(audioContext), bands, frequencies),
+    [audioContext, bands, frequencies]
+  );
+
+  const draw = useCallback((frame: AnalyserFrame | null) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !width) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * pixelRatio)) {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(CANVAS_HEIGHT * pixelRatio);
+    }
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+
+    // Grid
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.font = '9px sans-serif';
+    ctx.lineWidth = 1;
+    GRID_FREQUENCIES.forEach(hz => {
+      const x = Math.round(frequencyToPosition(hz) * width) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, CANVAS_HEIGHT);
+      ctx.stroke();
+      ctx.fillText(hz >= 1000 ? `${hz / 1000}k` : `${hz}`, x + 2, CANVAS_HEIGHT - 3);
+    });
+    GRID_GAINS.forEach(gain => {
+      const y = Math.round(gainToY(gain, CANVAS_HEIGHT)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      if (gain !== 0) ctx.fillText(`${gain > 0 ? '+' : ''}${gain}`, 2, y - 2);
+    });
+
+    // Live spectrum, with bins spread over the log axis
+    const data = frame?.frequencyData;
+    if (data && data.length > 0) {
+      const nyquist = sampleRate / 2;
+      ctx.beginPath();
+      ctx.moveTo(0, CANVAS_HEIGHT);
+      for (let x = 0; x < width; x++) {
+        const bin = Math.min(data.length - 1, Math.round((frequencies[x] / nyquist) * data.length));
+        ctx.lineTo(x, CANVAS_HEIGHT - (data[bin] / 255) * CANVAS_HEIGHT);
+      }
+      ctx.lineTo(width, CANVAS_HEIGHT);
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+      ctx.fill();
+    }
+
+    // Response curve
+    ctx.beginPath();
+    for (let x = 0; x < width; x++) {
+      const y = gainToY(Math.max(-EQ_GAIN_RANGE * 1.5, Math.min(EQ_GAIN_RANGE * 1.5, response[x])), CANVAS_HEIGHT);
+      if (x === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.strokeStyle = bypass ? 'rgba(255, 255, 255, 0.3)' : 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Band handles
+    bands.forEach(band => {
+      const x = frequencyToPosition(band.frequency) * width;
+      const y = gainToY(bandHasGain(band.type) ? band.gain : 0, CANVAS_HEIGHT);
+      ctx.beginPath();
+      ctx.arc(x, y, band.id === selected?.id ? 6 : 4.5, 0, Math.PI * 2);
+      ctx.fillStyle = band.enabled ? 'rgba(255, 255, 255, 0.9)' : 'rgba(255, 255, 255, 0.25)';
+      ctx.fill();
+      if (band.id === selected?.id) {
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      }
+    });
+  }, [width, sampleRate, frequencies, response, bypass, bands, selected?.id]);
+
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  // Redraws with each analyser frame, and on its own while nothing is publishing
+  const frameRef = useAnalyserFrame(frameBus, frame => drawRef.current(frame));
+  useEffect(() => {
+    draw(frameRef.current);
+  }, [draw, frameRef]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas?.parentElement) return;
+    const container = canvas.parentElement;
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    setWidth(container.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  const pointerPosition = (e: React.PointerEvent | React.WheelEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = pointerPosition(e);
+    let nearest: { id: string; distance: number } | null = null;
+    for (const band of bands) {
+      const distance = Math.hypot(
+        frequencyToPosition(band.frequency) * width - x,
+        gainToY(bandHasGain(band.type) ? band.gain : 0, CANVAS_HEIGHT) - y
+      );
+      if (distance <= HANDLE_RADIUS && (!nearest || distance < nearest.distance)) {
+        nearest = { id: band.id, distance };
+      }
+    }
+    if (!nearest) return;
+
+    const { id } = nearest;
+    setSelectedId(id);
+    dragRef.current = { id, pointerId: e.pointerId };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const band = bands.find(item => item.id === drag.id);
+    if (!band) return;
+
+    const { x, y } = pointerPosition(e);
+    const frequency = Math.round(positionToFrequency(Math.max(0, Math.min(1, x / width))));
+    onBandChange(band.id, bandHasGain(band.type)
+      ? { frequency, gain: Math.round(yToGain(y, CANVAS_HEIGHT) * 10) / 10 }
+      : { frequency });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  // The wheel widens or narrows the selected band
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    if (!selected) return;
+    const q = selected.q * (e.deltaY < 0 ? 1.1 : 1 / 1.1);
+    onBandChange(selected.id, { q: Math.round(q * 100) / 100 });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onPresetSave(name);
+    setPresetName('');
+  };
+
+  const isCustomPreset = customPresets.some(preset => preset.id === presetId);
+
+  return (
+    <div className={cn("w-full max-w-md mx-auto p-4 rounded-xl glass-panel animate-fade-in", className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <SlidersVertical size={16} />
+          Equalizer
+        </div>
+        <div className="flex items-center gap-1">
+          {(['pre', 'post'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => onAnalysisPointChange(option)}
+              className={cn(
+                "px-2 py-1 text-xs rounded-md transition-all",
+                analysisPoint === option ? "bg-white/20 text-white" : "text-white/70 hover:text-white hover:bg-white/10"
+              )}
+              title={option === 'pre' ? 'Analyse the audio before the equalizer' : 'Analyse the audio after the equalizer'}
+            >
+              {option === 'pre' ? 'Pre-EQ' : 'Post-EQ'}
+            </button>
+          ))}
+          <div className="flex items-center gap-1.5 ml-2">
+            <Label htmlFor="eq-bypass" className="text-xs text-white/70">Bypass</Label>
+            <Switch id="eq-bypass" checked={bypass} onCheckedChange={onBypassChange} />
+          </div>
+        </div>
+      </div>
+
+      <div className="relative w-full mb-3">
+        <canvas
+          ref={canvasRef}
+          className="w-full rounded-md bg-black/30 touch-none cursor-pointer"
+          style={{ height: CANVAS_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          aria-label="Equalizer response; drag a point to move a band, scroll to change its width"
+        />
+      </div>
+
+      {selected && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 mb-3 text-xs">
+          <Label className="text-xs text-white/70">Band</Label>
+          <div className="flex items-center gap-2">
+            <Select
+              value={selected.type}
+              onValueChange={(type: EqBandType) => onBandChange(selected.id, { type })}
+            >
+              <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white" aria-label="Band type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-black/80 border-white/10 text-white">
+                <SelectGroup>
+                  {EQ_BAND_TYPES.map(option => (
+                    <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <Switch
+              checked={selected.enabled}
+              onCheckedChange={enabled => onBandChange(selected.id, { enabled })}
+              aria-label="Band enabled"
+            />
+          </div>
+          <span className="text-white/70">Settings</span>
+          <span className="tabular-nums">
+            {formatFrequency(selected.frequency)}
+            {bandHasGain(selected.type) && ` · ${selected.gain > 0 ? '+' : ''}${selected.gain.toFixed(1)} dB`}
+            {` · Q ${selected.q.toFixed(2)}`}
+          </span>
+        </div>
+      )}
+
+      {/* Presets */}
+      <div className="flex items-center gap-2">
+        <Select value={presetId ?? ''} onValueChange={onPresetSelect}>
+          <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white" aria-label="EQ preset">
+            <SelectValue placeholder="Custom" />
+          </SelectTrigger>
+          <SelectContent className="bg-black/80 border-white/10 text-white">
+            <SelectGroup>
+              {presets.map(preset => (
+                <SelectItem key={preset.id} value={preset.id} className="text-xs hover:bg-white/10">
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        {isCustomPreset && presetId && (
+          <button
+            onClick={() => onPresetDelete(presetId)}
+            className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+            aria-label="Delete preset"
+            title="Delete preset"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+        <Input
+          value={presetName}
+          maxLength={40}
+          placeholder="Preset name"
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSavePreset();
+          }}
+          className="h-8 text-xs bg-transparent border-white/10 text-white"
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+          className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+          aria-label="Save preset"
+          title="Save preset"
+        >
+          <Save size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerPanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  type FrequencyScale,
+  type FrequencyScaleType,
+  FREQUENCY_SCALE_OPTIONS,
+  MIN_FREQUENCY,
+  clampFrequencyScale,
+  formatFrequency
+} from '@/utils/frequencyScale';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface FrequencyScaleControlsProps {
+  scale: FrequencyScale;
+  // Sample rate of the analysed audio; the range tops out at its Nyquist frequency
+  sampleRate: number;
+  showAxis: boolean;
+  onScaleChange: (scale: FrequencyScale) => void;
+  onShowAxisChange: (show: boolean) => void;
+}
+
+// Range sliders move in even steps of log frequency
+const SLIDER_STEPS = 1000;
+
+const FrequencyScaleControls: React.FC<FrequencyScaleControlsProps> = ({
+  scale,
+  sampleRate,
+  showAxis,
+  onScaleChange,
+  onShowAxisChange
+}) => {
+  const nyquist = sampleRate / 2;
+  const { minHz, maxHz } = clampFrequencyScale(scale, sampleRate);
+  const toSlider = (hz: number) => (Math.log(hz / MIN_FREQUENCY) / Math.log(nyquist / MIN_FREQUENCY)) * SLIDER_STEPS;
+  const fromSlider = (value: number) => Math.round(MIN_FREQUENCY * (nyquist / MIN_FREQUENCY) ** (value / SLIDER_STEPS));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label="Frequency scale"
+          title="Frequency scale"
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="text-sm font-medium">Frequency scale</div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs text-white/70">Scale</Label>
+          <Select
+            value={scale.type}
+            onValueChange={(type: FrequencyScaleType) => onScaleChange({ ...scale, type })}
+          >
+            <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-black/80 border-white/10 text-white">
+              <SelectGroup>
+                {FREQUENCY_SCALE_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {([
+          ['Lowest frequency', minHz, (hz: number) => ({ minHz: Math.min(hz, maxHz / 2) })],
+          ['Highest frequency', maxHz, (hz: number) => ({ maxHz: Math.max(hz, minHz * 2) })]
+        ] as const).map(([label, hz, update]) => (
+          <div key={label} className="space-y-1.5">
+            <div className="flex justify-between text-xs text-white/70">
+              <span>{label}</span>
+              <span className="tabular-nums">{formatFrequency(hz)}Hz</span>
+            </div>
+            <Slider
+              value={[toSlider(hz)]}
+              min={0}
+              max={SLIDER_STEPS}
+              step={1}
+              onValueChange={([value]) => onScaleChange({ ...scale, minHz, maxHz, ...update(fromSlider(value)) })}
+              aria-label={label}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="frequency-axis" className="text-xs text-white/70">Show frequency axis</Label>
+          <Switch id="frequency-axis" checked={showAxis} onCheckedChange={onShowAxisChange} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FrequencyScaleControls;
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Library, Play, Search, Trash2, ShieldCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type LibraryTrack, type StorageUsage } from '@/utils/libraryDb';
+import { type LibrarySort } from '@/hooks/useLibrary';
+import { formatBytes, formatTime } from '@/utils/visualizerHelpers';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface LibraryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSupported: boolean;
+  isLoading: boolean;
+  tracks: LibraryTrack[];
+  totalCount: number;
+  totalSize: number;
+  storage: StorageUsage | null;
+  search: string;
+  sort: LibrarySort;
+  currentTrackId?: string;
+  onSearchChange: (search: string) => void;
+  onSortChange: (sort: LibrarySort) => void;
+  onPlay: (id: string) => void;
+  onRemove: (id: string) => void;
+  onEvict: (maxBytes: number) => void;
+  onClear: () => void;
+  onRequestPersistence: () => void;
+}
+
+const sortLabels: Record<LibrarySort, string> = {
+  recent: 'Recently added',
+  lastPlayed: 'Recently played',
+  title: 'Title',
+  artist: 'Artist',
+  size: 'Size'
+};
+
+const MB = 1024 * 1024;
+const evictionLimits = [100 * MB, 250 * MB, 500 * MB, 1024 * MB];
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  open,
+  onOpenChange,
+  isSupported,
+  isLoading,
+  tracks,
+  totalCount,
+  totalSize,
+  storage,
+  search,
+  sort,
+  currentTrackId,
+  onSearchChange,
+  onSortChange,
+  onPlay,
+  onRemove,
+  onEvict,
+  onClear,
+  onRequestPersistence
+}) => {
+  const [evictionLimit, setEvictionLimit] = useState(String(evictionLimits[1]));
+  const usagePercent = storage && storage.quota > 0 ? (storage.usage / storage.quota) * 100 : 0;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md bg-[#0b1120]/95 border-white/10 text-white">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2 text-white">
+            <Library size={18} />
+            Library
+          </SheetTitle>
+          <SheetDescription className="text-white/60 text-xs">
+            Tracks you import are kept in this browser so you can play them again without re-uploading.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!isSupported ? (
+          <p className="text-sm text-white/70">
+            Local storage isn't available in this browser (private browsing may disable it).
+          </p>
+        ) : (
+          <>
+            {/* Search and sort */}
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-white/40" />
+                <Input
+                  value={search}
+                  onChange={(e) => onSearchChange(e.target.value)}
+                  placeholder="Search title, artist, album"
+                  className="h-8 pl-8 text-xs bg-transparent border-white/10 text-white placeholder:text-white/40"
+                />
+              </div>
+              <Select value={sort} onValueChange={(value: LibrarySort) => onSortChange(value)}>
+                <SelectTrigger className="w-[130px] h-8 text-xs bg-transparent border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/80 border-white/10 text-white">
+                  <SelectGroup>
+                    {Object.entries(sortLabels).map(([key, label]) => (
+                      <SelectItem key={key} value={key} className="text-xs hover:bg-white/10">
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Track list */}
+            <ul className="flex-1 min-h-0 overflow-y-auto -mx-2">
+              {isLoading && (
+                <li className="px-2 py-4 text-xs text-white/50 text-center">Loading library…</li>
+              )}
+              {!isLoading && tracks.length === 0 && (
+                <li className="px-2 py-4 text-xs text-white/50 text-center">
+                  {totalCount === 0 ? 'Your library is empty' : 'No tracks match your search'}
+                </li>
+              )}
+              {tracks.map(track => (
+                <li
+                  key={track.id}
+                  className={cn(
+                    "group flex items-center gap-3 px-2 py-2 rounded-md transition-colors",
+                    track.id === currentTrackId ? "bg-white/15" : "hover:bg-white/5"
+                  )}
+                >
+                  <button
+                    onClick={() => onPlay(track.id)}
+                    className="control-button shrink-0"
+                    aria-label={`Play ${track.title}`}
+                  >
+                    <Play size={14} />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{track.title}</div>
+                    <div className="text-xs text-white/50 truncate">
+                      {[track.artist, track.album].filter(Boolean).join(' • ') || track.name}
+                    </div>
+                  </div>
+                  <div className="text-right text-[10px] text-white/40 tabular-nums shrink-0">
+                    <div>{track.duration ? formatTime(track.duration) : '--:--'}</div>
+                    <div>{formatBytes(track.size)}</div>
+                  </div>
+                  <button
+                    onClick={() => onRemove(track.id)}
+                    className="p-1.5 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-white/10 transition-opacity"
+                    aria-label={`Delete ${track.title} from library`}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Storage usage and eviction */}
+            <div className="border-t border-white/10 pt-4 space-y-3">
+              <div className="flex justify-between text-xs text-white/70">
+                <span>{totalCount} tracks • {formatBytes(totalSize)}</span>
+                {storage && storage.quota > 0 && (
+                  <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)} used</span>
+                )}
+              </div>
+              <Progress value={usagePercent} className="h-1.5 bg-white/10 [&>div]:bg-white/50" />
+
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-white/70">Keep under</span>
+                <Select value={evictionLimit} onValueChange={setEvictionLimit}>
+                  <SelectTrigger className="w-[90px] h-7 text-xs bg-transparent border-white/10 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/80 border-white/10 text-white">
+                    <SelectGroup>
+                      {evictionLimits.map(limit => (
+                        <SelectItem key={limit} value={String(limit)} className="text-xs hover:bg-white/10">
+                          {formatBytes(limit)}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+                <button
+                  onClick={() => onEvict(Number(evictionLimit))}
+                  disabled={totalSize <= Number(evictionLimit)}
+                  className="px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                  title="Removes the least recently played tracks first"
+                >
+                  Free up space
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between">
+                {storage?.persisted ? (
+                  <span className="flex items-center gap-1.5 text-xs text-white/60">
+                    <ShieldCheck size={14} />
+                    Protected from automatic eviction
+                  </span>
+                ) : (
+                  <button
+                    onClick={onRequestPersistence}
+                    className="flex items-center gap-1.5 text-xs text-white/60 hover:text-white transition-colors"
+                  >
+                    <ShieldCheck size={14} />
+                    Protect library from eviction
+                  </button>
+                )}
+                <button
+                  onClick={onClear}
+                  disabled={totalCount === 0}
+                  className="px-3 py-1 text-xs rounded-lg text-red-300 hover:bg-red-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  Clear library
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LibraryPanel;
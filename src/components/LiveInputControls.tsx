@@ -0,0 +1,138 @@
+import React, { useEffect } from 'react';
+import { Mic, MonitorSpeaker, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type LiveSourceKind, type MicrophoneOptions } from '@/utils/audioSources';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface LiveInputControlsProps {
+  sourceKind: LiveSourceKind;
+  inputDevices: MediaDeviceInfo[];
+  microphoneOptions: MicrophoneOptions;
+  inputError?: string | null;
+  onOptionsChange: (options: Partial<MicrophoneOptions>) => void;
+  onStop: () => void;
+  onRefreshDevices?: () => void;
+  className?: string;
+}
+
+const DEFAULT_DEVICE_VALUE = 'default';
+
+const LiveInputControls: React.FC<LiveInputControlsProps> = ({
+  sourceKind,
+  inputDevices,
+  microphoneOptions,
+  inputError,
+  onOptionsChange,
+  onStop,
+  onRefreshDevices,
+  className
+}) => {
+  // Keep the device list current when hardware is plugged in or removed
+  useEffect(() => {
+    if (!onRefreshDevices || !navigator.mediaDevices) return;
+
+    navigator.mediaDevices.addEventListener('devicechange', onRefreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', onRefreshDevices);
+    };
+  }, [onRefreshDevices]);
+
+  return (
+    <div className={cn(
+      "w-full max-w-md mx-auto p-4 rounded-xl glass-panel animate-fade-in",
+      className
+    )}>
+      {/* Live indicator */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <span className="relative flex h-2.5 w-2.5">
+            <span className="absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75 animate-ping" />
+            <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-red-500" />
+          </span>
+          {sourceKind === 'display' ? <MonitorSpeaker size={16} /> : <Mic size={16} />}
+          {sourceKind === 'display' ? 'Tab audio' : 'Live input'}
+        </div>
+        <button
+          onClick={onStop}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+        >
+          <Square size={12} />
+          Stop
+        </button>
+      </div>
+
+      {sourceKind === 'display' ? (
+        <p className="text-xs text-white/70">
+          Visualizing the audio of the shared tab or screen. Use your browser's
+          "Stop sharing" button or the Stop button above to end the capture.
+        </p>
+      ) : (
+        <>
+          {/* Device selection */}
+          <div className="mb-4">
+            <Label className="block text-xs text-white/70 mb-2">Input device</Label>
+            <Select
+              value={microphoneOptions.deviceId || DEFAULT_DEVICE_VALUE}
+              onValueChange={(value) => onOptionsChange({
+                deviceId: value === DEFAULT_DEVICE_VALUE ? undefined : value
+              })}
+            >
+              <SelectTrigger className="w-full h-8 text-xs bg-transparent border-white/10 text-white">
+                <SelectValue placeholder="Default input" />
+              </SelectTrigger>
+              <SelectContent className="bg-black/80 border-white/10 text-white">
+                <SelectGroup>
+                  <SelectItem value={DEFAULT_DEVICE_VALUE} className="text-xs hover:bg-white/10">
+                    Default input
+                  </SelectItem>
+                  {inputDevices
+                    .filter(device => device.deviceId && device.deviceId !== DEFAULT_DEVICE_VALUE)
+                    .map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId} className="text-xs hover:bg-white/10">
+                        {device.label || `Input ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Processing toggles */}
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="echo-cancellation" className="text-xs text-white/70">Echo cancellation</Label>
+              <Switch
+                id="echo-cancellation"
+                checked={microphoneOptions.echoCancellation}
+                onCheckedChange={(checked) => onOptionsChange({ echoCancellation: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="noise-suppression" className="text-xs text-white/70">Noise suppression</Label>
+              <Switch
+                id="noise-suppression"
+                checked={microphoneOptions.noiseSuppression}
+                onCheckedChange={(checked) => onOptionsChange({ noiseSuppression: checked })}
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {inputError && (
+        <p className="mt-4 text-xs text-red-300">{inputError}</p>
+      )}
+    </div>
+  );
+};
+
+export default LiveInputControls;
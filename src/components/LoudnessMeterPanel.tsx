@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type LoudnessReadings, LOUDNESS_TARGETS, formatLoudness } from '@/utils/loudness';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface LoudnessMeterPanelProps {
+  readings: LoudnessReadings;
+  isSupported: boolean;
+  onReset: () => void;
+  fileReadings: LoudnessReadings | null;
+  isMeasuringFile: boolean;
+  fileError?: string | null;
+  // Whole-file measurement is only offered while a file is playing
+  canMeasureFile: boolean;
+  onMeasureFile: () => void;
+  className?: string;
+}
+
+type MeterView = 'live' | 'file';
+
+// Range of the bar meters, in LUFS
+const METER_MIN = -60;
+const METER_MAX = 0;
+
+const toPercent = (value: number) =>
+  Math.max(0, Math.min(100, ((value - METER_MIN) / (METER_MAX - METER_MIN)) * 100));
+
+const LoudnessBar: React.FC<{ label: string; value: number; target: number }> = ({ label, value, target }) => (
+  <div className="flex items-center gap-2 text-xs">
+    <span className="w-20 shrink-0 text-white/70">{label}</span>
+    <div className="relative flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+      <div
+        className="absolute inset-y-0 left-0 rounded-full bg-gradient-to-r from-white/40 to-white/90 transition-[width] duration-100"
+        style={{ width: `${Number.isFinite(value) ? toPercent(value) : 0}%` }}
+      />
+      <div className="absolute inset-y-0 w-px bg-white/70" style={{ left: `${toPercent(target)}%` }} />
+    </div>
+    <span className="w-16 shrink-0 text-right tabular-nums">{formatLoudness(value)} LUFS</span>
+  </div>
+);
+
+const Reading: React.FC<{ label: string; value: string; unit: string; detail?: string; warn?: boolean }> = ({
+  label,
+  value,
+  unit,
+  detail,
+  warn = false
+}) => (
+  <div className="space-y-0.5">
+    <div className="text-[10px] uppercase tracking-wide text-white/50">{label}</div>
+    <div className={cn("text-sm tabular-nums", warn && "text-red-400")}>
+      {value} <span className="text-xs text-white/50">{unit}</span>
+    </div>
+    {detail && <div className="text-[10px] tabular-nums text-white/50">{detail}</div>}
+  </div>
+);
+
+const LoudnessMeterPanel: React.FC<LoudnessMeterPanelProps> = ({
+  readings,
+  isSupported,
+  onReset,
+  fileReadings,
+  isMeasuringFile,
+  fileError,
+  canMeasureFile,
+  onMeasureFile,
+  className
+}) => {
+  const [view, setView] = useState<MeterView>('live');
+  const [targetId, setTargetId] = useState(LOUDNESS_TARGETS[0].id);
+  const target = LOUDNESS_TARGETS.find(option => option.id === targetId) ?? LOUDNESS_TARGETS[0];
+  const activeView = canMeasureFile ? view : 'live';
+  const shown = activeView === 'file' ? fileReadings : readings;
+
+  const selectView = (next: MeterView) => {
+    setView(next);
+    if (next === 'file' && !fileReadings && !isMeasuringFile) {
+      onMeasureFile();
+    }
+  };
+
+  const offset = shown && Number.isFinite(shown.integrated) ? shown.integrated - target.integrated : null;
+
+  return (
+    <div className={cn("w-full max-w-md mx-auto p-4 rounded-xl glass-panel animate-fade-in", className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Gauge size={16} />
+          Loudness
+        </div>
+        <div className="flex items-center gap-1">
+          {canMeasureFile && (['live', 'file'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => selectView(option)}
+              className={cn(
+                "px-2 py-1 text-xs rounded-md transition-all",
+                activeView === option ? "bg-white/20 text-white" : "text-white/70 hover:text-white hover:bg-white/10"
+              )}
+            >
+              {option === 'live' ? 'Live' : 'Whole file'}
+            </button>
+          ))}
+          {activeView === 'live' && (
+            <button
+              onClick={onReset}
+              className="control-button text-white/70 hover:text-white"
+              aria-label="Reset loudness meter"
+              title="Reset loudness meter"
+            >
+              <RotateCcw size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {activeView === 'live' && !isSupported ? (
+        <p className="text-xs text-white/50">Loudness metering needs a browser with AudioWorklet support.</p>
+      ) : activeView === 'file' && !fileReadings ? (
+        isMeasuringFile ? (
+          <p className="text-xs text-white/50">Measuring the whole file…</p>
+        ) : (
+          <div className="space-y-2">
+            <button
+              onClick={onMeasureFile}
+              className="px-3 py-1.5 text-xs rounded-md bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              {fileError ? 'Try again' : 'Measure whole file'}
+            </button>
+            {fileError && <p className="text-xs text-red-300">{fileError}</p>}
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          {activeView === 'live' && (
+            <div className="space-y-1.5">
+              <LoudnessBar label="Momentary" value={readings.momentary} target={target.integrated} />
+              <LoudnessBar label="Short-term" value={readings.shortTerm} target={target.integrated} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <Reading
+              label="Integrated"
+              value={formatLoudness(shown.integrated)}
+              unit="LUFS"
+              detail={offset === null ? undefined : `${offset > 0 ? '+' : ''}${offset.toFixed(1)} LU vs target`}
+            />
+            <Reading label="Range" value={shown.loudnessRange.toFixed(1)} unit="LU" />
+            <Reading
+              label="True peak"
+              value={formatLoudness(shown.truePeak)}
+              unit="dBTP"
+              warn={shown.truePeak > target.truePeak}
+            />
+            <Reading label="Max momentary" value={formatLoudness(shown.maxMomentary)} unit="LUFS" />
+            <Reading label="Max short-term" value={formatLoudness(shown.maxShortTerm)} unit="LUFS" />
+            <div className="space-y-0.5">
+              <div className="text-[10px] uppercase tracking-wide text-white/50">Target</div>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger className="h-7 text-xs bg-transparent border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/80 border-white/10 text-white">
+                  <SelectGroup>
+                    {LOUDNESS_TARGETS.map(option => (
+                      <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                        {option.label} ({option.integrated})
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoudnessMeterPanel;
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from 'react';
+import { BookmarkPlus, Bookmark, Repeat, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTime } from '@/utils/visualizerHelpers';
+import {
+  type TrackMarkers,
+  addCue,
+  clearLoop,
+  findAdjacentCue,
+  getLoopBounds,
+  removeCue,
+  renameCue,
+  setLoopEnd,
+  setLoopStart,
+  toggleLoop
+} from '@/utils/trackMarkers';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface MarkerControlsProps {
+  markers: TrackMarkers;
+  // Reads the playhead; the time prop only updates a few times a second
+  getTime: () => number;
+  onChange: (markers: TrackMarkers) => void;
+  onSeek: (time: number) => void;
+}
+
+// Keys are ignored while typing in a field
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const buttonClass = "px-2 py-1 text-xs rounded-md transition-all";
+const inactiveClass = "text-white/70 hover:text-white hover:bg-white/10";
+
+/**
+ * A–B loop and cue controls, with keyboard shortcuts:
+ * [ and ] set A and B, L toggles the loop, M adds a cue, Shift+Left/Right
+ * jump between cues and 1–9 jump to a cue by number
+ */
+const MarkerControls: React.FC<MarkerControlsProps> = ({ markers, getTime, onChange, onSeek }) => {
+  const { loop, cues } = markers;
+  const hasLoop = !!getLoopBounds(loop);
+
+  // The shortcuts act on the latest markers without re-adding the listener
+  const latestRef = useRef({ markers, getTime, onChange, onSeek });
+  latestRef.current = { markers, getTime, onChange, onSeek };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      const { markers: current, getTime: time, onChange: change, onSeek: seek } = latestRef.current;
+
+      if (e.key === '[') {
+        change(setLoopStart(current, time()));
+      } else if (e.key === ']') {
+        change(setLoopEnd(current, time()));
+      } else if (e.key === 'l' || e.key === 'L') {
+        change(toggleLoop(current));
+      } else if (e.key === 'm' || e.key === 'M') {
+        change(addCue(current, time()));
+      } else if (e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        const cue = findAdjacentCue(current.cues, time(), e.key === 'ArrowRight' ? 1 : -1);
+        if (cue) seek(cue.time);
+        else if (e.key === 'ArrowLeft') seek(0);
+      } else if (/^[1-9]$/.test(e.key)) {
+        const cue = current.cues[Number(e.key) - 1];
+        if (!cue) return;
+        seek(cue.time);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className="flex items-center justify-center gap-1 mb-3">
+      <button
+        onClick={() => onChange(setLoopStart(markers, getTime()))}
+        className={cn(buttonClass, loop.start !== null ? "bg-white/20 text-white" : inactiveClass)}
+        title={loop.start !== null ? `Loop start ${formatTime(loop.start)} ([)` : 'Set loop start ([)'}
+      >
+        A
+      </button>
+      <button
+        onClick={() => onChange(setLoopEnd(markers, getTime()))}
+        className={cn(buttonClass, loop.end !== null ? "bg-white/20 text-white" : inactiveClass)}
+        title={loop.end !== null ? `Loop end ${formatTime(loop.end)} (])` : 'Set loop end (])'}
+      >
+        B
+      </button>
+      <button
+        onClick={() => onChange(toggleLoop(markers))}
+        disabled={!hasLoop}
+        className={cn(
+          "p-1.5 rounded-md transition-colors disabled:opacity-40",
+          loop.enabled ? "bg-white/20 text-white" : inactiveClass
+        )}
+        aria-label={loop.enabled ? 'Stop looping' : 'Loop A–B'}
+        title={loop.enabled ? 'Stop looping (L)' : 'Loop A–B (L)'}
+      >
+        <Repeat size={14} />
+      </button>
+      {(loop.start !== null || loop.end !== null) && (
+        <button
+          onClick={() => onChange(clearLoop(markers))}
+          className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label="Clear loop"
+          title="Clear loop"
+        >
+          <X size={14} />
+        </button>
+      )}
+
+      <div className="w-px h-4 bg-white/10 mx-1" />
+
+      <button
+        onClick={() => onChange(addCue(markers, getTime()))}
+        className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+        aria-label="Add cue"
+        title="Add cue (M)"
+      >
+        <BookmarkPlus size={14} />
+      </button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            disabled={!cues.length}
+            className="flex items-center gap-1 p-1.5 rounded-md text-xs text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+            aria-label="Cues"
+            title="Cues (Shift+←/→, 1–9)"
+          >
+            <Bookmark size={14} />
+            {cues.length > 0 && <span className="tabular-nums">{cues.length}</span>}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-2">
+          <div className="text-sm font-medium">Cues</div>
+          {cues.map((cue, index) => (
+            <div key={cue.id} className="flex items-center gap-2">
+              <button
+                onClick={() => onSeek(cue.time)}
+                className="shrink-0 w-14 text-left text-xs tabular-nums text-white/70 hover:text-white"
+                title={index < 9 ? `Jump to cue (${index + 1})` : 'Jump to cue'}
+              >
+                {formatTime(cue.time)}
+              </button>
+              <Input
+                value={cue.name}
+                maxLength={40}
+                onChange={(e) => onChange(renameCue(markers, cue.id, e.target.value))}
+                className="h-7 text-xs bg-transparent border-white/10 text-white"
+                aria-label="Cue name"
+              />
+              <button
+                onClick={() => onChange(removeCue(markers, cue.id))}
+                className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                aria-label={`Delete ${cue.name}`}
+                title="Delete cue"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default MarkerControls;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Clapperboard, Loader2 } from 'lucide-react';
+import { type RecordingResolution, RECORDING_RESOLUTIONS } from '@/utils/videoRecording';
+import { type OfflineRenderProgress, OFFLINE_FRAME_RATES } from '@/utils/offlineRender';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+export interface OfflineRenderSettings {
+  fps: number;
+  resolution: RecordingResolution;
+  transparent: boolean;
+}
+
+interface OfflineRenderControlsProps {
+  isRendering: boolean;
+  progress: OfflineRenderProgress | null;
+  error: string | null;
+  disabled?: boolean;
+  onStart: (settings: OfflineRenderSettings) => void;
+  onCancel: () => void;
+}
+
+const phaseLabels: Record<OfflineRenderProgress['phase'], string> = {
+  decoding: 'Decoding audio…',
+  analyzing: 'Analyzing tempo and key…',
+  rendering: 'Rendering frames…',
+  packaging: 'Packaging zip…'
+};
+
+const OfflineRenderControls: React.FC<OfflineRenderControlsProps> = ({
+  isRendering,
+  progress,
+  error,
+  disabled = false,
+  onStart,
+  onCancel
+}) => {
+  const [resolutionId, setResolutionId] = useState(RECORDING_RESOLUTIONS[1].id);
+  const [fps, setFps] = useState(String(OFFLINE_FRAME_RATES[1]));
+  const [transparent, setTransparent] = useState(false);
+
+  const percent = progress && progress.frameCount > 0 ? (progress.frame / progress.frameCount) * 100 : 0;
+
+  const handleStart = () => {
+    const resolution = RECORDING_RESOLUTIONS.find(item => item.id === resolutionId) || RECORDING_RESOLUTIONS[0];
+    onStart({ fps: Number(fps), resolution, transparent });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled && !isRendering}
+          className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Clapperboard size={16} />}
+          {isRendering ? `${Math.round(percent)}%` : 'Render'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div>
+          <div className="text-sm font-medium">Render frames</div>
+          <p className="text-[10px] text-white/50 mt-1">
+            Renders the whole track offline to a zipped PNG sequence with a frame manifest.
+            The result is identical on every machine.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-white/70">Resolution</Label>
+            <Select value={resolutionId} onValueChange={setResolutionId} disabled={isRendering}>
+              <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-black/80 border-white/10 text-white">
+                <SelectGroup>
+                  {RECORDING_RESOLUTIONS.map(resolution => (
+                    <SelectItem key={resolution.id} value={resolution.id} className="text-xs hover:bg-white/10">
+                      {resolution.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-white/70">Frame rate</Label>
+            <Select value={fps} onValueChange={setFps} disabled={isRendering}>
+              <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-black/80 border-white/10 text-white">
+                <SelectGroup>
+                  {OFFLINE_FRAME_RATES.map(rate => (
+                    <SelectItem key={rate} value={String(rate)} className="text-xs hover:bg-white/10">
+                      {rate} fps
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="render-transparent" className="text-xs text-white/70">Transparent background</Label>
+          <Switch
+            id="render-transparent"
+            checked={transparent}
+            onCheckedChange={setTransparent}
+            disabled={isRendering}
+          />
+        </div>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-white/70 tabular-nums">
+              <span>{phaseLabels[progress.phase]}</span>
+              {progress.frameCount > 0 && <span>{progress.frame} / {progress.frameCount}</span>}
+            </div>
+            <Progress value={percent} className="h-1.5 bg-white/10 [&>div]:bg-white/60" />
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <button
+          onClick={isRendering ? onCancel : handleStart}
+          disabled={disabled && !isRendering}
+          className="w-full px-3 py-2 text-xs rounded-lg bg-white/20 hover:bg-white/30 transition-colors disabled:opacity-40"
+        >
+          {isRendering ? 'Cancel' : 'Render current track'}
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OfflineRenderControls;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_PITCH_SHIFT } from '@/utils/pitchShift';
+import {
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PLAYBACK_RATE_PRESETS,
+  formatPlaybackRate
+} from '@/utils/playbackRate';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface PlaybackSpeedControlsProps {
+  playbackRate: number;
+  preservesPitch: boolean;
+  pitchShift: number;
+  isPitchShiftSupported: boolean;
+  onPlaybackRateChange: (rate: number) => void;
+  onPreservesPitchChange: (preserve: boolean) => void;
+  onPitchShiftChange: (semitones: number) => void;
+}
+
+// The rate slider moves in even steps of log rate, so 1x sits in the middle
+const SLIDER_STEPS = 200;
+
+const toSlider = (rate: number) =>
+  (Math.log(rate / MIN_PLAYBACK_RATE) / Math.log(MAX_PLAYBACK_RATE / MIN_PLAYBACK_RATE)) * SLIDER_STEPS;
+const fromSlider = (value: number) =>
+  Math.round(MIN_PLAYBACK_RATE * (MAX_PLAYBACK_RATE / MIN_PLAYBACK_RATE) ** (value / SLIDER_STEPS) * 100) / 100;
+
+const formatSemitones = (semitones: number) =>
+  semitones === 0 ? '0 st' : `${semitones > 0 ? '+' : ''}${semitones} st`;
+
+const PlaybackSpeedControls: React.FC<PlaybackSpeedControlsProps> = ({
+  playbackRate,
+  preservesPitch,
+  pitchShift,
+  isPitchShiftSupported,
+  onPlaybackRateChange,
+  onPreservesPitchChange,
+  onPitchShiftChange
+}) => {
+  const isChanged = playbackRate !== 1 || pitchShift !== 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "control-button relative overflow-hidden text-xs tabular-nums min-w-[2.5rem]",
+            isChanged && "text-white bg-white/10"
+          )}
+          aria-label="Playback speed and pitch"
+          title="Playback speed and pitch"
+        >
+          {formatPlaybackRate(playbackRate)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium">Speed and pitch</div>
+          {isChanged && (
+            <button
+              onClick={() => {
+                onPlaybackRateChange(1);
+                onPitchShiftChange(0);
+              }}
+              className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+              aria-label="Reset speed and pitch"
+              title="Reset speed and pitch"
+            >
+              <RotateCcw size={14} />
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-white/70">
+            <span>Speed</span>
+            <span className="tabular-nums">{formatPlaybackRate(playbackRate)}</span>
+          </div>
+          <Slider
+            value={[toSlider(playbackRate)]}
+            min={0}
+            max={SLIDER_STEPS}
+            step={1}
+            onValueChange={([value]) => onPlaybackRateChange(fromSlider(value))}
+            aria-label="Speed"
+          />
+          <div className="flex justify-between gap-1 pt-1">
+            {PLAYBACK_RATE_PRESETS.map(rate => (
+              <button
+                key={rate}
+                onClick={() => onPlaybackRateChange(rate)}
+                className={cn(
+                  "px-1.5 py-0.5 text-[10px] rounded-md transition-all tabular-nums",
+                  playbackRate === rate ? "bg-white/20 text-white" : "text-white/70 hover:text-white hover:bg-white/10"
+                )}
+              >
+                {formatPlaybackRate(rate)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="preserve-pitch" className="text-xs text-white/70">Keep pitch when changing speed</Label>
+          <Switch id="preserve-pitch" checked={preservesPitch} onCheckedChange={onPreservesPitchChange} />
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-white/70">
+            <span>Pitch</span>
+            <span className="tabular-nums">{formatSemitones(pitchShift)}</span>
+          </div>
+          {isPitchShiftSupported ? (
+            <Slider
+              value={[pitchShift]}
+              min={-MAX_PITCH_SHIFT}
+              max={MAX_PITCH_SHIFT}
+              step={1}
+              onValueChange={([value]) => onPitchShiftChange(value)}
+              aria-label="Pitch"
+            />
+          ) : (
+            <p className="text-xs text-white/50">Pitch shifting needs a browser with AudioWorklet support.</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PlaybackSpeedControls;
@@ -0,0 +1,232 @@
+import React, { useState, useRef } from 'react';
+import { GripVertical, ListMusic, Plus, Repeat, Repeat1, Shuffle, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type PlaylistTrack, type RepeatMode } from '@/hooks/usePlaylist';
+import { type TransitionSettings } from '@/utils/crossfade';
+import TransitionControls from '@/components/TransitionControls';
+
+interface PlaylistPanelProps {
+  tracks: PlaylistTrack[];
+  currentTrackId?: string;
+  isPlaying: boolean;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  transitionSettings?: TransitionSettings;
+  onTransitionSettingsChange?: (settings: TransitionSettings) => void;
+  className?: string;
+}
+
+const repeatLabels: Record<RepeatMode, string> = {
+  off: 'Repeat off',
+  all: 'Repeat all',
+  one: 'Repeat one'
+};
+
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
+  tracks,
+  currentTrackId,
+  isPlaying,
+  shuffle,
+  repeat,
+  onSelect,
+  onRemove,
+  onMove,
+  onAddFiles,
+  onToggleShuffle,
+  onCycleRepeat,
+  transitionSettings,
+  onTransitionSettingsChange,
+  className
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [fileDragActive, setFileDragActive] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  // Row reordering
+  const handleRowDragStart = (e: React.DragEvent, index: number) => {
+    setDragIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', String(index));
+  };
+
+  const handleRowDragOver = (e: React.DragEvent, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropIndex(index);
+  };
+
+  const handleRowDrop = (e: React.DragEvent, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onMove(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleRowDragEnd = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Dropping files from the desktop onto the panel appends them to the queue
+  const handlePanelDrag = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setFileDragActive(e.type !== 'dragleave');
+  };
+
+  const handlePanelDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setFileDragActive(false);
+    onAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onAddFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  // Keyboard reordering for accessibility
+  const handleRowKeyDown = (e: React.KeyboardEvent, index: number, id: string) => {
+    if (e.altKey && e.key === 'ArrowUp') {
+      e.preventDefault();
+      onMove(index, index - 1);
+    } else if (e.altKey && e.key === 'ArrowDown') {
+      e.preventDefault();
+      onMove(index, index + 1);
+    } else if (e.key === 'Enter') {
+      onSelect(id);
+    } else if (e.key === 'Delete') {
+      onRemove(id);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "w-full max-w-md mx-auto p-4 rounded-xl glass-panel animate-fade-in transition-all",
+        fileDragActive && "bg-white/20 border-dashed border-white/40",
+        className
+      )}
+      onDragEnter={handlePanelDrag}
+      onDragOver={handlePanelDrag}
+      onDragLeave={handlePanelDrag}
+      onDrop={handlePanelDrop}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept="audio/*"
+        multiple
+        onChange={handleFileChange}
+      />
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ListMusic size={16} />
+          Queue
+          <span className="text-xs text-white/50 font-normal">{tracks.length}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleShuffle}
+            className={cn("control-button", shuffle ? "text-white bg-white/10" : "text-white/50")}
+            aria-label={shuffle ? 'Shuffle on' : 'Shuffle off'}
+            aria-pressed={shuffle}
+            title={shuffle ? 'Shuffle on' : 'Shuffle off'}
+          >
+            <Shuffle size={16} />
+          </button>
+          <button
+            onClick={onCycleRepeat}
+            className={cn("control-button", repeat !== 'off' ? "text-white bg-white/10" : "text-white/50")}
+            aria-label={repeatLabels[repeat]}
+            title={repeatLabels[repeat]}
+          >
+            {repeat === 'one' ? <Repeat1 size={16} /> : <Repeat size={16} />}
+          </button>
+          {transitionSettings && onTransitionSettingsChange && (
+            <TransitionControls settings={transitionSettings} onChange={onTransitionSettingsChange} />
+          )}
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="control-button text-white/70 hover:text-white"
+            aria-label="Add tracks"
+            title="Add tracks"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Track list */}
+      <ul className="max-h-56 overflow-y-auto -mx-1 pr-1">
+        {tracks.map((track, index) => {
+          const isCurrent = track.id === currentTrackId;
+
+          return (
+            <li
+              key={track.id}
+              draggable
+              tabIndex={0}
+              onDragStart={(e) => handleRowDragStart(e, index)}
+              onDragOver={(e) => handleRowDragOver(e, index)}
+              onDrop={(e) => handleRowDrop(e, index)}
+              onDragEnd={handleRowDragEnd}
+              onKeyDown={(e) => handleRowKeyDown(e, index, track.id)}
+              onDoubleClick={() => onSelect(track.id)}
+              className={cn(
+                "group flex items-center gap-2 px-1 py-1.5 rounded-md text-xs cursor-default transition-colors outline-none focus-visible:ring-1 focus-visible:ring-white/40",
+                isCurrent ? "bg-white/15 text-white" : "text-white/70 hover:bg-white/5",
+                dragIndex === index && "opacity-40",
+                dropIndex === index && dragIndex !== index && "border-t border-white/40"
+              )}
+            >
+              <GripVertical size={14} className="shrink-0 text-white/30 cursor-grab" />
+              <span className="w-5 shrink-0 text-right tabular-nums text-white/40">
+                {isCurrent && isPlaying ? '▶' : index + 1}
+              </span>
+              <button
+                onClick={() => onSelect(track.id)}
+                className="flex-1 min-w-0 text-left truncate"
+                title={track.artist ? `${track.artist} – ${track.title}` : track.title}
+              >
+                {track.title}
+                {track.artist && <span className="text-white/40"> · {track.artist}</span>}
+              </button>
+              <button
+                onClick={() => onRemove(track.id)}
+                className="p-1 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-white/10 transition-opacity"
+                aria-label={`Remove ${track.title}`}
+              >
+                <X size={12} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className="mt-3 text-[10px] text-white/40 text-center">
+        Drag to reorder • Drop files here to add them
+      </p>
+    </div>
+  );
+};
+
+export default PlaylistPanel;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Circle, Square, Video } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type RecordingOptions } from '@/hooks/useCanvasRecorder';
+import { RECORDING_BITRATES, RECORDING_RESOLUTIONS } from '@/utils/videoRecording';
+import { formatBytes, formatTime } from '@/utils/visualizerHelpers';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface RecordingControlsProps {
+  isSupported: boolean;
+  isRecording: boolean;
+  elapsed: number;
+  recordedBytes: number;
+  error: string | null;
+  // Position in the current track (0-1), shown while recording a file
+  trackProgress?: number;
+  onStart: (options: RecordingOptions) => void;
+  onStop: () => void;
+  className?: string;
+}
+
+const RecordingControls: React.FC<RecordingControlsProps> = ({
+  isSupported,
+  isRecording,
+  elapsed,
+  recordedBytes,
+  error,
+  trackProgress,
+  onStart,
+  onStop,
+  className
+}) => {
+  const [resolutionId, setResolutionId] = useState(RECORDING_RESOLUTIONS[1].id);
+  const [bitrate, setBitrate] = useState(String(RECORDING_BITRATES[2]));
+
+  const handleStart = () => {
+    const resolution = RECORDING_RESOLUTIONS.find(item => item.id === resolutionId) || RECORDING_RESOLUTIONS[0];
+    onStart({ resolution, videoBitsPerSecond: Number(bitrate) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors",
+            isRecording ? "bg-red-500/30 hover:bg-red-500/40" : "bg-white/10 hover:bg-white/20",
+            className
+          )}
+        >
+          {isRecording ? (
+            <>
+              <Circle size={10} className="fill-red-500 text-red-500 animate-pulse" />
+              <span className="tabular-nums">{formatTime(elapsed)}</span>
+            </>
+          ) : (
+            <>
+              <Video size={16} />
+              Record
+            </>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="text-sm font-medium">Record video</div>
+
+        {!isSupported ? (
+          <p className="text-xs text-white/70">
+            This browser can't record the visualizer. Try a recent version of Chrome, Edge or Firefox.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-white/70">Resolution</Label>
+                <Select value={resolutionId} onValueChange={setResolutionId} disabled={isRecording}>
+                  <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/80 border-white/10 text-white">
+                    <SelectGroup>
+                      {RECORDING_RESOLUTIONS.map(resolution => (
+                        <SelectItem key={resolution.id} value={resolution.id} className="text-xs hover:bg-white/10">
+                          {resolution.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-white/70">Bitrate</Label>
+                <Select value={bitrate} onValueChange={setBitrate} disabled={isRecording}>
+                  <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/80 border-white/10 text-white">
+                    <SelectGroup>
+                      {RECORDING_BITRATES.map(value => (
+                        <SelectItem key={value} value={String(value)} className="text-xs hover:bg-white/10">
+                          {value / 1_000_000} Mbps
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isRecording && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-white/70 tabular-nums">
+                  <span>{formatTime(elapsed)} recorded</span>
+                  <span>{formatBytes(recordedBytes)}</span>
+                </div>
+                {trackProgress !== undefined && (
+                  <Progress value={trackProgress * 100} className="h-1.5 bg-white/10 [&>div]:bg-red-400" />
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-xs text-red-300">{error}</p>}
+
+            <button
+              onClick={isRecording ? onStop : handleStart}
+              className={cn(
+                "w-full flex items-center justify-center gap-2 px-3 py-2 text-xs rounded-lg transition-colors",
+                isRecording ? "bg-red-500/30 hover:bg-red-500/40" : "bg-white/20 hover:bg-white/30"
+              )}
+            >
+              {isRecording ? <Square size={12} /> : <Circle size={12} className="fill-red-500 text-red-500" />}
+              {isRecording ? 'Stop and save' : 'Start recording'}
+            </button>
+
+            <p className="text-[10px] text-white/40">
+              Records the visualizer and the audio to a WebM file. Keep this tab visible while recording.
+            </p>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RecordingControls;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import {
+  type RendererBackend,
+  type RendererPreference,
+  RENDERER_OPTIONS,
+  isWebGL2Supported
+} from '@/utils/visualizerRenderer';
+import { type RenderThread } from '@/utils/visualizerHost';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface RendererControlsProps {
+  preference: RendererPreference;
+  // Backend actually drawing, or null while the canvas is being set up
+  backend: RendererBackend | null;
+  thread: RenderThread | null;
+  onChange: (preference: RendererPreference) => void;
+}
+
+const BACKEND_LABELS: Record<RendererBackend, string> = {
+  webgl2: 'WebGL2',
+  canvas2d: 'Canvas 2D'
+};
+
+const RendererControls: React.FC<RendererControlsProps> = ({ preference, backend, thread, onChange }) => {
+  const fellBack = preference !== 'canvas2d' && backend === 'canvas2d';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label="Renderer settings"
+          title="Renderer settings"
+        >
+          <Cpu size={14} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="text-sm font-medium">Renderer</div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs text-white/70">Backend</Label>
+          <Select value={preference} onValueChange={(value: RendererPreference) => onChange(value)}>
+            <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-black/80 border-white/10 text-white">
+              <SelectGroup>
+                {RENDERER_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-xs text-white/50">
+          {backend
+            ? `Drawing with ${BACKEND_LABELS[backend]} ${thread === 'worker' ? 'in a worker' : 'on the main thread'}.`
+            : 'Setting up the canvas…'}
+          {fellBack && (isWebGL2Supported()
+            ? ' WebGL2 could not be set up, so Canvas 2D is used instead.'
+            : ' This browser has no WebGL2, so Canvas 2D is used instead.')}
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RendererControls;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { type ThemePalette, defaultBackground } from '@/utils/visualizerHelpers';
+import {
+  type CustomTheme,
+  createCustomTheme,
+  downloadTheme,
+  parseColor,
+  parseThemeJson,
+  toHexString,
+  toRgbaString
+} from '@/utils/customThemes';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+interface ThemeEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  basePalette: ThemePalette;
+  editingTheme: CustomTheme | null;
+  onPreview: (theme: ThemePalette | null) => void;
+  onSave: (theme: CustomTheme) => void;
+  onDelete: (id: string) => void;
+}
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  withAlpha?: boolean;
+}
+
+/**
+ * A swatch that opens a color picker, with an opacity slider for rgba colors
+ */
+const ColorField: React.FC<ColorFieldProps> = ({ label, value, onChange, withAlpha = true }) => {
+  const color = parseColor(value) || { r: 255, g: 255, b: 255, a: 1 };
+
+  const update = (changes: Partial<typeof color>) => {
+    const next = { ...color, ...changes };
+    onChange(withAlpha ? toRgbaString(next) : toHexString(next));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex flex-col items-center gap-1 text-[10px] text-white/60 hover:text-white transition-colors">
+          <span
+            className="w-8 h-8 rounded-md border border-white/20"
+            style={{ background: value }}
+          />
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 bg-black/90 border-white/10 text-white space-y-3">
+        <input
+          type="color"
+          value={toHexString(color)}
+          onChange={(e) => {
+            const picked = parseColor(e.target.value);
+            if (picked) update({ r: picked.r, g: picked.g, b: picked.b });
+          }}
+          className="w-full h-10 bg-transparent cursor-pointer"
+          aria-label={`${label} color`}
+        />
+        {withAlpha && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-white/70">
+              <span>Opacity</span>
+              <span className="tabular-nums">{Math.round(color.a * 100)}%</span>
+            </div>
+            <Slider
+              value={[color.a]}
+              min={0}
+              max={1}
+              step={0.05}
+              onValueChange={([a]) => update({ a })}
+              aria-label={`${label} opacity`}
+            />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const gradientLabels = ['Start', 'Middle', 'End'];
+const accentLabels = ['Accent 1', 'Accent 2', 'Accent 3'];
+
+// Mounted for each time the editor is opened, so every session starts from
+// a fresh draft
+const ThemeEditor: React.FC<ThemeEditorDialogProps> = ({
+  open,
+  onOpenChange,
+  basePalette,
+  editingTheme,
+  onPreview,
+  onSave,
+  onDelete
+}) => {
+  // Start from the theme being edited, or a copy of the current palette.
+  // Later palette changes come from the draft itself.
+  const [draft, setDraft] = useState<CustomTheme>(() => editingTheme
+    ? createCustomTheme(editingTheme)
+    : createCustomTheme(basePalette, `${basePalette.name} (custom)`));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    onPreview(draft);
+    return () => onPreview(null);
+  }, [draft, onPreview]);
+
+  const update = (changes: Partial<CustomTheme>) => setDraft(prev => ({ ...prev, ...changes }));
+  const background = draft.background || defaultBackground;
+  const hueRange = draft.rainbowHueRange || [0, 360];
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const theme = parseThemeJson(await file.text());
+      setDraft(createCustomTheme(theme));
+      toast.success(`Loaded "${theme.name}"`, {
+        description: 'Save it to add it to your themes.'
+      });
+    } catch (error) {
+      toast.error('Could not import theme', {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      toast.error('Give the theme a name first');
+      return;
+    }
+    // Keep the id when editing so the saved theme is replaced, not duplicated
+    onSave({ ...draft, id: editingTheme?.id ?? draft.id, name });
+    onOpenChange(false);
+  };
+
+  const handleDelete = () => {
+    if (!editingTheme) return;
+    onDelete(editingTheme.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogContent
+        className="left-auto right-4 translate-x-0 max-w-sm max-h-[90vh] overflow-y-auto bg-[#0b1120]/95 border-white/10 text-white data-[state=closed]:slide-out-to-left-0 data-[state=open]:slide-in-from-left-0"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>{editingTheme ? 'Edit theme' : 'New theme'}</DialogTitle>
+          <DialogDescription className="text-white/60 text-xs">
+            Changes preview live in the visualizer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept="application/json,.json"
+          onChange={handleImport}
+        />
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="theme-name" className="text-xs text-white/70">Name</Label>
+            <Input
+              id="theme-name"
+              value={draft.name}
+              maxLength={40}
+              onChange={(e) => update({ name: e.target.value })}
+              className="h-8 text-xs bg-transparent border-white/10 text-white"
+            />
+          </div>
+
+          {/* Visualizer colors */}
+          <div className="space-y-2">
+            <Label className="text-xs text-white/70">Gradient</Label>
+            <div className="flex items-end gap-3">
+              {draft.gradient.map((stop, index) => (
+                <ColorField
+                  key={index}
+                  label={gradientLabels[index]}
+                  value={stop}
+                  onChange={(value) => update({
+                    gradient: draft.gradient.map((item, i) => (i === index ? value : item))
+                  })}
+                />
+              ))}
+              <div className="w-px h-8 bg-white/10 mx-1 self-start" />
+              <ColorField label="Highlight" value={draft.highlight} onChange={(highlight) => update({ highlight })} />
+              <ColorField label="Glow" value={draft.glow} onChange={(glow) => update({ glow })} />
+            </div>
+          </div>
+
+          {/* Rainbow mode */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="theme-rainbow" className="text-xs text-white/70">Rainbow</Label>
+              <Switch
+                id="theme-rainbow"
+                checked={draft.isRainbow}
+                onCheckedChange={(isRainbow) => update({ isRainbow })}
+              />
+            </div>
+            {draft.isRainbow && (
+              <div className="space-y-3">
+                <div
+                  className="h-2 rounded-full"
+                  style={{
+                    background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+                      .map(position => `hsl(${hueRange[0] + (hueRange[1] - hueRange[0]) * position}, 90%, 60%)`)
+                      .join(', ')})`
+                  }}
+                />
+                {(['Start hue', 'End hue'] as const).map((label, index) => (
+                  <div key={label} className="space-y-1.5">
+                    <div className="flex justify-between text-xs text-white/70">
+                      <span>{label}</span>
+                      <span className="tabular-nums">{hueRange[index]}°</span>
+                    </div>
+                    <Slider
+                      value={[hueRange[index]]}
+                      min={0}
+                      max={360}
+                      step={1}
+                      onValueChange={([hue]) => update({
+                        rainbowHueRange: index === 0 ? [hue, hueRange[1]] : [hueRange[0], hue]
+                      })}
+                      aria-label={label}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Page background */}
+          <div className="space-y-2">
+            <Label className="text-xs text-white/70">Background</Label>
+            <div className="flex items-end gap-3">
+              <ColorField
+                label="Top"
+                value={background.gradientFrom}
+                withAlpha={false}
+                onChange={(gradientFrom) => update({ background: { ...background, gradientFrom } })}
+              />
+              <ColorField
+                label="Bottom"
+                value={background.gradientTo}
+                withAlpha={false}
+                onChange={(gradientTo) => update({ background: { ...background, gradientTo } })}
+              />
+              {background.accents.map((accent, index) => (
+                <ColorField
+                  key={index}
+                  label={accentLabels[index]}
+                  value={accent}
+                  withAlpha={false}
+                  onChange={(value) => update({
+                    background: {
+                      ...background,
+                      accents: background.accents.map((item, i) => (i === index ? value : item))
+                    }
+                  })}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-row flex-wrap gap-2 sm:justify-between sm:space-x-0">
+          <div className="flex gap-1">
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="control-button text-white/70 hover:text-white"
+              aria-label="Import theme"
+              title="Import theme from JSON"
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={() => downloadTheme(draft)}
+              className="control-button text-white/70 hover:text-white"
+              aria-label="Export theme"
+              title="Export theme as JSON"
+            >
+              <Download size={16} />
+            </button>
+            {editingTheme && (
+              <button
+                onClick={handleDelete}
+                className="control-button text-red-300 hover:bg-red-500/20"
+                aria-label="Delete theme"
+                title="Delete theme"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onOpenChange(false)}
+              className="px-3 py-1.5 text-xs rounded-lg text-white/70 hover:bg-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-xs rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
+            >
+              Save theme
+            </button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Editor for user-defined themes. It isn't modal so the visualizer stays
+ * visible and every change previews live.
+ */
+const ThemeEditorDialog: React.FC<ThemeEditorDialogProps> = (props) =>
+  props.open ? <ThemeEditor {...props} /> : null;
+
+export default ThemeEditorDialog;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Blend } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  type TransitionSettings,
+  CROSSFADE_CURVES,
+  MAX_CROSSFADE,
+  MIN_CROSSFADE,
+  TRANSITION_MODES
+} from '@/utils/crossfade';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface TransitionControlsProps {
+  settings: TransitionSettings;
+  onChange: (settings: TransitionSettings) => void;
+}
+
+const buttonClass = "flex-1 px-2 py-1 text-xs rounded-md transition-all";
+const inactiveClass = "text-white/70 hover:text-white hover:bg-white/10";
+
+/**
+ * How one track leads into the next: straight after it, gaplessly, or
+ * crossfaded
+ */
+const TransitionControls: React.FC<TransitionControlsProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<TransitionSettings>) => onChange({ ...settings, ...changes });
+  const isCrossfade = settings.mode === 'crossfade';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn("control-button", settings.mode !== 'off' ? "text-white bg-white/10" : "text-white/50")}
+          aria-label="Track transitions"
+          title="Track transitions"
+        >
+          <Blend size={16} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="text-sm font-medium">Transitions</div>
+
+        <div className="flex gap-1">
+          {TRANSITION_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => update({ mode: mode.id })}
+              className={cn(buttonClass, settings.mode === mode.id ? "bg-white/20 text-white" : inactiveClass)}
+              aria-pressed={settings.mode === mode.id}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+
+        {isCrossfade && (
+          <>
+            <div className="space-y-1.5">
+              <div className="flex justify-between text-xs text-white/70">
+                <span>Length</span>
+                <span className="tabular-nums">{settings.duration} s</span>
+              </div>
+              <Slider
+                value={[settings.duration]}
+                min={MIN_CROSSFADE}
+                max={MAX_CROSSFADE}
+                step={0.5}
+                onValueChange={([value]) => update({ duration: value })}
+                aria-label="Crossfade length"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="text-xs text-white/70">Curve</div>
+              <div className="flex gap-1">
+                {CROSSFADE_CURVES.map(curve => (
+                  <button
+                    key={curve.id}
+                    onClick={() => update({ curve: curve.id })}
+                    className={cn(buttonClass, settings.curve === curve.id ? "bg-white/20 text-white" : inactiveClass)}
+                    aria-pressed={settings.curve === curve.id}
+                  >
+                    {curve.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="gapless-albums" className="text-xs text-white/70">Gapless within an album</Label>
+              <Switch
+                id="gapless-albums"
+                checked={settings.gaplessAlbums}
+                onCheckedChange={gaplessAlbums => update({ gaplessAlbums })}
+              />
+            </div>
+          </>
+        )}
+
+        {settings.mode === 'gapless' && (
+          <p className="text-xs text-white/50">Each track starts as the one before it ends.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TransitionControls;
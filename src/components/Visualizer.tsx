@@ -1,13 +1,26 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Palette } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { 
-  generateWaveform, 
-  generateCircular, 
-  getThemeColor, 
-  colorThemes, 
-  type ColorTheme,
-  getRainbowColor
-} from '@/utils/visualizerHelpers';
+import { colorThemes, type ThemePalette } from '@/utils/visualizerHelpers';
+import {
+  type VisualizationMode,
+  type VisualizerSettingValue,
+  type VisualizerSettingsValues,
+  DEFAULT_VISUALIZER,
+  getVisualizer,
+  listVisualizers
+} from '@/utils/visualizerPlugins';
+import { type RendererBackend, type RendererPreference } from '@/utils/visualizerRenderer';
+import { type VisualizerSettings } from '@/utils/visualizerScene';
+import { type VisualizerHost, createMainThreadHost, createWorkerHost } from '@/utils/visualizerHost';
+import { type TempoAnalysis } from '@/utils/tempoAnalysis';
+import { type KeyAnalysis } from '@/utils/chroma';
+import { type FrequencyScale } from '@/utils/frequencyScale';
+import { type FrameBus } from '@/utils/frameBus';
+import FrequencyScaleControls from '@/components/FrequencyScaleControls';
+import VisualizerSettingsControls from '@/components/VisualizerSettingsControls';
+import '@/visualizers';
+import RendererControls from '@/components/RendererControls';
 import { 
   Select, 
   SelectContent, 
@@ -18,44 +31,145 @@ import {
 } from "@/components/ui/select";
 
 interface VisualizerProps {
-  frequencyData: Uint8Array;
-  timeData: Uint8Array;
-  isPlaying: boolean;
+  // Source of the analyser frames, read by the render loop
+  frameBus?: FrameBus;
+  // Beat grid of the playing track; motion locks to it when present
+  tempo?: TempoAnalysis | null;
+  // Whole-track key and tuning, shown instead of the live estimate when available
+  keyAnalysis?: KeyAnalysis | null;
+  frequencyScale?: FrequencyScale;
+  // Sample rate of the analysed audio, which places each frequency bin
+  sampleRate?: number;
+  showFrequencyAxis?: boolean;
+  onFrequencyScaleChange?: (scale: FrequencyScale) => void;
+  onShowFrequencyAxisChange?: (show: boolean) => void;
+  // Stored settings of each visualizer, by id
+  visualizerSettings?: Record<VisualizationMode, Partial<Record<string, VisualizerSettingValue>>>;
+  onVisualizerSettingsChange?: (mode: VisualizationMode, settings: VisualizerSettingsValues) => void;
+  rendererPreference?: RendererPreference;
+  onRendererPreferenceChange?: (preference: RendererPreference) => void;
   volume: number;
   sensitivity?: number;
   className?: string;
-  visualizationType?: 'bars' | 'circular' | 'wave' | 'blob';
+  visualizationType?: VisualizationMode;
+  onVisualizationTypeChange?: (mode: VisualizationMode) => void;
+  palette?: ThemePalette;
+  themeId?: string;
+  themeOptions?: Array<{ id: string; name: string }>;
+  onThemeChange?: (id: string) => void;
+  onEditThemes?: () => void;
+  canvasRef?: React.RefObject<HTMLCanvasElement>;
+  // Keeps rendering off the worker, so the canvas can be read back, e.g. for
+  // recording; a canvas handed to a worker only shows a placeholder
+  renderOnMainThread?: boolean;
 }
 
+const builtInThemeOptions = Object.entries(colorThemes).map(([id, theme]) => ({ id, name: theme.name }));
+
 const Visualizer: React.FC<VisualizerProps> = ({
-  frequencyData,
-  timeData,
-  isPlaying,
+  frameBus,
+  tempo,
+  keyAnalysis,
+  frequencyScale,
+  sampleRate = 48000,
+  showFrequencyAxis = false,
+  onFrequencyScaleChange,
+  onShowFrequencyAxisChange,
+  visualizerSettings,
+  onVisualizerSettingsChange,
+  rendererPreference = 'auto',
+  onRendererPreferenceChange,
   volume,
   sensitivity = 1.5,
   className,
-  visualizationType = 'bars'
+  visualizationType = DEFAULT_VISUALIZER,
+  onVisualizationTypeChange,
+  palette = colorThemes.blue,
+  themeId = 'blue',
+  themeOptions = builtInThemeOptions,
+  onThemeChange,
+  onEditThemes,
+  canvasRef: externalCanvasRef,
+  renderOnMainThread = false
 }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ownCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Callers can pass a ref to reach the canvas, e.g. for recording
+  const canvasRef = externalCanvasRef || ownCanvasRef;
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-  const [visualizerMode, setVisualizerMode] = useState<'bars' | 'circular' | 'wave' | 'blob'>(visualizationType);
-  const [colorTheme, setColorTheme] = useState<ColorTheme>('blue');
-  const requestRef = useRef<number>();
-  const previousTimeRef = useRef<number>();
-  const angleRef = useRef<number>(0);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizationMode>(visualizationType);
+  // Set when WebGL2 was offered but couldn't be set up on this canvas
+  const [webGLFailed, setWebGLFailed] = useState(false);
+  const effectivePreference: RendererPreference = webGLFailed ? 'canvas2d' : rendererPreference;
+  // Set when the worker couldn't render; the canvas it was handed is lost, so
+  // rendering stays on the main thread from then on
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const onMainThread = renderOnMainThread || workerFailed;
+  const [host, setHost] = useState<VisualizerHost | null>(null);
+  const [backend, setBackend] = useState<RendererBackend | null>(null);
+
+  const settings = useMemo<VisualizerSettings>(() => ({
+    mode: visualizerMode,
+    dimensions,
+    sensitivity,
+    volume,
+    palette,
+    tempo: tempo ?? null,
+    keyAnalysis: keyAnalysis ?? null,
+    frequencyLayout: frequencyScale && { scale: frequencyScale, sampleRate },
+    showFrequencyAxis,
+    modeSettings: visualizerSettings?.[visualizerMode]
+  }), [visualizerMode, dimensions, sensitivity, volume, palette, tempo, keyAnalysis, frequencyScale, sampleRate, showFrequencyAxis, visualizerSettings]);
+  const definition = getVisualizer(visualizerMode) ?? getVisualizer(DEFAULT_VISUALIZER);
+  // A new host starts from the settings at the time it's created
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Rendering moves to a worker where the canvas can be handed over, and
+  // stays on the main thread otherwise. A canvas keeps the first kind of
+  // context taken from it and can only be handed over once, so the canvas is
+  // replaced (keyed by the preference and thread) whenever either changes.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let active = true;
+    const onReady = (ready: RendererBackend) => {
+      if (active) setBackend(ready);
+    };
+    const pixelRatio = window.devicePixelRatio || 1;
+    const workerHost = onMainThread
+      ? null
+      : createWorkerHost(canvas, effectivePreference, frameBus, settingsRef.current, pixelRatio, {
+        onReady,
+        onFailed: () => {
+          if (active) setWorkerFailed(true);
+        }
+      });
+    const created = workerHost ??
+      createMainThreadHost(canvas, effectivePreference, frameBus, settingsRef.current, {
+        onReady,
+        onFailed: () => {
+          if (active && effectivePreference !== 'canvas2d') setWebGLFailed(true);
+        }
+      });
+    setHost(created);
+
+    return () => {
+      active = false;
+      created?.dispose();
+      setHost(null);
+      setBackend(null);
+    };
+  }, [canvasRef, effectivePreference, frameBus, onMainThread]);
+
+  useEffect(() => {
+    setWebGLFailed(false);
+  }, [rendererPreference]);
 
   useEffect(() => {
     const updateDimensions = () => {
       if (canvasRef.current && canvasRef.current.parentElement) {
         const { clientWidth, clientHeight } = canvasRef.current.parentElement;
-        
-        const dpr = window.devicePixelRatio || 1;
-        canvasRef.current.width = clientWidth * dpr;
-        canvasRef.current.height = clientHeight * dpr;
-        
-        canvasRef.current.style.width = `${clientWidth}px`;
-        canvasRef.current.style.height = `${clientHeight}px`;
-        
         setDimensions({ width: clientWidth, height: clientHeight });
       }
     };
@@ -66,470 +180,105 @@ const Visualizer: React.FC<VisualizerProps> = ({
     return () => {
       window.removeEventListener('resize', updateDimensions);
     };
-  }, []);
+  }, [canvasRef]);
 
   useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const animate = (time: number) => {
-      if (previousTimeRef.current === undefined) {
-        previousTimeRef.current = time;
-      }
-
-      const ctx = canvasRef.current?.getContext('2d');
-      if (!ctx) return;
-
-      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-      
-      const dpr = window.devicePixelRatio || 1;
-      ctx.scale(dpr, dpr);
-      
-      if (frequencyData.length) {
-        if (visualizerMode === 'bars') {
-          drawBarVisualizer(ctx, frequencyData, dimensions, sensitivity, volume, colorTheme);
-        } else if (visualizerMode === 'circular') {
-          drawCircularVisualizer(ctx, frequencyData, dimensions, sensitivity, volume, colorTheme);
-        } else if (visualizerMode === 'wave') {
-          drawWaveVisualizer(ctx, timeData, dimensions, sensitivity, volume, colorTheme);
-        } else if (visualizerMode === 'blob') {
-          drawBlobVisualizer(ctx, frequencyData, dimensions, sensitivity, volume, colorTheme);
-        }
-      } else {
-        drawPlaceholderVisualizer(ctx, dimensions, colorTheme);
-      }
-      
-      previousTimeRef.current = time;
-      requestRef.current = requestAnimationFrame(animate);
-    };
+    if (!host || !canvasRef.current) return;
+    host.resize(dimensions, window.devicePixelRatio || 1);
+    canvasRef.current.style.width = `${dimensions.width}px`;
+    canvasRef.current.style.height = `${dimensions.height}px`;
+  }, [host, canvasRef, dimensions]);
 
-    requestRef.current = requestAnimationFrame(animate);
-    return () => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-      }
-    };
-  }, [frequencyData, timeData, dimensions, visualizerMode, isPlaying, sensitivity, volume, colorTheme]);
+  useEffect(() => {
+    host?.update(settings);
+  }, [host, settings]);
 
   useEffect(() => {
     setVisualizerMode(visualizationType);
   }, [visualizationType]);
 
-  const drawBarVisualizer = (
-    ctx: CanvasRenderingContext2D,
-    data: Uint8Array,
-    dimensions: { width: number; height: number },
-    sensitivity: number,
-    volume: number,
-    theme: ColorTheme
-  ) => {
-    const { width, height } = dimensions;
-    const numBars = Math.min(128, Math.floor(width / 8));
-    const values = generateWaveform(data, numBars, sensitivity);
-    const barWidth = Math.max(2, (width / numBars) - 2);
-    
-    ctx.shadowColor = colorThemes[theme].glow;
-    ctx.shadowBlur = 10;
-    
-    values.forEach((value, i) => {
-      const position = i / numBars;
-      const x = (i * (barWidth + 2)) + (width - (numBars * (barWidth + 2) - 2)) / 2;
-      
-      const positionEffect = 0.7 + Math.sin(position * Math.PI) * 0.6;
-      const barHeight = Math.max(4, value * height * 0.8 * volume * positionEffect);
-      
-      ctx.shadowBlur = 10 * value;
-      
-      ctx.beginPath();
-      ctx.moveTo(x, height);
-      ctx.lineTo(x, height - barHeight + barWidth / 2);
-      ctx.arcTo(x, height - barHeight, x + barWidth / 2, height - barHeight, barWidth / 2);
-      ctx.arcTo(x + barWidth, height - barHeight, x + barWidth, height - barHeight + barWidth / 2, barWidth / 2);
-      ctx.lineTo(x + barWidth, height);
-      ctx.closePath();
-      
-      ctx.fillStyle = getThemeColor(position, value, theme);
-      ctx.fill();
-      
-      if (value > 0.1) {
-        ctx.beginPath();
-        ctx.arc(x + barWidth / 2, height - barHeight, barWidth / 2, 0, Math.PI * 2);
-        ctx.fillStyle = colorThemes[theme].highlight;
-        ctx.fill();
-      }
-    });
-    
-    ctx.shadowBlur = 0;
-  };
-
-  const drawCircularVisualizer = (
-    ctx: CanvasRenderingContext2D,
-    data: Uint8Array,
-    dimensions: { width: number; height: number },
-    sensitivity: number,
-    volume: number,
-    theme: ColorTheme
-  ) => {
-    const { width, height } = dimensions;
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const baseRadius = Math.min(width, height) * 0.35;
-    const numPoints = 180;
-    const values = generateCircular(data, numPoints, sensitivity);
-    
-    const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, baseRadius * 0.5);
-    gradient.addColorStop(0, colorThemes[theme].highlight);
-    gradient.addColorStop(0.5, colorThemes[theme].gradient[1]);
-    gradient.addColorStop(1, 'rgba(137, 207, 240, 0.1)');
-    
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, baseRadius * 0.2, 0, Math.PI * 2);
-    ctx.fillStyle = gradient;
-    ctx.shadowColor = colorThemes[theme].glow;
-    ctx.shadowBlur = 20;
-    ctx.fill();
-    
-    ctx.shadowBlur = 0;
-    
-    const time = Date.now() / 1000;
-    const pulseFactor = 0.1 + Math.sin(time) * 0.05;
-    const points: { x: number, y: number, value: number, angle: number }[] = [];
-    
-    for (let i = 0; i < numPoints; i++) {
-      const angle = (i / numPoints) * Math.PI * 2;
-      const position = i / numPoints;
-      
-      const waveEffect = 0.2 * Math.sin(angle * 3 + time * 2);
-      const distance = baseRadius + ((values[i] + waveEffect) * baseRadius * 0.8 * volume);
-      
-      const x = centerX + Math.cos(angle) * distance;
-      const y = centerY + Math.sin(angle) * distance;
-      
-      points.push({ x, y, value: values[i], angle });
-    }
-    
-    ctx.beginPath();
-    ctx.moveTo(points[0].x, points[0].y);
-    
-    for (let i = 0; i < points.length; i++) {
-      const current = points[i];
-      const next = points[(i + 1) % points.length];
-      
-      const cpX = (current.x + next.x) / 2;
-      const cpY = (current.y + next.y) / 2;
-      
-      ctx.quadraticCurveTo(current.x, current.y, cpX, cpY);
-    }
-    
-    ctx.closePath();
-    ctx.strokeStyle = colorThemes[theme].gradient[0];
-    ctx.lineWidth = 2;
-    ctx.stroke();
-    
-    ctx.strokeStyle = colorThemes[theme].gradient[1];
-    ctx.lineWidth = 4;
-    ctx.globalAlpha = 0.5;
-    ctx.stroke();
-    ctx.globalAlpha = 1;
-    
-    points.forEach(({ x, y, value, angle }) => {
-      const opacity = 0.1 + value * 0.9;
-      const lineWidth = 0.5 + value * 2;
-      
-      ctx.beginPath();
-      ctx.moveTo(centerX, centerY);
-      ctx.lineTo(x, y);
-      
-      const position = angle / (Math.PI * 2);
-      ctx.strokeStyle = getThemeColor(position, value, theme);
-      ctx.globalAlpha = opacity;
-      ctx.lineWidth = lineWidth;
-      ctx.stroke();
-    });
-    
-    ctx.globalAlpha = 1;
-  };
-
-  const drawWaveVisualizer = (
-    ctx: CanvasRenderingContext2D,
-    data: Uint8Array,
-    dimensions: { width: number; height: number },
-    sensitivity: number,
-    volume: number,
-    theme: ColorTheme
-  ) => {
-    const { width, height } = dimensions;
-    const centerY = height / 2;
-    
-    if (!data.length) return;
-    
-    const gradient = ctx.createLinearGradient(0, 0, width, 0);
-    gradient.addColorStop(0, colorThemes[theme].gradient[0]);
-    gradient.addColorStop(0.5, colorThemes[theme].gradient[1]);
-    gradient.addColorStop(1, colorThemes[theme].gradient[2]);
-    
-    ctx.lineWidth = 3;
-    ctx.strokeStyle = gradient;
-    ctx.shadowColor = colorThemes[theme].glow;
-    ctx.shadowBlur = 10;
-    
-    ctx.beginPath();
-    
-    const sliceWidth = width / data.length;
-    let x = 0;
-    
-    for (let i = 0; i < data.length; i++) {
-      const v = (data[i] / 128.0) - 1;
-      const y = centerY + v * centerY * sensitivity * volume;
-      
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
-      
-      x += sliceWidth;
-    }
-    
-    ctx.stroke();
-    
-    ctx.beginPath();
-    x = 0;
-    
-    for (let i = 0; i < data.length; i++) {
-      const v = (data[i] / 128.0) - 1;
-      const y = centerY - v * centerY * sensitivity * volume;
-      
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
-      
-      x += sliceWidth;
-    }
-    
-    ctx.strokeStyle = `${colorThemes[theme].gradient[0].replace('0.8', '0.4')}`;
-    ctx.stroke();
-    
-    ctx.shadowBlur = 0;
-  };
-
-  const drawBlobVisualizer = (
-    ctx: CanvasRenderingContext2D,
-    data: Uint8Array,
-    dimensions: { width: number; height: number },
-    sensitivity: number,
-    volume: number,
-    theme: ColorTheme
-  ) => {
-    const { width, height } = dimensions;
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const baseRadius = Math.min(width, height) * 0.25;
-    const numPoints = 64;
-    const values = generateWaveform(data, numPoints, sensitivity);
-    
-    angleRef.current += 0.01;
-    const time = Date.now() / 1000;
-
-    ctx.save();
-    
-    ctx.beginPath();
-    
-    for (let i = 0; i <= numPoints; i++) {
-      const index = i % numPoints;
-      const angle = (index / numPoints) * Math.PI * 2;
-      const position = index / numPoints;
-      
-      const blobFactor = values[index] * 0.8 * volume;
-      const dynamicRadius = baseRadius * (1 + 
-        blobFactor * Math.sin(angle * 3 + time * 1.5) +
-        blobFactor * 0.5 * Math.cos(angle * 5 + time * 2) +
-        blobFactor * 0.3 * Math.sin(angle * 7 + time * 2.5)
-      );
-      
-      const xShift = Math.cos(angleRef.current) * 0.1;
-      const yShift = Math.sin(angleRef.current) * 0.1;
-      const x = centerX + Math.cos(angle + xShift) * dynamicRadius;
-      const y = centerY + Math.sin(angle + yShift) * dynamicRadius * 0.9;
-      
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        const prevIndex = (index - 1 + numPoints) % numPoints;
-        const prevAngle = (prevIndex / numPoints) * Math.PI * 2;
-        const prevBlobFactor = values[prevIndex] * 0.8 * volume;
-        const prevDynamicRadius = baseRadius * (1 + 
-          prevBlobFactor * Math.sin(prevAngle * 3 + time * 1.5) +
-          prevBlobFactor * 0.5 * Math.cos(prevAngle * 5 + time * 2) +
-          prevBlobFactor * 0.3 * Math.sin(prevAngle * 7 + time * 2.5)
-        );
-        
-        const prevX = centerX + Math.cos(prevAngle + xShift) * prevDynamicRadius;
-        const prevY = centerY + Math.sin(prevAngle + yShift) * prevDynamicRadius * 0.9;
-        
-        const cpX = (prevX + x) / 2;
-        const cpY = (prevY + y) / 2;
-        
-        ctx.quadraticCurveTo(prevX, prevY, cpX, cpY);
-      }
-    }
-    
-    ctx.closePath();
-    
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-    ctx.shadowBlur = 20;
-    ctx.shadowOffsetX = baseRadius * 0.1;
-    ctx.shadowOffsetY = baseRadius * 0.1;
-    
-    const gradientShiftX = Math.cos(angleRef.current) * 0.2 * baseRadius;
-    const gradientShiftY = Math.sin(angleRef.current) * 0.2 * baseRadius;
-    const gradient = ctx.createRadialGradient(
-      centerX - gradientShiftX, centerY - gradientShiftY, baseRadius * 0.1,
-      centerX, centerY, baseRadius * 1.5
-    );
-    
-    if (colorThemes[theme].isRainbow) {
-      const hueOffset = time * 20 % 360;
-      gradient.addColorStop(0, `hsla(${hueOffset}, 100%, 75%, 0.9)`);
-      gradient.addColorStop(0.5, `hsla(${(hueOffset + 120) % 360}, 100%, 60%, 0.8)`);
-      gradient.addColorStop(1, `hsla(${(hueOffset + 240) % 360}, 100%, 50%, 0.7)`);
-    } else {
-      gradient.addColorStop(0, colorThemes[theme].highlight);
-      gradient.addColorStop(0.5, colorThemes[theme].gradient[1]);
-      gradient.addColorStop(1, colorThemes[theme].gradient[0]);
-    }
-    
-    ctx.fillStyle = gradient;
-    ctx.fill();
-    
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 0;
-    
-    ctx.beginPath();
-    const highlightAngle = angleRef.current + Math.PI * 0.25;
-    const highlightX = centerX - Math.cos(highlightAngle) * baseRadius * 0.5;
-    const highlightY = centerY - Math.sin(highlightAngle) * baseRadius * 0.5;
-    const highlightGradient = ctx.createRadialGradient(
-      highlightX, highlightY, 0,
-      highlightX, highlightY, baseRadius * 0.8
-    );
-    highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.6)');
-    highlightGradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.1)');
-    highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-    
-    ctx.arc(highlightX, highlightY, baseRadius * 0.8, 0, Math.PI * 2);
-    ctx.fillStyle = highlightGradient;
-    ctx.fill();
-    
-    ctx.restore();
-  };
-
-  const drawPlaceholderVisualizer = (
-    ctx: CanvasRenderingContext2D,
-    dimensions: { width: number; height: number },
-    theme: ColorTheme
-  ) => {
-    const { width, height } = dimensions;
-    const centerX = width / 2;
-    const centerY = height / 2;
-    
-    const time = Date.now() / 1000;
-    const pulseSize = 0.5 + Math.sin(time * 2) * 0.1;
-    
-    const gradient = ctx.createRadialGradient(
-      centerX, centerY, 0,
-      centerX, centerY, width * 0.25 * pulseSize
-    );
-    gradient.addColorStop(0, colorThemes[theme].highlight.replace('0.8', '0.2'));
-    gradient.addColorStop(0.7, colorThemes[theme].gradient[1].replace('0.9', '0.1'));
-    gradient.addColorStop(1, colorThemes[theme].gradient[0].replace('0.8', '0'));
-    
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, width * 0.25 * pulseSize, 0, Math.PI * 2);
-    ctx.fillStyle = gradient;
-    ctx.fill();
-    
-    ctx.font = '14px sans-serif';
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-    ctx.textAlign = 'center';
-    ctx.fillText('Upload an audio file to begin', centerX, centerY + 40);
+  const selectMode = (mode: VisualizationMode) => {
+    setVisualizerMode(mode);
+    onVisualizationTypeChange?.(mode);
   };
 
   return (
     <div className={cn("relative w-full h-full", className)}>
       <canvas 
+        key={`${effectivePreference}-${onMainThread ? 'main' : 'any'}`}
         ref={canvasRef} 
         className="w-full h-full"
       />
       
-      <div className="absolute top-4 right-4 flex gap-2 glass-panel rounded-lg p-1">
-        <button 
-          onClick={() => setVisualizerMode('bars')}
-          className={cn(
-            "px-3 py-1.5 text-xs rounded-md transition-all",
-            visualizerMode === 'bars' 
-              ? "bg-white/20 text-white" 
-              : "text-white/70 hover:text-white hover:bg-white/10"
-          )}
-        >
-          Bars
-        </button>
-        <button 
-          onClick={() => setVisualizerMode('circular')}
-          className={cn(
-            "px-3 py-1.5 text-xs rounded-md transition-all",
-            visualizerMode === 'circular' 
-              ? "bg-white/20 text-white" 
-              : "text-white/70 hover:text-white hover:bg-white/10"
-          )}
-        >
-          Circular
-        </button>
-        <button 
-          onClick={() => setVisualizerMode('wave')}
-          className={cn(
-            "px-3 py-1.5 text-xs rounded-md transition-all",
-            visualizerMode === 'wave' 
-              ? "bg-white/20 text-white" 
-              : "text-white/70 hover:text-white hover:bg-white/10"
-          )}
-        >
-          Wave
-        </button>
-        <button 
-          onClick={() => setVisualizerMode('blob')}
-          className={cn(
-            "px-3 py-1.5 text-xs rounded-md transition-all",
-            visualizerMode === 'blob' 
-              ? "bg-white/20 text-white" 
-              : "text-white/70 hover:text-white hover:bg-white/10"
-          )}
-        >
-          3D Blob
-        </button>
+      <div className="absolute top-4 right-4 glass-panel rounded-lg py-1 px-2 flex items-center gap-1">
+        {definition && onVisualizerSettingsChange && (
+          <VisualizerSettingsControls
+            definition={definition}
+            values={visualizerSettings?.[definition.id]}
+            onChange={values => onVisualizerSettingsChange(definition.id, values)}
+          />
+        )}
+        <Select value={definition?.id ?? visualizerMode} onValueChange={selectMode}>
+          <SelectTrigger className="w-[150px] h-8 text-xs bg-transparent border-white/10 text-white" aria-label="Visualization">
+            <SelectValue placeholder="Visualization" />
+          </SelectTrigger>
+          <SelectContent className="bg-black/80 border-white/10 text-white">
+            <SelectGroup>
+              {listVisualizers().map(option => (
+                <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
       </div>
       
-      <div className="absolute top-4 left-4 glass-panel rounded-lg py-1 px-2">
+      <div className="absolute top-4 left-4 glass-panel rounded-lg py-1 px-2 flex items-center gap-1">
         <Select
-          value={colorTheme}
-          onValueChange={(value: ColorTheme) => setColorTheme(value)}
+          value={themeId}
+          onValueChange={(value: string) => onThemeChange?.(value)}
         >
-          <SelectTrigger className="w-[120px] h-8 text-xs bg-transparent border-white/10 text-white">
+          <SelectTrigger className="w-[150px] h-8 text-xs bg-transparent border-white/10 text-white">
             <SelectValue placeholder="Theme" />
           </SelectTrigger>
           <SelectContent className="bg-black/80 border-white/10 text-white">
             <SelectGroup>
-              {Object.entries(colorThemes).map(([key, theme]) => (
-                <SelectItem key={key} value={key} className="text-xs hover:bg-white/10">
-                  {theme.name}
+              {themeOptions.map(option => (
+                <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-white/10">
+                  {option.name}
                 </SelectItem>
               ))}
             </SelectGroup>
           </SelectContent>
         </Select>
+        {onEditThemes && (
+          <button
+            onClick={onEditThemes}
+            className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+            aria-label="Edit themes"
+            title="Edit themes"
+          >
+            <Palette size={14} />
+          </button>
+        )}
+        {frequencyScale && onFrequencyScaleChange && (
+          <FrequencyScaleControls
+            scale={frequencyScale}
+            sampleRate={sampleRate}
+            showAxis={showFrequencyAxis}
+            onScaleChange={onFrequencyScaleChange}
+            onShowAxisChange={show => onShowFrequencyAxisChange?.(show)}
+          />
+        )}
+        {onRendererPreferenceChange && (
+          <RendererControls
+            preference={rendererPreference}
+            backend={backend}
+            thread={host?.thread ?? null}
+            onChange={onRendererPreferenceChange}
+          />
+        )}
       </div>
     </div>
   );
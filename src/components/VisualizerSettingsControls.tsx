@@ -0,0 +1,113 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import {
+  type VisualizerDefinition,
+  type VisualizerSettingValue,
+  type VisualizerSettingsValues,
+  resolveVisualizerSettings
+} from '@/utils/visualizerPlugins';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface VisualizerSettingsControlsProps {
+  definition: VisualizerDefinition;
+  // Stored values, possibly incomplete
+  values?: Partial<Record<string, VisualizerSettingValue>>;
+  onChange: (values: VisualizerSettingsValues) => void;
+}
+
+/**
+ * Settings panel generated from a visualizer's settings schema
+ */
+const VisualizerSettingsControls: React.FC<VisualizerSettingsControlsProps> = ({ definition, values, onChange }) => {
+  const settings = resolveVisualizerSettings(definition, values);
+  const entries = Object.entries(definition.settingsSchema);
+  if (!entries.length) return null;
+
+  const update = (key: string, value: VisualizerSettingValue) => {
+    const next = { ...settings, [key]: value };
+    onChange(definition.normalizeSettings ? definition.normalizeSettings(next, key) : next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label={`${definition.label} settings`}
+          title={`${definition.label} settings`}
+        >
+          <Settings2 size={14} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-black/90 border-white/10 text-white space-y-4">
+        <div className="text-sm font-medium">{definition.label}</div>
+
+        {entries.map(([key, setting]) => {
+          const id = `visualizer-setting-${definition.id}-${key}`;
+
+          if (setting.type === 'number') {
+            const value = settings[key] as number;
+            return (
+              <div key={key} className="space-y-1.5">
+                <div className="flex justify-between text-xs text-white/70">
+                  <span>{setting.label}</span>
+                  <span className="tabular-nums">{value}{setting.unit && ` ${setting.unit}`}</span>
+                </div>
+                <Slider
+                  value={[value]}
+                  min={setting.min}
+                  max={setting.max}
+                  step={setting.step ?? 1}
+                  onValueChange={([next]) => update(key, next)}
+                  aria-label={setting.label}
+                />
+              </div>
+            );
+          }
+
+          if (setting.type === 'boolean') {
+            return (
+              <div key={key} className="flex items-center justify-between">
+                <Label htmlFor={id} className="text-xs text-white/70">{setting.label}</Label>
+                <Switch id={id} checked={settings[key] as boolean} onCheckedChange={next => update(key, next)} />
+              </div>
+            );
+          }
+
+          return (
+            <div key={key} className="space-y-1.5">
+              <Label className="text-xs text-white/70">{setting.label}</Label>
+              <Select value={settings[key] as string} onValueChange={(next: string) => update(key, next)}>
+                <SelectTrigger className="h-8 text-xs bg-transparent border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/80 border-white/10 text-white">
+                  <SelectGroup>
+                    {setting.options.map(option => (
+                      <SelectItem key={option.value} value={option.value} className="text-xs hover:bg-white/10">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default VisualizerSettingsControls;
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { type WaveformPeaks, getWaveformColumns } from '@/utils/waveform';
+
+interface WaveformCanvasProps {
+  peaks: WaveformPeaks;
+  // Part of the track shown, in seconds
+  start: number;
+  end: number;
+  // Playhead in seconds; the shape before it is drawn as played
+  position: number;
+  className?: string;
+}
+
+const PLAYED_COLOR = 'rgba(255, 255, 255, 0.85)';
+const UNPLAYED_COLOR = 'rgba(255, 255, 255, 0.3)';
+
+/**
+ * Draws the overview of a track, one min/max column per pixel
+ */
+const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ peaks, start, end, position, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => setSize({ width: canvas.clientWidth, height: canvas.clientHeight }));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const { width, height } = size;
+    if (!canvas || !ctx || !width || !height || end <= start) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * pixelRatio) || canvas.height !== Math.round(height * pixelRatio)) {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    }
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const columns = Math.max(1, Math.floor(width));
+    const { min, max } = getWaveformColumns(peaks, start, end, columns);
+    const playedColumns = ((position - start) / (end - start)) * columns;
+    const middle = height / 2;
+
+    for (let column = 0; column < columns; column++) {
+      const top = middle - max[column] * middle;
+      // Silence still shows as a hairline
+      const bottom = Math.max(top + 1, middle - min[column] * middle);
+      ctx.fillStyle = column < playedColumns ? PLAYED_COLOR : UNPLAYED_COLOR;
+      ctx.fillRect(column, top, 1, bottom - top);
+    }
+  }, [peaks, start, end, position, size]);
+
+  return <canvas ref={canvasRef} className={cn("block w-full h-full", className)} />;
+};
+
+export default WaveformCanvas;
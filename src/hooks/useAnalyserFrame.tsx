@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { type AnalyserFrame, type FrameBus, type FrameListener, EMPTY_ANALYSER_FRAME } from '@/utils/frameBus';
+
+/**
+ * Follows the analyser frames of a frame bus without re-rendering. Render
+ * loops read the returned ref; work that should happen once per frame goes
+ * in the listener.
+ * @param bus Bus to follow
+ * @param onFrame Called with every published frame
+ * @returns Ref holding the latest frame
+ */
+export function useAnalyserFrame(
+  bus: FrameBus | null | undefined,
+  onFrame?: FrameListener
+): React.MutableRefObject<AnalyserFrame> {
+  const frameRef = useRef<AnalyserFrame>(bus?.getFrame() ?? EMPTY_ANALYSER_FRAME);
+  const listenerRef = useRef(onFrame);
+  listenerRef.current = onFrame;
+
+  useEffect(() => {
+    if (!bus) {
+      frameRef.current = EMPTY_ANALYSER_FRAME;
+      return;
+    }
+
+    frameRef.current = bus.getFrame();
+    return bus.subscribe(frame => {
+      frameRef.current = frame;
+      listenerRef.current?.(frame);
+    });
+  }, [bus]);
+
+  return frameRef;
+}
@@ -1,35 +1,469 @@
+import { createRef, useState, useEffect, useRef, useCallback } from 'react';
+import pitchShiftWorkletUrl from '@/worklets/pitchShift.worklet.ts?worker&url';
+import {
+  type AudioSourceKind,
+  type LiveSourceKind,
+  type MicrophoneOptions,
+  DEFAULT_MICROPHONE_OPTIONS,
+  createAudioContext,
+  openMicrophoneStream,
+  openDisplayAudioStream,
+  listAudioInputDevices,
+  stopMediaStream,
+  describeMediaError
+} from '@/utils/audioSources';
+import { type BeatDetector, createBeatDetector } from '@/utils/beatDetection';
+import { type Chromagram, createChromagram } from '@/utils/chroma';
+import { type StereoMeter, createStereoMeter } from '@/utils/stereoAnalysis';
+import { type FrameBus, createFrameBus } from '@/utils/frameBus';
+import { type AnalysisPoint, type Equalizer, createEqualizer } from '@/utils/equalizer';
+import { MAX_PITCH_SHIFT } from '@/utils/pitchShift';
+import { clampPlaybackRate } from '@/utils/playbackRate';
+import { type CrossfadeCurve, createCrossfadeCurves, createVisualBlend } from '@/utils/crossfade';
 
-import { useState, useEffect, useRef } from 'react';
+type DeckRefs = readonly [React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>];
 
 interface AudioAnalyzerHook {
+  // Always the deck that's currently playing
   audioRef: React.RefObject<HTMLAudioElement>;
+  // The two <audio> elements to render; tracks alternate between them
+  deckRefs: DeckRefs;
+  // The active deck as state, so effects can follow it across a crossfade
+  audioElement: HTMLAudioElement | null;
   audioContext: AudioContext | null;
   analyser: AnalyserNode | null;
-  frequencyData: Uint8Array;
-  timeData: Uint8Array;
+  // Analyser frames, published every animation frame outside React state
+  frameBus: FrameBus;
+  // Filter chain every source passes through; null until the graph exists
+  equalizer: Equalizer | null;
+  // Whether the analysers hear the source before or after the equalizer
+  analysisPoint: AnalysisPoint;
   isPlaying: boolean;
   currentTime: number;
   duration: number;
   volume: number;
+  playbackRate: number;
+  // Whether the browser keeps the pitch when the playback rate changes
+  preservesPitch: boolean;
+  // Pitch shift in semitones, applied to every source
+  pitchShift: number;
+  isPitchShiftSupported: boolean;
+  sourceKind: AudioSourceKind;
+  inputDevices: MediaDeviceInfo[];
+  inputError: string | null;
+  microphoneOptions: MicrophoneOptions;
   playAudio: () => void;
   pauseAudio: () => void;
   togglePlay: () => void;
   setVolume: (volume: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setPreservesPitch: (preserve: boolean) => void;
+  setPitchShift: (semitones: number) => void;
   seekTo: (time: number) => void;
+  // Loads a track into the active deck, ending any crossfade
+  loadTrack: (url: string | null) => void;
+  // Buffers a track in the idle deck ahead of a transition
+  preloadNext: (url: string) => void;
+  // Starts a track on the idle deck and fades over to it
+  crossfadeTo: (url: string, duration: number, curve: CrossfadeCurve) => Promise<boolean>;
+  startMicrophone: (options?: Partial<MicrophoneOptions>) => Promise<boolean>;
+  startDisplayCapture: () => Promise<boolean>;
+  stopLiveInput: () => void;
+  refreshInputDevices: () => Promise<void>;
+  setAnalysisPoint: (point: AnalysisPoint) => void;
+}
+
+// How long the spectrum eases down after a track change, in seconds
+const TRACK_CHANGE_BLEND = 1.5;
+
+// Puts the pitch shifter between the sources and the equalizer once its
+// module has loaded; until then the sources feed the equalizer directly
+function insertPitchShifter(context: AudioContext, input: AudioNode, output: AudioNode): Promise<AudioWorkletNode> {
+  return context.audioWorklet.addModule(pitchShiftWorkletUrl).then(() => {
+    const node = new AudioWorkletNode(context, 'pitch-shift', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      channelCount: 2,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers'
+    });
+    input.disconnect(output);
+    input.connect(node);
+    node.connect(output);
+    return node;
+  });
 }
 
 export function useAudioAnalyzer(fftSize: number = 256): AudioAnalyzerHook {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeDeckRef = useRef<0 | 1>(0);
+  const [deckRefs] = useState<DeckRefs>(() => [createRef<HTMLAudioElement>(), createRef<HTMLAudioElement>()]);
+  const [audioRef] = useState<React.RefObject<HTMLAudioElement>>(() => ({
+    get current() {
+      return deckRefs[activeDeckRef.current].current;
+    }
+  }));
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
-  const [frequencyData, setFrequencyData] = useState<Uint8Array>(new Uint8Array());
-  const [timeData, setTimeData] = useState<Uint8Array>(new Uint8Array());
+  const [frameBus] = useState(createFrameBus);
+  const [visualBlend] = useState(createVisualBlend);
+  const [equalizer, setEqualizer] = useState<Equalizer | null>(null);
+  const [analysisPoint, setAnalysisPointState] = useState<AnalysisPoint>('post');
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolumeState] = useState(0.7);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [preservesPitch, setPreservesPitchState] = useState(true);
+  const [pitchShift, setPitchShiftState] = useState(0);
+  const [isPitchShiftSupported, setIsPitchShiftSupported] = useState(true);
+  const [sourceKind, setSourceKind] = useState<AudioSourceKind>('file');
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [microphoneOptions, setMicrophoneOptions] = useState<MicrophoneOptions>(DEFAULT_MICROPHONE_OPTIONS);
+  const contextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const channelAnalysersRef = useRef<[AnalyserNode, AnalyserNode] | null>(null);
+  const equalizerRef = useRef<Equalizer | null>(null);
+  const analysisPointRef = useRef<AnalysisPoint>('post');
+  // Carries the equalized signal to the speakers; muted for live sources
+  const monitorRef = useRef<GainNode | null>(null);
+  // Where sources connect, ahead of the pitch shifter and equalizer
+  const sourceInputRef = useRef<GainNode | null>(null);
+  const pitchShiftNodeRef = useRef<AudioWorkletNode | null>(null);
+  const pitchShiftRef = useRef(0);
+  // One source and gain per deck, both feeding the source input
+  const deckSourcesRef = useRef<[MediaElementAudioSourceNode | null, MediaElementAudioSourceNode | null]>([null, null]);
+  const deckGainsRef = useRef<[GainNode, GainNode] | null>(null);
+  // What each deck was last given to play
+  const deckUrlsRef = useRef<[string | null, string | null]>([null, null]);
+  // The crossfade in progress, if any
+  const transitionRef = useRef<{ outgoing: 0 | 1; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const liveSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const liveStreamRef = useRef<MediaStream | null>(null);
+  const sourceKindRef = useRef<AudioSourceKind>('file');
   const animationFrameRef = useRef<number | null>(null);
+  const beatDetectorRef = useRef<BeatDetector | null>(null);
+  const chromagramRef = useRef<Chromagram | null>(null);
+  const stereoMeterRef = useRef<StereoMeter | null>(null);
+
+  // Create the audio context, pitch shifter, equalizer and analysers once,
+  // and start the data loop. Sources connect to the source input, which runs
+  // through the pitch shifter into the equalizer; the analyser taps either
+  // end of the equalizer. The two decks each come in through their own gain,
+  // which is what crossfades move.
+  const ensureAudioGraph = useCallback(() => {
+    if (contextRef.current && analyserRef.current && sourceInputRef.current) {
+      return { context: contextRef.current, analyser: analyserRef.current, sourceInput: sourceInputRef.current };
+    }
+
+    const context = createAudioContext();
+    const newAnalyser = context.createAnalyser();
+    newAnalyser.fftSize = fftSize;
+    newAnalyser.smoothingTimeConstant = 0.8;
+
+    // The analyser passes its input through unchanged, so the channel
+    // analysers hang off it and follow whichever source is connected. Mono
+    // sources are up-mixed to both sides rather than leaving the right silent.
+    const stereoInput = context.createGain();
+    stereoInput.channelCount = 2;
+    stereoInput.channelCountMode = 'explicit';
+    stereoInput.channelInterpretation = 'speakers';
+    const splitter = context.createChannelSplitter(2);
+    const [leftAnalyser, rightAnalyser] = [0, 1].map(channel => {
+      const channelAnalyser = context.createAnalyser();
+      channelAnalyser.fftSize = fftSize;
+      channelAnalyser.smoothingTimeConstant = newAnalyser.smoothingTimeConstant;
+      splitter.connect(channelAnalyser, channel);
+      return channelAnalyser;
+    });
+    newAnalyser.connect(stereoInput);
+    stereoInput.connect(splitter);
+
+    const newEqualizer = createEqualizer(context);
+    const monitor = context.createGain();
+    newEqualizer.output.connect(monitor);
+    monitor.connect(context.destination);
+    (analysisPointRef.current === 'pre' ? newEqualizer.input : newEqualizer.output).connect(newAnalyser);
+
+    const sourceInput = context.createGain();
+    sourceInput.connect(newEqualizer.input);
+    const deckGains = [0, 1].map(deck => {
+      const gain = context.createGain();
+      gain.gain.value = deck === activeDeckRef.current ? 1 : 0;
+      gain.connect(sourceInput);
+      return gain;
+    }) as [GainNode, GainNode];
+    if (context.audioWorklet) {
+      insertPitchShifter(context, sourceInput, newEqualizer.input)
+        .then(node => {
+          node.parameters.get('semitones')?.setValueAtTime(pitchShiftRef.current, context.currentTime);
+          pitchShiftNodeRef.current = node;
+        })
+        .catch(error => {
+          console.error('Could not load the pitch shifter:', error);
+          setIsPitchShiftSupported(false);
+        });
+    } else {
+      setIsPitchShiftSupported(false);
+    }
+
+    contextRef.current = context;
+    analyserRef.current = newAnalyser;
+    channelAnalysersRef.current = [leftAnalyser, rightAnalyser];
+    equalizerRef.current = newEqualizer;
+    monitorRef.current = monitor;
+    sourceInputRef.current = sourceInput;
+    deckGainsRef.current = deckGains;
+    setAudioContext(context);
+    setAnalyser(newAnalyser);
+    setEqualizer(newEqualizer);
+
+    let newFrequencyData = new Uint8Array(newAnalyser.frequencyBinCount);
+    let newTimeData = new Uint8Array(newAnalyser.frequencyBinCount);
+    let leftFrequency = new Uint8Array(leftAnalyser.frequencyBinCount);
+    let rightFrequency = new Uint8Array(rightAnalyser.frequencyBinCount);
+    let leftTime = new Float32Array(leftAnalyser.fftSize);
+    let rightTime = new Float32Array(rightAnalyser.fftSize);
+
+    // Set up animation loop to update data
+    const updateData = () => {
+      // fftSize can change while the loop is running
+      if (newFrequencyData.length !== newAnalyser.frequencyBinCount) {
+        newFrequencyData = new Uint8Array(newAnalyser.frequencyBinCount);
+        newTimeData = new Uint8Array(newAnalyser.frequencyBinCount);
+        beatDetectorRef.current = null;
+        chromagramRef.current = null;
+      }
+      if (leftTime.length !== leftAnalyser.fftSize) {
+        leftFrequency = new Uint8Array(leftAnalyser.frequencyBinCount);
+        rightFrequency = new Uint8Array(rightAnalyser.frequencyBinCount);
+        leftTime = new Float32Array(leftAnalyser.fftSize);
+        rightTime = new Float32Array(rightAnalyser.fftSize);
+      }
+
+      newAnalyser.getByteFrequencyData(newFrequencyData);
+      visualBlend.process(newFrequencyData, context.currentTime);
+      newAnalyser.getByteTimeDomainData(newTimeData);
+      leftAnalyser.getByteFrequencyData(leftFrequency);
+      rightAnalyser.getByteFrequencyData(rightFrequency);
+      leftAnalyser.getFloatTimeDomainData(leftTime);
+      rightAnalyser.getFloatTimeDomainData(rightTime);
+
+      if (!beatDetectorRef.current) {
+        beatDetectorRef.current = createBeatDetector(context.sampleRate, newAnalyser.fftSize);
+      }
+      if (!chromagramRef.current) {
+        chromagramRef.current = createChromagram(
+          context.sampleRate,
+          newAnalyser.fftSize,
+          newAnalyser.minDecibels,
+          newAnalyser.maxDecibels
+        );
+      }
+      if (!stereoMeterRef.current) {
+        stereoMeterRef.current = createStereoMeter();
+      }
+
+      // The buffers are handed over as they are; readers copy what they keep
+      frameBus.publish({
+        frequencyData: newFrequencyData,
+        timeData: newTimeData,
+        beat: beatDetectorRef.current.process(newFrequencyData, context.currentTime),
+        chroma: chromagramRef.current.process(newFrequencyData, context.currentTime),
+        stereo: {
+          leftFrequency,
+          rightFrequency,
+          leftTime,
+          rightTime,
+          levels: stereoMeterRef.current.process(leftTime, rightTime, context.currentTime)
+        },
+        ...(audioRef.current && sourceKindRef.current === 'file'
+          ? { playbackTime: audioRef.current.currentTime }
+          : {})
+      });
+
+      animationFrameRef.current = requestAnimationFrame(updateData);
+    };
+
+    updateData();
+
+    return { context, analyser: newAnalyser, sourceInput };
+  }, [audioRef, fftSize, frameBus, visualBlend]);
+
+  // Route a deck through its gain into the graph
+  const connectDeck = useCallback((deck: 0 | 1) => {
+    const element = deckRefs[deck].current;
+    if (!element) return;
+
+    const { context } = ensureAudioGraph();
+    const gains = deckGainsRef.current;
+    if (!gains) return;
+
+    // A media element can only ever be wrapped by a single source node
+    const source = deckSourcesRef.current[deck] ?? context.createMediaElementSource(element);
+    deckSourcesRef.current[deck] = source;
+    source.disconnect();
+    source.connect(gains[deck]);
+  }, [deckRefs, ensureAudioGraph]);
+
+  // Route the <audio> elements through the equalizer and out to the speakers
+  const connectElementSource = useCallback(() => {
+    if (!audioRef.current) return;
+
+    const { context } = ensureAudioGraph();
+    connectDeck(0);
+    connectDeck(1);
+    monitorRef.current?.gain.setValueAtTime(1, context.currentTime);
+    // A crossfade carries the analysis over from one track to the next
+    if (!transitionRef.current) {
+      beatDetectorRef.current?.reset();
+      chromagramRef.current?.reset();
+      stereoMeterRef.current?.reset();
+    }
+  }, [audioRef, ensureAudioGraph, connectDeck]);
+
+  // Give a deck a new track, or empty it
+  const setDeckSource = useCallback((deck: 0 | 1, url: string | null) => {
+    const element = deckRefs[deck].current;
+    if (!element) return;
+    deckUrlsRef.current[deck] = url;
+    if (url) {
+      element.src = url;
+    } else {
+      element.removeAttribute('src');
+      element.load();
+    }
+  }, [deckRefs]);
+
+  // Cut a crossfade short, leaving only the incoming deck playing
+  const finishTransition = useCallback(() => {
+    const transition = transitionRef.current;
+    if (!transition) return;
+    clearTimeout(transition.timer);
+    transitionRef.current = null;
+
+    deckRefs[transition.outgoing].current?.pause();
+    setDeckSource(transition.outgoing, null);
+
+    const context = contextRef.current;
+    const gains = deckGainsRef.current;
+    if (context && gains) {
+      gains.forEach((gain, deck) => {
+        gain.gain.cancelScheduledValues(context.currentTime);
+        gain.gain.setValueAtTime(deck === activeDeckRef.current ? 1 : 0, context.currentTime);
+      });
+    }
+  }, [deckRefs, setDeckSource]);
+
+  // Tear down any live input and go back to the file source
+  const stopLiveInput = useCallback(() => {
+    if (liveSourceRef.current) {
+      liveSourceRef.current.disconnect();
+      liveSourceRef.current = null;
+    }
+    stopMediaStream(liveStreamRef.current);
+    liveStreamRef.current = null;
+
+    if (sourceKindRef.current !== 'file') {
+      sourceKindRef.current = 'file';
+      setSourceKind('file');
+      setIsPlaying(false);
+      if (deckSourcesRef.current.some(Boolean)) {
+        connectElementSource();
+      }
+    }
+  }, [connectElementSource]);
+
+  const refreshInputDevices = useCallback(async () => {
+    try {
+      setInputDevices(await listAudioInputDevices());
+    } catch (error) {
+      console.error('Could not list audio inputs:', error);
+    }
+  }, []);
+
+  // Attach a live stream to the analyser. Live streams are never heard
+  // through the destination: a microphone would feed the room back into the
+  // speakers, and captured tab audio is already audible from the tab itself.
+  const attachLiveStream = useCallback(async (stream: MediaStream, kind: LiveSourceKind) => {
+    const { context, sourceInput } = ensureAudioGraph();
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    // Replace whatever was feeding the analyser before
+    finishTransition();
+    audioRef.current?.pause();
+    deckSourcesRef.current.forEach(source => source?.disconnect());
+    liveSourceRef.current?.disconnect();
+    stopMediaStream(liveStreamRef.current);
+
+    const liveSource = context.createMediaStreamSource(stream);
+    liveSource.connect(sourceInput);
+    monitorRef.current?.gain.setValueAtTime(0, context.currentTime);
+    liveSourceRef.current = liveSource;
+    beatDetectorRef.current?.reset();
+    chromagramRef.current?.reset();
+    stereoMeterRef.current?.reset();
+    liveStreamRef.current = stream;
+
+    // Unplugging the device, revoking permission or pressing the browser's
+    // "Stop sharing" button ends the tracks
+    const handleTrackEnded = () => {
+      if (liveStreamRef.current === stream) {
+        stopLiveInput();
+        setInputError(kind === 'display'
+          ? 'Tab sharing ended.'
+          : 'The audio input was disconnected.');
+      }
+    };
+    stream.getTracks().forEach(track => {
+      track.addEventListener('ended', handleTrackEnded);
+    });
+
+    sourceKindRef.current = kind;
+    setSourceKind(kind);
+    setIsPlaying(true);
+  }, [audioRef, ensureAudioGraph, finishTransition, stopLiveInput]);
+
+  const startMicrophone = useCallback(async (options: Partial<MicrophoneOptions> = {}) => {
+    const nextOptions = { ...microphoneOptions, ...options };
+    setMicrophoneOptions(nextOptions);
+    setInputError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophoneStream(nextOptions);
+    } catch (error) {
+      console.error('Microphone failed:', error);
+      setInputError(describeMediaError(error, 'microphone'));
+      return false;
+    }
+
+    await attachLiveStream(stream, 'microphone');
+
+    // Device labels become available once permission is granted
+    refreshInputDevices();
+    return true;
+  }, [microphoneOptions, attachLiveStream, refreshInputDevices]);
+
+  const startDisplayCapture = useCallback(async () => {
+    setInputError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await openDisplayAudioStream();
+    } catch (error) {
+      console.error('Display capture failed:', error);
+      setInputError(describeMediaError(error, 'display'));
+      return false;
+    }
+
+    await attachLiveStream(stream, 'display');
+    return true;
+  }, [attachLiveStream]);
 
   useEffect(() => {
     // Clean up on unmount
@@ -37,98 +471,86 @@ export function useAudioAnalyzer(fftSize: number = 256): AudioAnalyzerHook {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
-      if (audioContext) {
-        audioContext.close();
+      stopMediaStream(liveStreamRef.current);
+      if (contextRef.current) {
+        contextRef.current.close();
       }
     };
   }, []);
 
   useEffect(() => {
-    if (audioRef.current) {
-      const initAudioAnalyzer = () => {
-        // Create audio context and analyzer
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const newAnalyser = context.createAnalyser();
-        
-        // Configure analyzer
-        newAnalyser.fftSize = fftSize;
-        newAnalyser.smoothingTimeConstant = 0.8;
-        
-        // Connect audio element to the analyzer
-        if (audioRef.current) {
-          sourceRef.current = context.createMediaElementSource(audioRef.current);
-          sourceRef.current.connect(newAnalyser);
-          newAnalyser.connect(context.destination);
-        }
-        
-        // Initialize data arrays
-        const newFrequencyData = new Uint8Array(newAnalyser.frequencyBinCount);
-        const newTimeData = new Uint8Array(newAnalyser.frequencyBinCount);
-        
-        setAudioContext(context);
-        setAnalyser(newAnalyser);
-        setFrequencyData(newFrequencyData);
-        setTimeData(newTimeData);
-        
-        // Set up animation loop to update data
-        const updateData = () => {
-          if (newAnalyser) {
-            newAnalyser.getByteFrequencyData(newFrequencyData);
-            newAnalyser.getByteTimeDomainData(newTimeData);
-            
-            setFrequencyData(new Uint8Array(newFrequencyData));
-            setTimeData(new Uint8Array(newTimeData));
-            
-            if (audioRef.current) {
-              setCurrentTime(audioRef.current.currentTime);
-            }
-          }
-          animationFrameRef.current = requestAnimationFrame(updateData);
-        };
-        
-        updateData();
-      };
-
-      // Set up event listeners for the audio element
-      audioRef.current.addEventListener('play', () => setIsPlaying(true));
-      audioRef.current.addEventListener('pause', () => setIsPlaying(false));
-      audioRef.current.addEventListener('timeupdate', () => {
-        if (audioRef.current) {
-          setCurrentTime(audioRef.current.currentTime);
-        }
-      });
-      audioRef.current.addEventListener('durationchange', () => {
-        if (audioRef.current) {
-          setDuration(audioRef.current.duration);
-        }
-      });
-      audioRef.current.addEventListener('ended', () => {
-        setIsPlaying(false);
-      });
-      
-      // Set initial volume
-      audioRef.current.volume = volume;
-      
-      // Initialize analyzer when audio is loaded
-      audioRef.current.addEventListener('loadedmetadata', initAudioAnalyzer);
-      
-      return () => {
-        if (audioRef.current) {
-          audioRef.current.removeEventListener('loadedmetadata', initAudioAnalyzer);
-        }
-      };
+    if (analyserRef.current) {
+      analyserRef.current.fftSize = fftSize;
     }
+    channelAnalysersRef.current?.forEach(channelAnalyser => {
+      channelAnalyser.fftSize = fftSize;
+    });
   }, [fftSize]);
 
+  // The decks are rendered by the caller, so pick up the active one once mounted
+  useEffect(() => {
+    setAudioElement(audioRef.current);
+  }, [audioRef]);
+
+  useEffect(() => {
+    const audio = audioElement;
+    if (!audio) return;
+
+    // After a crossfade the position and length come from the other deck
+    setCurrentTime(audio.currentTime);
+    setDuration(Number.isFinite(audio.duration) ? audio.duration : 0);
+
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => {
+      if (sourceKindRef.current === 'file') setIsPlaying(false);
+    };
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handleDurationChange = () => setDuration(audio.duration);
+    const handleEnded = () => setIsPlaying(false);
+
+    // Initialize analyzer when audio is loaded
+    const handleLoadedMetadata = () => connectElementSource();
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('durationchange', handleDurationChange);
+    audio.addEventListener('ended', handleEnded);
+    // Swapping the src resets the element without firing 'pause'
+    audio.addEventListener('emptied', handlePause);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+
+    return () => {
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('durationchange', handleDurationChange);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('emptied', handlePause);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+    };
+  }, [audioElement, connectElementSource]);
+
+  useEffect(() => {
+    // Set initial volume
+    deckRefs.forEach(deck => {
+      if (deck.current) deck.current.volume = volume;
+    });
+  }, [deckRefs, volume]);
+
   // Play control
   const playAudio = () => {
     if (audioRef.current) {
+      if (sourceKindRef.current !== 'file') {
+        stopLiveInput();
+      }
+
       // Initialize audio context on first play (to handle autoplay policies)
-      if (!audioContext) {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)();
-        setAudioContext(context);
+      connectElementSource();
+      if (contextRef.current?.state === 'suspended') {
+        contextRef.current.resume();
       }
-      
+
       audioRef.current.play()
         .then(() => setIsPlaying(true))
         .catch(error => console.error("Play failed:", error));
@@ -138,6 +560,7 @@ export function useAudioAnalyzer(fftSize: number = 256): AudioAnalyzerHook {
   // Pause control
   const pauseAudio = () => {
     if (audioRef.current) {
+      finishTransition();
       audioRef.current.pause();
       setIsPlaying(false);
     }
@@ -155,32 +578,171 @@ export function useAudioAnalyzer(fftSize: number = 256): AudioAnalyzerHook {
   // Volume control
   const setVolume = (newVolume: number) => {
     if (audioRef.current) {
-      audioRef.current.volume = newVolume;
+      deckRefs.forEach(deck => {
+        if (deck.current) deck.current.volume = newVolume;
+      });
       setVolumeState(newVolume);
     }
   };
 
+  // Speed of file playback. The default rate is set too, so it carries over
+  // to the next track.
+  const setPlaybackRate = useCallback((rate: number) => {
+    const clamped = clampPlaybackRate(rate);
+    deckRefs.forEach(deck => {
+      if (!deck.current) return;
+      deck.current.defaultPlaybackRate = clamped;
+      deck.current.playbackRate = clamped;
+    });
+    setPlaybackRateState(clamped);
+  }, [deckRefs]);
+
+  const setPreservesPitch = useCallback((preserve: boolean) => {
+    deckRefs.forEach(deck => {
+      if (deck.current) deck.current.preservesPitch = preserve;
+    });
+    setPreservesPitchState(preserve);
+  }, [deckRefs]);
+
+  const setPitchShift = useCallback((semitones: number) => {
+    const clamped = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, semitones));
+    const node = pitchShiftNodeRef.current;
+    if (node && contextRef.current) {
+      node.parameters.get('semitones')?.setValueAtTime(clamped, contextRef.current.currentTime);
+    }
+    pitchShiftRef.current = clamped;
+    setPitchShiftState(clamped);
+  }, []);
+
+  // Move the analyser tap to the other end of the equalizer
+  const setAnalysisPoint = useCallback((point: AnalysisPoint) => {
+    const graphEqualizer = equalizerRef.current;
+    const graphAnalyser = analyserRef.current;
+    if (graphEqualizer && graphAnalyser && point !== analysisPointRef.current) {
+      (point === 'pre' ? graphEqualizer.output : graphEqualizer.input).disconnect(graphAnalyser);
+      (point === 'pre' ? graphEqualizer.input : graphEqualizer.output).connect(graphAnalyser);
+    }
+    analysisPointRef.current = point;
+    setAnalysisPointState(point);
+  }, []);
+
   // Seek control
   const seekTo = (time: number) => {
     if (audioRef.current) {
+      finishTransition();
       audioRef.current.currentTime = time;
     }
   };
 
+  const loadTrack = useCallback((url: string | null) => {
+    // Once a crossfade has started the track is already on the active deck
+    if (deckUrlsRef.current[activeDeckRef.current] === url) return;
+    finishTransition();
+    setDeckSource(activeDeckRef.current, url);
+    // Ease the visualizer over the gap while the new track loads
+    if (contextRef.current) {
+      visualBlend.hold(contextRef.current.currentTime + TRACK_CHANGE_BLEND);
+    }
+  }, [finishTransition, setDeckSource, visualBlend]);
+
+  const preloadNext = useCallback((url: string) => {
+    if (transitionRef.current) return;
+    const idle = activeDeckRef.current === 0 ? 1 : 0;
+    const element = deckRefs[idle].current;
+    if (!element || deckUrlsRef.current[idle] === url) return;
+    element.preload = 'auto';
+    setDeckSource(idle, url);
+  }, [deckRefs, setDeckSource]);
+
+  // Start the idle deck and fade the decks over. The idle deck becomes the
+  // active one as soon as it starts, so the player, markers and track-end
+  // handling follow the incoming track while the outgoing one fades out.
+  const crossfadeTo = useCallback(async (url: string, fadeDuration: number, curve: CrossfadeCurve) => {
+    const context = contextRef.current;
+    const gains = deckGainsRef.current;
+    if (!context || !gains || sourceKindRef.current !== 'file' || transitionRef.current) return false;
+
+    const outgoing = activeDeckRef.current;
+    const incoming = outgoing === 0 ? 1 : 0;
+    const incomingElement = deckRefs[incoming].current;
+    if (!incomingElement) return false;
+
+    if (deckUrlsRef.current[incoming] !== url) {
+      setDeckSource(incoming, url);
+    }
+    incomingElement.currentTime = 0;
+    connectDeck(incoming);
+    gains[incoming].gain.cancelScheduledValues(context.currentTime);
+    gains[incoming].gain.setValueAtTime(0, context.currentTime);
+
+    activeDeckRef.current = incoming;
+    setAudioElement(incomingElement);
+    const transition = { outgoing, timer: setTimeout(finishTransition, (fadeDuration + 1) * 1000) };
+    transitionRef.current = transition;
+
+    try {
+      await incomingElement.play();
+    } catch (error) {
+      // Pausing or seeking while the track starts ends the transition early,
+      // but the incoming track has still taken over
+      if (transitionRef.current !== transition) return true;
+      console.error('Could not start the next track:', error);
+      clearTimeout(transition.timer);
+      transitionRef.current = null;
+      activeDeckRef.current = outgoing;
+      setAudioElement(deckRefs[outgoing].current);
+      return false;
+    }
+    if (transitionRef.current !== transition) return true;
+
+    const start = context.currentTime;
+    const curves = createCrossfadeCurves(curve);
+    gains[outgoing].gain.cancelScheduledValues(start);
+    gains[outgoing].gain.setValueCurveAtTime(curves.outgoing, start, fadeDuration);
+    gains[incoming].gain.cancelScheduledValues(start);
+    gains[incoming].gain.setValueCurveAtTime(curves.incoming, start, fadeDuration);
+    clearTimeout(transition.timer);
+    transition.timer = setTimeout(finishTransition, fadeDuration * 1000);
+    visualBlend.hold(start + fadeDuration + TRACK_CHANGE_BLEND);
+    return true;
+  }, [deckRefs, connectDeck, setDeckSource, finishTransition, visualBlend]);
+
   return {
     audioRef,
+    deckRefs,
+    audioElement,
     audioContext,
     analyser,
-    frequencyData,
-    timeData,
+    frameBus,
+    equalizer,
+    analysisPoint,
     isPlaying,
     currentTime,
     duration,
     volume,
+    playbackRate,
+    preservesPitch,
+    pitchShift,
+    isPitchShiftSupported,
+    sourceKind,
+    inputDevices,
+    inputError,
+    microphoneOptions,
     playAudio,
     pauseAudio,
     togglePlay,
     setVolume,
-    seekTo
+    setPlaybackRate,
+    setPreservesPitch,
+    setPitchShift,
+    seekTo,
+    loadTrack,
+    preloadNext,
+    crossfadeTo,
+    startMicrophone,
+    startDisplayCapture,
+    stopLiveInput,
+    refreshInputDevices,
+    setAnalysisPoint
   };
 }
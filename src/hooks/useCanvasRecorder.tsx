@@ -0,0 +1,193 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { type ThemeBackground } from '@/utils/visualizerHelpers';
+import {
+  type RecordingResolution,
+  RECORDING_FRAME_RATE,
+  drawRecordingFrame,
+  getRecordingMimeType,
+  isRecordingSupported
+} from '@/utils/videoRecording';
+import { downloadBlob, getExportFilename } from '@/utils/download';
+
+export interface RecordingOptions {
+  resolution: RecordingResolution;
+  videoBitsPerSecond: number;
+}
+
+interface CanvasRecorderOptions {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  audioContext: AudioContext | null;
+  analyser: AnalyserNode | null;
+  background: ThemeBackground;
+}
+
+interface CanvasRecorderHook {
+  isSupported: boolean;
+  isRecording: boolean;
+  elapsed: number;
+  recordedBytes: number;
+  error: string | null;
+  startRecording: (options: RecordingOptions) => boolean;
+  stopRecording: () => void;
+}
+
+/**
+ * Records the visualizer canvas, with the audio that's feeding the analyser,
+ * to a WebM file
+ */
+export function useCanvasRecorder({
+  canvasRef,
+  audioContext,
+  analyser,
+  background
+}: CanvasRecorderOptions): CanvasRecorderHook {
+  const isSupported = isRecordingSupported();
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [recordedBytes, setRecordedBytes] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const frameRef = useRef<number>();
+  const timerRef = useRef<number>();
+  const cleanupRef = useRef<(() => void) | null>(null);
+  // Read by the frame loop so theme changes show up mid-recording
+  const backgroundRef = useRef(background);
+  backgroundRef.current = background;
+
+  const startRecording = useCallback((options: RecordingOptions) => {
+    if (recorderRef.current) return false;
+
+    const source = canvasRef.current;
+    const mimeType = getRecordingMimeType();
+    if (!isSupported || !mimeType) {
+      setError('Video recording is not supported in this browser.');
+      return false;
+    }
+    if (!source) {
+      setError('The visualizer is not ready yet.');
+      return false;
+    }
+
+    // Draw into a canvas of the chosen size so the output resolution doesn't
+    // depend on the window size
+    const recordCanvas = document.createElement('canvas');
+    recordCanvas.width = options.resolution.width;
+    recordCanvas.height = options.resolution.height;
+    const ctx = recordCanvas.getContext('2d');
+    if (!ctx) {
+      setError('Could not create the recording canvas.');
+      return false;
+    }
+
+    const stream = recordCanvas.captureStream(RECORDING_FRAME_RATE);
+
+    // The analyser carries whatever is playing, so tapping it records the
+    // file or the live input without sending live input to the speakers
+    let audioDestination: MediaStreamAudioDestinationNode | null = null;
+    if (audioContext && analyser) {
+      audioDestination = audioContext.createMediaStreamDestination();
+      analyser.connect(audioDestination);
+      audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    }
+
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: options.videoBitsPerSecond,
+        audioBitsPerSecond: 192_000
+      });
+    } catch (err) {
+      console.error('Could not start recording:', err);
+      stream.getTracks().forEach(track => track.stop());
+      if (audioDestination) analyser?.disconnect(audioDestination);
+      setError('Could not start recording with these settings.');
+      return false;
+    }
+
+    const chunks: Blob[] = [];
+    let bytes = 0;
+    const startedAt = performance.now();
+
+    const renderFrame = () => {
+      // The visualizer swaps its canvas when the renderer backend changes, and
+      // for one rendered on the main thread once recording starts
+      drawRecordingFrame(ctx, canvasRef.current ?? source, backgroundRef.current);
+      frameRef.current = requestAnimationFrame(renderFrame);
+    };
+    // Start on the next frame, once the canvas rendered on the main thread
+    // has replaced the one handed to the worker
+    frameRef.current = requestAnimationFrame(renderFrame);
+
+    const cleanup = () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+      window.clearInterval(timerRef.current);
+      stream.getTracks().forEach(track => track.stop());
+      if (audioDestination) analyser?.disconnect(audioDestination);
+      recorderRef.current = null;
+      cleanupRef.current = null;
+    };
+    cleanupRef.current = cleanup;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+        bytes += event.data.size;
+        setRecordedBytes(bytes);
+      }
+    };
+    recorder.onstop = () => {
+      cleanup();
+      setIsRecording(false);
+      if (chunks.length) {
+        downloadBlob(new Blob(chunks, { type: mimeType.split(';')[0] }), getExportFilename('webm'));
+      }
+    };
+    recorder.onerror = () => {
+      setError('Recording failed.');
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    timerRef.current = window.setInterval(() => {
+      setElapsed((performance.now() - startedAt) / 1000);
+    }, 250);
+
+    setError(null);
+    setElapsed(0);
+    setRecordedBytes(0);
+    setIsRecording(true);
+    return true;
+  }, [isSupported, canvasRef, audioContext, analyser]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  // Discard an in-progress recording on unmount
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current) {
+        recorderRef.current.ondataavailable = null;
+        recorderRef.current.onstop = null;
+        if (recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+      }
+      cleanupRef.current?.();
+    };
+  }, []);
+
+  return {
+    isSupported,
+    isRecording,
+    elapsed,
+    recordedBytes,
+    error,
+    startRecording,
+    stopRecording
+  };
+}
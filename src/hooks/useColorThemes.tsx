@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  type ThemeBackground,
+  type ThemePalette,
+  colorThemes,
+  defaultBackground,
+  isColorTheme,
+  resolveThemePalette
+} from '@/utils/visualizerHelpers';
+import { type CustomTheme, loadCustomThemes, saveCustomThemes } from '@/utils/customThemes';
+
+interface ThemeOption {
+  id: string;
+  name: string;
+}
+
+interface ColorThemesHook {
+  themeId: string;
+  palette: ThemePalette;
+  background: ThemeBackground;
+  themeOptions: ThemeOption[];
+  customThemes: CustomTheme[];
+  selectedCustomTheme: CustomTheme | null;
+  setThemeId: (id: string) => void;
+  setPreview: (theme: ThemePalette | null) => void;
+  saveTheme: (theme: CustomTheme) => void;
+  deleteTheme: (id: string) => void;
+}
+
+/**
+ * Built-in and user-defined visualizer themes, with a live preview slot for
+ * the theme editor
+ * @param artworkPalette Palette extracted from the current cover art, if any
+ */
+export function useColorThemes(artworkPalette?: ThemePalette | null): ColorThemesHook {
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>(loadCustomThemes);
+  const [themeId, setThemeId] = useState<string>('blue');
+  const [preview, setPreview] = useState<ThemePalette | null>(null);
+
+  useEffect(() => {
+    saveCustomThemes(customThemes);
+  }, [customThemes]);
+
+  const selectedCustomTheme = useMemo(
+    () => customThemes.find(theme => theme.id === themeId) || null,
+    [customThemes, themeId]
+  );
+
+  const palette = useMemo(() => {
+    if (preview) return preview;
+    if (selectedCustomTheme) return selectedCustomTheme;
+    return resolveThemePalette(isColorTheme(themeId) ? themeId : 'blue', artworkPalette);
+  }, [preview, selectedCustomTheme, themeId, artworkPalette]);
+
+  const themeOptions = useMemo(() => [
+    ...Object.entries(colorThemes).map(([id, theme]) => ({ id, name: theme.name })),
+    ...customThemes.map(theme => ({ id: theme.id, name: theme.name }))
+  ], [customThemes]);
+
+  // Saving adds or replaces the theme and switches to it
+  const saveTheme = useCallback((theme: CustomTheme) => {
+    setCustomThemes(prev => {
+      const index = prev.findIndex(item => item.id === theme.id);
+      if (index === -1) return [...prev, theme];
+      return prev.map(item => (item.id === theme.id ? theme : item));
+    });
+    setThemeId(theme.id);
+  }, []);
+
+  const deleteTheme = useCallback((id: string) => {
+    setCustomThemes(prev => prev.filter(theme => theme.id !== id));
+    setThemeId(current => (current === id ? 'blue' : current));
+  }, []);
+
+  return {
+    themeId,
+    palette,
+    background: palette.background || defaultBackground,
+    themeOptions,
+    customThemes,
+    selectedCustomTheme,
+    setThemeId,
+    setPreview,
+    saveTheme,
+    deleteTheme
+  };
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  type EqBand,
+  type EqPreset,
+  type Equalizer,
+  BUILT_IN_EQ_PRESETS,
+  DEFAULT_EQ_BANDS,
+  clampBand,
+  createEqPreset,
+  loadEqPresets,
+  saveEqPresets
+} from '@/utils/equalizer';
+
+interface EqualizerHook {
+  bands: EqBand[];
+  bypass: boolean;
+  // Built-in presets followed by the saved ones
+  presets: EqPreset[];
+  customPresets: EqPreset[];
+  // Preset the bands were last set from, while they still match it
+  presetId: string | null;
+  updateBand: (id: string, changes: Partial<Omit<EqBand, 'id'>>) => void;
+  setBypass: (bypass: boolean) => void;
+  applyPreset: (id: string) => void;
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+}
+
+const bandsMatch = (a: EqBand[], b: EqBand[]) =>
+  a.length === b.length && a.every((band, i) => {
+    const other = b[i];
+    return band.type === other.type && band.frequency === other.frequency &&
+      band.gain === other.gain && band.q === other.q && band.enabled === other.enabled;
+  });
+
+/**
+ * Band settings and presets of the equalizer, applied to the filter chain
+ * @param equalizer Filter chain of the audio graph, once it exists
+ */
+export function useEqualizer(equalizer: Equalizer | null): EqualizerHook {
+  const [bands, setBands] = useState<EqBand[]>(DEFAULT_EQ_BANDS);
+  const [bypass, setBypass] = useState(false);
+  const [customPresets, setCustomPresets] = useState<EqPreset[]>(loadEqPresets);
+  const [presetId, setPresetId] = useState<string | null>('flat');
+
+  useEffect(() => {
+    saveEqPresets(customPresets);
+  }, [customPresets]);
+
+  useEffect(() => {
+    equalizer?.setBands(bands);
+  }, [equalizer, bands]);
+
+  useEffect(() => {
+    equalizer?.setBypass(bypass);
+  }, [equalizer, bypass]);
+
+  const presets = useMemo(() => [...BUILT_IN_EQ_PRESETS, ...customPresets], [customPresets]);
+
+  // Forget the preset once the bands are edited away from it
+  useEffect(() => {
+    setPresetId(current => {
+      const preset = presets.find(item => item.id === current);
+      return preset && bandsMatch(preset.bands, bands) ? current : null;
+    });
+  }, [presets, bands]);
+
+  const updateBand = useCallback((id: string, changes: Partial<Omit<EqBand, 'id'>>) => {
+    setBands(prev => prev.map(band => (band.id === id ? clampBand({ ...band, ...changes }) : band)));
+  }, []);
+
+  const applyPreset = useCallback((id: string) => {
+    const preset = presets.find(item => item.id === id);
+    if (!preset) return;
+    setBands(preset.bands.map(band => ({ ...band })));
+    setPresetId(id);
+  }, [presets]);
+
+  const savePreset = useCallback((name: string) => {
+    const preset = createEqPreset(name, bands);
+    setCustomPresets(prev => [...prev, preset]);
+    setPresetId(preset.id);
+  }, [bands]);
+
+  const deletePreset = useCallback((id: string) => {
+    setCustomPresets(prev => prev.filter(preset => preset.id !== id));
+    setPresetId(current => (current === id ? null : current));
+  }, []);
+
+  return {
+    bands,
+    bypass,
+    presets,
+    customPresets,
+    presetId,
+    updateBand,
+    setBypass,
+    applyPreset,
+    savePreset,
+    deletePreset
+  };
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  type LibraryTrack,
+  type StorageUsage,
+  isLibrarySupported,
+  getLibraryTrackId,
+  getLibraryTracks,
+  getLibraryFile,
+  putLibraryTrack,
+  updateLibraryTrack,
+  deleteLibraryTracks,
+  clearLibrary,
+  getStorageUsage,
+  requestPersistentStorage
+} from '@/utils/libraryDb';
+import { readAudioDuration } from '@/utils/audioFiles';
+import { type AudioMetadata } from '@/utils/audioMetadata';
+
+export type LibrarySort = 'recent' | 'lastPlayed' | 'title' | 'artist' | 'size';
+
+interface LibraryHook {
+  isSupported: boolean;
+  isLoading: boolean;
+  tracks: LibraryTrack[];
+  totalCount: number;
+  totalSize: number;
+  storage: StorageUsage | null;
+  search: string;
+  sort: LibrarySort;
+  setSearch: (search: string) => void;
+  setSort: (sort: LibrarySort) => void;
+  importFile: (file: File, metadata?: AudioMetadata) => Promise<LibraryTrack | null>;
+  openTrack: (id: string) => Promise<File | null>;
+  markPlayed: (file: File) => void;
+  // These resolve to false, or null, when the library couldn't be changed
+  removeTracks: (ids: string[]) => Promise<boolean>;
+  evictToSize: (maxBytes: number) => Promise<number | null>;
+  clear: () => Promise<boolean>;
+  requestPersistence: () => Promise<boolean>;
+}
+
+/**
+ * Orders tracks for the given sort mode
+ */
+function compareTracks(a: LibraryTrack, b: LibraryTrack, sort: LibrarySort): number {
+  switch (sort) {
+    case 'title':
+      return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'artist':
+      return (a.artist || '').localeCompare(b.artist || '', undefined, { sensitivity: 'base' }) ||
+        (a.album || '').localeCompare(b.album || '', undefined, { sensitivity: 'base' }) ||
+        (a.trackNumber || 0) - (b.trackNumber || 0) ||
+        a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'size':
+      return b.size - a.size;
+    case 'lastPlayed':
+      return (b.lastPlayedAt || 0) - (a.lastPlayedAt || 0);
+    case 'recent':
+    default:
+      return b.addedAt - a.addedAt;
+  }
+}
+
+/**
+ * Persistent local music library backed by IndexedDB
+ */
+export function useLibrary(): LibraryHook {
+  const isSupported = isLibrarySupported();
+  const [allTracks, setAllTracks] = useState<LibraryTrack[]>([]);
+  const [isLoading, setIsLoading] = useState(isSupported);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('recent');
+
+  const refreshStorage = useCallback(async () => {
+    try {
+      setStorage(await getStorageUsage());
+    } catch (error) {
+      console.error('Could not read storage usage:', error);
+    }
+  }, []);
+
+  // Load the library on mount
+  useEffect(() => {
+    if (!isSupported) return;
+
+    let cancelled = false;
+    getLibraryTracks()
+      .then(tracks => {
+        if (!cancelled) setAllTracks(tracks);
+      })
+      .catch(error => console.error('Could not load library:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    refreshStorage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSupported, refreshStorage]);
+
+  const tracks = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = query
+      ? allTracks.filter(track =>
+          [track.title, track.artist, track.album, track.name]
+            .some(field => field?.toLowerCase().includes(query)))
+      : allTracks;
+
+    return filtered.slice().sort((a, b) => compareTracks(a, b, sort));
+  }, [allTracks, search, sort]);
+
+  const totalSize = useMemo(
+    () => allTracks.reduce((sum, track) => sum + track.size, 0),
+    [allTracks]
+  );
+
+  const importFile = useCallback(async (file: File, metadata?: AudioMetadata) => {
+    if (!isSupported) return null;
+
+    const id = getLibraryTrackId(file);
+    const existing = allTracks.find(track => track.id === id);
+    if (existing) return existing;
+
+    const track: LibraryTrack = {
+      id,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      title: metadata?.title || file.name.substring(0, file.name.lastIndexOf('.')) || file.name,
+      artist: metadata?.artist,
+      album: metadata?.album,
+      year: metadata?.year,
+      trackNumber: metadata?.trackNumber,
+      duration: metadata?.duration ?? await readAudioDuration(file),
+      addedAt: Date.now()
+    };
+
+    try {
+      await putLibraryTrack(track, file);
+    } catch (error) {
+      // Most likely the storage quota was exceeded
+      console.error('Could not save track to library:', error);
+      return null;
+    }
+
+    setAllTracks(prev => [...prev.filter(item => item.id !== id), track]);
+    refreshStorage();
+    return track;
+  }, [isSupported, allTracks, refreshStorage]);
+
+  const markPlayed = useCallback((file: File) => {
+    if (!isSupported) return;
+
+    const id = getLibraryTrackId(file);
+    updateLibraryTrack(id, { lastPlayedAt: Date.now() })
+      .then(updated => {
+        if (updated) {
+          setAllTracks(prev => prev.map(track => (track.id === id ? updated : track)));
+        }
+      })
+      .catch(error => console.error('Could not update library track:', error));
+  }, [isSupported]);
+
+  const openTrack = useCallback(async (id: string) => {
+    const track = allTracks.find(item => item.id === id);
+    if (!track) return null;
+
+    try {
+      return await getLibraryFile(track);
+    } catch (error) {
+      console.error('Could not read track from library:', error);
+      return null;
+    }
+  }, [allTracks]);
+
+  const removeTracks = useCallback(async (ids: string[]) => {
+    try {
+      await deleteLibraryTracks(ids);
+    } catch (error) {
+      console.error('Could not remove tracks from library:', error);
+      return false;
+    }
+    setAllTracks(prev => prev.filter(track => !ids.includes(track.id)));
+    refreshStorage();
+    return true;
+  }, [refreshStorage]);
+
+  // Drop the least recently used tracks until the library fits in maxBytes
+  const evictToSize = useCallback(async (maxBytes: number) => {
+    const byLastUse = allTracks
+      .slice()
+      .sort((a, b) => (a.lastPlayedAt || a.addedAt) - (b.lastPlayedAt || b.addedAt));
+
+    let size = totalSize;
+    const evicted: string[] = [];
+    for (const track of byLastUse) {
+      if (size <= maxBytes) break;
+      evicted.push(track.id);
+      size -= track.size;
+    }
+
+    return (await removeTracks(evicted)) ? evicted.length : null;
+  }, [allTracks, totalSize, removeTracks]);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearLibrary();
+    } catch (error) {
+      console.error('Could not clear library:', error);
+      return false;
+    }
+    setAllTracks([]);
+    refreshStorage();
+    return true;
+  }, [refreshStorage]);
+
+  const requestPersistence = useCallback(async () => {
+    const persisted = await requestPersistentStorage();
+    refreshStorage();
+    return persisted;
+  }, [refreshStorage]);
+
+  return {
+    isSupported,
+    isLoading,
+    tracks,
+    totalCount: allTracks.length,
+    totalSize,
+    storage,
+    search,
+    sort,
+    setSearch,
+    setSort,
+    importFile,
+    openTrack,
+    markPlayed,
+    removeTracks,
+    evictToSize,
+    clear,
+    requestPersistence
+  };
+}
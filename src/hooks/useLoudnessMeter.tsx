@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import loudnessWorkletUrl from '@/worklets/loudness.worklet.ts?worker&url';
+import { type LoudnessReadings, EMPTY_LOUDNESS_READINGS } from '@/utils/loudness';
+import { analyzeLoudness } from '@/utils/loudnessAnalysis';
+
+interface LoudnessMeterHook {
+  // Readings of whatever is playing, since the last reset
+  live: LoudnessReadings;
+  isSupported: boolean;
+  resetLive: () => void;
+  // Readings of the whole file once measured
+  fileReadings: LoudnessReadings | null;
+  isMeasuringFile: boolean;
+  // Why the last whole-file measurement failed
+  fileError: string | null;
+  measureFile: () => void;
+}
+
+// A worklet module only needs adding once per context
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+// Whole-file measurements are kept per file, like track analyses
+const fileCache = new WeakMap<Blob, Promise<LoudnessReadings>>();
+
+function loadLoudnessWorklet(context: BaseAudioContext): Promise<void> {
+  let loaded = workletModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(loudnessWorkletUrl);
+    workletModules.set(context, loaded);
+    loaded.catch(() => workletModules.delete(context));
+  }
+  return loaded;
+}
+
+function getFileLoudness(file: Blob): Promise<LoudnessReadings> {
+  let readings = fileCache.get(file);
+  if (!readings) {
+    readings = analyzeLoudness(file);
+    fileCache.set(file, readings);
+    // Let a failed measurement be retried
+    readings.catch(() => fileCache.delete(file));
+  }
+  return readings;
+}
+
+/**
+ * Meters loudness to EBU R128 in an AudioWorklet, and measures whole files
+ * on request
+ * @param audioContext Context of the audio graph, once there is one
+ * @param input Node carrying the audio to meter
+ * @param file File that's playing, or null for live input
+ */
+export function useLoudnessMeter(
+  audioContext: AudioContext | null,
+  input: AudioNode | null,
+  file: Blob | null
+): LoudnessMeterHook {
+  const [live, setLive] = useState<LoudnessReadings>(EMPTY_LOUDNESS_READINGS);
+  const [isSupported, setIsSupported] = useState(true);
+  const [fileReadings, setFileReadings] = useState<LoudnessReadings | null>(null);
+  const [isMeasuringFile, setIsMeasuringFile] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const nodeRef = useRef<AudioWorkletNode | null>(null);
+  const fileRef = useRef<Blob | null>(file);
+
+  useEffect(() => {
+    if (!audioContext || !input) return;
+    if (!audioContext.audioWorklet) {
+      setIsSupported(false);
+      return;
+    }
+
+    let cancelled = false;
+    let node: AudioWorkletNode | null = null;
+
+    loadLoudnessWorklet(audioContext)
+      .then(() => {
+        if (cancelled) return;
+        // The meter has no outputs; like an analyser it's processed without reaching the speakers
+        node = new AudioWorkletNode(audioContext, 'loudness-meter', { numberOfInputs: 1, numberOfOutputs: 0 });
+        node.port.onmessage = (event: MessageEvent<{ type: 'readings'; readings: LoudnessReadings }>) => {
+          if (event.data.type === 'readings') setLive(event.data.readings);
+        };
+        input.connect(node);
+        nodeRef.current = node;
+      })
+      .catch(error => {
+        console.error('Could not load the loudness meter:', error);
+        setIsSupported(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (node) {
+        input.disconnect(node);
+        node.port.onmessage = null;
+      }
+      nodeRef.current = null;
+    };
+  }, [audioContext, input]);
+
+  const resetLive = useCallback(() => {
+    nodeRef.current?.port.postMessage({ type: 'reset' });
+    setLive(EMPTY_LOUDNESS_READINGS);
+  }, []);
+
+  // A new file starts a new measurement
+  useEffect(() => {
+    fileRef.current = file;
+    setFileReadings(null);
+    setIsMeasuringFile(false);
+    setFileError(null);
+  }, [file]);
+
+  const measureFile = useCallback(() => {
+    const target = fileRef.current;
+    if (!target) return;
+
+    setIsMeasuringFile(true);
+    setFileError(null);
+    getFileLoudness(target)
+      .then(readings => {
+        if (fileRef.current === target) setFileReadings(readings);
+      })
+      .catch(error => {
+        console.error('Could not measure loudness:', error);
+        if (fileRef.current === target) setFileError('Could not measure this file.');
+      })
+      .finally(() => {
+        if (fileRef.current === target) setIsMeasuringFile(false);
+      });
+  }, []);
+
+  return { live, isSupported, resetLive, fileReadings, isMeasuringFile, fileError, measureFile };
+}
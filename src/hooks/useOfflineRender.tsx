@@ -0,0 +1,69 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  type OfflineRenderOptions,
+  type OfflineRenderProgress,
+  renderTrackOffline
+} from '@/utils/offlineRender';
+import { downloadBlob } from '@/utils/download';
+
+type RenderSettings = Omit<OfflineRenderOptions, 'signal' | 'onProgress'>;
+
+interface OfflineRenderHook {
+  isRendering: boolean;
+  progress: OfflineRenderProgress | null;
+  error: string | null;
+  render: (file: File, settings: RenderSettings) => Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * Runs offline renders of whole tracks and downloads the result
+ */
+export function useOfflineRender(): OfflineRenderHook {
+  const [progress, setProgress] = useState<OfflineRenderProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const render = useCallback(async (file: File, settings: RenderSettings) => {
+    if (controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+
+    try {
+      const zip = await renderTrackOffline(file, {
+        ...settings,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      const baseName = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
+      downloadBlob(zip, `${baseName}-${settings.resolution.width}x${settings.resolution.height}-${settings.fps}fps.zip`);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Offline render failed:', err);
+        setError(err instanceof Error ? err.message : 'The render failed.');
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Stop rendering if the page goes away
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return {
+    isRendering: progress !== null,
+    progress,
+    error,
+    render,
+    cancel
+  };
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { type AudioMetadata, getCoverPicture, createPictureUrl } from '@/utils/audioMetadata';
+
+export type RepeatMode = 'off' | 'one' | 'all';
+
+export interface PlaylistTrack {
+  id: string;
+  file: File;
+  url: string;
+  title: string;
+  artist?: string;
+  album?: string;
+  coverUrl?: string;
+  metadata?: AudioMetadata;
+}
+
+interface PlaylistHook {
+  tracks: PlaylistTrack[];
+  currentTrack: PlaylistTrack | null;
+  currentIndex: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  hasNext: boolean;
+  // What handleTrackEnded() will move to, without moving
+  upcomingTrack: PlaylistTrack | null;
+  hasPrevious: boolean;
+  addTrack: (file: File, objectUrl: string) => PlaylistTrack;
+  removeTrack: (id: string) => void;
+  moveTrack: (fromIndex: number, toIndex: number) => void;
+  selectTrack: (id: string) => void;
+  setTrackMetadata: (id: string, metadata: AudioMetadata) => void;
+  next: () => PlaylistTrack | null;
+  previous: () => PlaylistTrack | null;
+  handleTrackEnded: () => PlaylistTrack | null;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  clear: () => void;
+}
+
+const REPEAT_CYCLE: RepeatMode[] = ['off', 'all', 'one'];
+
+let trackCounter = 0;
+
+/**
+ * Derives a display title from a file name by dropping the extension
+ */
+function titleFromFileName(fileName: string): string {
+  return fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+}
+
+/**
+ * Releases every object URL a track owns
+ */
+function revokeTrackUrls(track: PlaylistTrack): void {
+  URL.revokeObjectURL(track.url);
+  if (track.coverUrl) {
+    URL.revokeObjectURL(track.coverUrl);
+  }
+}
+
+/**
+ * Fisher-Yates shuffle that keeps `firstId` at the front so the current
+ * track keeps playing when shuffle is switched on
+ */
+function shuffleIds(ids: string[], firstId?: string): string[] {
+  const rest = ids.filter(id => id !== firstId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstId && ids.includes(firstId) ? [firstId, ...rest] : rest;
+}
+
+/**
+ * Ordered track queue with shuffle and repeat. The playlist takes ownership
+ * of the object URLs handed to it and revokes them when tracks are removed.
+ */
+export function usePlaylist(): PlaylistHook {
+  const [tracks, setTracks] = useState<PlaylistTrack[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [shuffle, setShuffle] = useState(false);
+  const [shuffleOrder, setShuffleOrder] = useState<string[]>([]);
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const tracksRef = useRef<PlaylistTrack[]>([]);
+
+  useEffect(() => {
+    tracksRef.current = tracks;
+  }, [tracks]);
+
+  // Revoke every remaining object URL on unmount
+  useEffect(() => {
+    return () => {
+      tracksRef.current.forEach(revokeTrackUrls);
+    };
+  }, []);
+
+  const playOrder = useMemo(
+    () => (shuffle ? shuffleOrder : tracks.map(track => track.id)),
+    [shuffle, shuffleOrder, tracks]
+  );
+
+  const currentIndex = tracks.findIndex(track => track.id === currentId);
+  const currentTrack = currentIndex >= 0 ? tracks[currentIndex] : null;
+  const orderPosition = currentId ? playOrder.indexOf(currentId) : -1;
+
+  const getTrack = useCallback(
+    (id: string | undefined) => tracks.find(track => track.id === id) || null,
+    [tracks]
+  );
+
+  const addTrack = useCallback((file: File, objectUrl: string) => {
+    const track: PlaylistTrack = {
+      id: `track-${Date.now()}-${trackCounter++}`,
+      file,
+      url: objectUrl,
+      title: titleFromFileName(file.name)
+    };
+
+    tracksRef.current = [...tracksRef.current, track];
+    setTracks(prev => [...prev, track]);
+    // New tracks land at a random spot in the upcoming part of the shuffle order
+    setShuffleOrder(prev => {
+      const insertAt = prev.length === 0 ? 0 : 1 + Math.floor(Math.random() * prev.length);
+      return [...prev.slice(0, insertAt), track.id, ...prev.slice(insertAt)];
+    });
+    setCurrentId(prev => prev ?? track.id);
+    return track;
+  }, []);
+
+  const removeTrack = useCallback((id: string) => {
+    const removed = tracksRef.current.find(track => track.id === id);
+    if (!removed) return;
+
+    // Move off the removed track before it disappears
+    if (id === currentId) {
+      const position = playOrder.indexOf(id);
+      const remaining = playOrder.filter(trackId => trackId !== id);
+      setCurrentId(remaining[Math.min(position, remaining.length - 1)] ?? null);
+    }
+
+    tracksRef.current = tracksRef.current.filter(track => track.id !== id);
+    setTracks(prev => prev.filter(track => track.id !== id));
+    setShuffleOrder(prev => prev.filter(trackId => trackId !== id));
+    revokeTrackUrls(removed);
+  }, [currentId, playOrder]);
+
+  const moveTrack = useCallback((fromIndex: number, toIndex: number) => {
+    setTracks(prev => {
+      if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= prev.length) return prev;
+      const result = prev.slice();
+      const [moved] = result.splice(fromIndex, 1);
+      result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, moved);
+      return result;
+    });
+  }, []);
+
+  const selectTrack = useCallback((id: string) => {
+    setCurrentId(id);
+  }, []);
+
+  // Apply tags read from the file; the playlist owns the cover art URL
+  const setTrackMetadata = useCallback((id: string, metadata: AudioMetadata) => {
+    const existing = tracksRef.current.find(track => track.id === id);
+    if (!existing) return;
+
+    const cover = getCoverPicture(metadata);
+    const coverUrl = cover ? createPictureUrl(cover) : undefined;
+    if (existing.coverUrl) {
+      URL.revokeObjectURL(existing.coverUrl);
+    }
+
+    const updated: PlaylistTrack = {
+      ...existing,
+      title: metadata.title || existing.title,
+      artist: metadata.artist,
+      album: metadata.album,
+      coverUrl,
+      metadata
+    };
+    tracksRef.current = tracksRef.current.map(track => (track.id === id ? updated : track));
+    setTracks(prev => prev.map(track => (track.id === id ? updated : track)));
+  }, []);
+
+  const next = useCallback(() => {
+    if (!playOrder.length) return null;
+
+    let nextId = playOrder[orderPosition + 1];
+    if (!nextId && repeat === 'all') {
+      nextId = playOrder[0];
+    }
+    if (!nextId) return null;
+
+    setCurrentId(nextId);
+    return getTrack(nextId);
+  }, [playOrder, orderPosition, repeat, getTrack]);
+
+  const previous = useCallback(() => {
+    if (!playOrder.length) return null;
+
+    let previousId = playOrder[orderPosition - 1];
+    if (!previousId && repeat === 'all') {
+      previousId = playOrder[playOrder.length - 1];
+    }
+    if (!previousId) return null;
+
+    setCurrentId(previousId);
+    return getTrack(previousId);
+  }, [playOrder, orderPosition, repeat, getTrack]);
+
+  const upcomingTrack = useMemo(() => {
+    if (repeat === 'one') return currentTrack;
+    const nextId = playOrder[orderPosition + 1] ?? (repeat === 'all' ? playOrder[0] : undefined);
+    return getTrack(nextId);
+  }, [repeat, currentTrack, playOrder, orderPosition, getTrack]);
+
+  // Decide what plays after the current track finishes
+  const handleTrackEnded = useCallback(() => {
+    if (repeat === 'one') return currentTrack;
+    return next();
+  }, [repeat, currentTrack, next]);
+
+  const toggleShuffle = useCallback(() => {
+    if (!shuffle) {
+      setShuffleOrder(shuffleIds(tracks.map(track => track.id), currentId ?? undefined));
+    }
+    setShuffle(!shuffle);
+  }, [shuffle, tracks, currentId]);
+
+  const cycleRepeat = useCallback(() => {
+    setRepeat(prev => REPEAT_CYCLE[(REPEAT_CYCLE.indexOf(prev) + 1) % REPEAT_CYCLE.length]);
+  }, []);
+
+  const clear = useCallback(() => {
+    tracksRef.current.forEach(revokeTrackUrls);
+    tracksRef.current = [];
+    setTracks([]);
+    setShuffleOrder([]);
+    setCurrentId(null);
+  }, []);
+
+  return {
+    tracks,
+    currentTrack,
+    currentIndex,
+    shuffle,
+    repeat,
+    hasNext: orderPosition >= 0 && (orderPosition < playOrder.length - 1 || (repeat === 'all' && playOrder.length > 1)),
+    upcomingTrack,
+    hasPrevious: orderPosition > 0 || (repeat === 'all' && playOrder.length > 1),
+    addTrack,
+    removeTrack,
+    moveTrack,
+    selectTrack,
+    setTrackMetadata,
+    next,
+    previous,
+    handleTrackEnded,
+    toggleShuffle,
+    cycleRepeat,
+    clear
+  };
+}
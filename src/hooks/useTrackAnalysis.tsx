@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { type TrackAnalysis, getTrackAnalysis } from '@/utils/trackAnalysis';
+
+interface TrackAnalysisHook {
+  analysis: TrackAnalysis | null;
+  isAnalyzing: boolean;
+}
+
+/**
+ * Estimates the tempo, beat grid and key of a whole track in the background
+ * @param file Track to analyse, or null when nothing is loaded
+ */
+export function useTrackAnalysis(file: Blob | null): TrackAnalysisHook {
+  const [analysis, setAnalysis] = useState<TrackAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    setAnalysis(null);
+    if (!file) return;
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    getTrackAnalysis(file)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(error => console.error('Could not analyse track:', error))
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setIsAnalyzing(false);
+    };
+  }, [file]);
+
+  return { analysis, isAnalyzing };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  type TrackMarkers,
+  type LoopEnforcer,
+  EMPTY_TRACK_MARKERS,
+  createLoopEnforcer,
+  loadTrackMarkers,
+  saveTrackMarkers
+} from '@/utils/trackMarkers';
+import { getLibraryTrackId } from '@/utils/libraryDb';
+
+interface TrackMarkersHook {
+  markers: TrackMarkers;
+  setMarkers: (markers: TrackMarkers) => void;
+}
+
+/**
+ * Loop points and cues of the playing file, saved per track and enforced on
+ * the audio element
+ * @param audio Element playing the file
+ * @param file File that's playing, or null for live input
+ */
+export function useTrackMarkers(audio: HTMLAudioElement | null, file: File | null): TrackMarkersHook {
+  const trackKey = file ? getLibraryTrackId(file) : null;
+  const [state, setState] = useState<{ trackKey: string | null; markers: TrackMarkers }>(() => ({
+    trackKey,
+    markers: trackKey ? loadTrackMarkers(trackKey) : EMPTY_TRACK_MARKERS
+  }));
+  const enforcerRef = useRef<LoopEnforcer | null>(null);
+
+  // Markers are read again whenever another track starts
+  const markers = state.trackKey === trackKey ? state.markers : null;
+  useEffect(() => {
+    if (state.trackKey === trackKey) return;
+    setState({ trackKey, markers: trackKey ? loadTrackMarkers(trackKey) : EMPTY_TRACK_MARKERS });
+  }, [state.trackKey, trackKey]);
+
+  useEffect(() => {
+    if (!audio) return;
+    const enforcer = createLoopEnforcer(audio);
+    enforcerRef.current = enforcer;
+    return () => {
+      enforcer.dispose();
+      enforcerRef.current = null;
+    };
+  }, [audio]);
+
+  // Also runs for a new element, which a crossfade switches to
+  useEffect(() => {
+    enforcerRef.current?.setLoop(markers?.loop ?? null);
+  }, [audio, markers?.loop]);
+
+  const setMarkers = useCallback((next: TrackMarkers) => {
+    if (!trackKey) return;
+    setState({ trackKey, markers: next });
+    saveTrackMarkers(trackKey, next);
+  }, [trackKey]);
+
+  return { markers: markers ?? EMPTY_TRACK_MARKERS, setMarkers };
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef } from 'react';
+import { type PlaylistTrack } from '@/hooks/usePlaylist';
+import { type CrossfadeCurve, type TransitionSettings, GAPLESS_FADE, getTransitionLength } from '@/utils/crossfade';
+
+interface TrackTransitionsOptions {
+  // Deck playing the current track
+  audioElement: HTMLAudioElement | null;
+  currentTrack: PlaylistTrack | null;
+  upcomingTrack: PlaylistTrack | null;
+  settings: TransitionSettings;
+  // Off while something else decides where playback goes, like an A–B loop
+  enabled: boolean;
+  preloadNext: (url: string) => void;
+  crossfadeTo: (url: string, duration: number, curve: CrossfadeCurve) => Promise<boolean>;
+  // Moves the playlist on once the next track has taken over
+  onAdvance: () => void;
+}
+
+// How far ahead of the transition the next track starts buffering, in seconds
+const PRELOAD_LEAD = 15;
+// Timeupdate only fires a few times a second, so the last stretch before a
+// transition is timed instead
+const TIMER_WINDOW = 1;
+
+const isSameAlbum = (a: PlaylistTrack, b: PlaylistTrack) =>
+  !!a.album && a.album.trim().toLowerCase() === b.album?.trim().toLowerCase();
+
+/**
+ * Starts the next track early enough to crossfade into it, or right at the
+ * end of the current one for gapless playback. Without a transition, or when
+ * one can't start, the track just ends and the usual advance takes over.
+ */
+export function useTrackTransitions({
+  audioElement,
+  currentTrack,
+  upcomingTrack,
+  settings,
+  enabled,
+  preloadNext,
+  crossfadeTo,
+  onAdvance
+}: TrackTransitionsOptions): void {
+  const hasUpcoming = !!currentTrack && !!upcomingTrack && upcomingTrack.id !== currentTrack.id;
+  const length = enabled && hasUpcoming
+    ? getTransitionLength(settings, isSameAlbum(currentTrack, upcomingTrack))
+    : null;
+  const upcomingUrl = upcomingTrack?.url ?? null;
+
+  // The transition reads the latest callbacks without rearming the timers
+  const latestRef = useRef({ curve: settings.curve, preloadNext, crossfadeTo, onAdvance });
+  latestRef.current = { curve: settings.curve, preloadNext, crossfadeTo, onAdvance };
+
+  useEffect(() => {
+    const audio = audioElement;
+    if (!audio || length === null || !upcomingUrl) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let preloaded = false;
+    let started = false;
+
+    const clearTimer = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    };
+
+    const start = (remaining: number) => {
+      started = true;
+      const { curve, crossfadeTo: fade, onAdvance: advance } = latestRef.current;
+      // A seek close to the end shortens the fade to what's left
+      fade(upcomingUrl, Math.max(GAPLESS_FADE, Math.min(length, remaining)), curve).then(ok => {
+        if (ok) advance();
+      });
+    };
+
+    const check = () => {
+      clearTimer();
+      if (started || audio.paused || !Number.isFinite(audio.duration)) return;
+
+      const remaining = (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+      if (!preloaded && remaining <= length + PRELOAD_LEAD) {
+        preloaded = true;
+        latestRef.current.preloadNext(upcomingUrl);
+      }
+
+      const untilStart = remaining - length;
+      if (untilStart <= 0) {
+        start(remaining);
+      } else if (untilStart <= TIMER_WINDOW) {
+        timer = setTimeout(check, untilStart * 1000);
+      }
+    };
+
+    const progressEvents = ['timeupdate', 'play', 'seeked', 'ratechange', 'durationchange'] as const;
+    progressEvents.forEach(event => audio.addEventListener(event, check));
+    audio.addEventListener('pause', clearTimer);
+    check();
+
+    return () => {
+      clearTimer();
+      progressEvents.forEach(event => audio.removeEventListener(event, check));
+      audio.removeEventListener('pause', clearTimer);
+    };
+  }, [audioElement, length, upcomingUrl]);
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { type WaveformPeaks, analyzeWaveform } from '@/utils/waveform';
+
+interface WaveformHook {
+  peaks: WaveformPeaks | null;
+  isLoading: boolean;
+}
+
+// Overviews are kept per file, like track analyses
+const waveformCache = new WeakMap<Blob, Promise<WaveformPeaks>>();
+
+function getWaveform(file: Blob): Promise<WaveformPeaks> {
+  let peaks = waveformCache.get(file);
+  if (!peaks) {
+    peaks = analyzeWaveform(file);
+    waveformCache.set(file, peaks);
+    // Let a failed decode be retried
+    peaks.catch(() => waveformCache.delete(file));
+  }
+  return peaks;
+}
+
+/**
+ * Computes the waveform overview of a track in the background
+ * @param file Track to draw, or null when nothing is loaded
+ */
+export function useWaveform(file: Blob | null): WaveformHook {
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!file) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    getWaveform(file)
+      .then(result => {
+        if (!cancelled) setPeaks(result);
+      })
+      .catch(error => console.error('Could not draw waveform:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setIsLoading(false);
+    };
+  }, [file]);
+
+  return { peaks, isLoading };
+}
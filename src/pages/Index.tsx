@@ -1,59 +1,382 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useAudioAnalyzer } from '@/hooks/useAudioAnalyzer';
+import { usePlaylist } from '@/hooks/usePlaylist';
+import { useLibrary } from '@/hooks/useLibrary';
+import { useColorThemes } from '@/hooks/useColorThemes';
+import { useCanvasRecorder } from '@/hooks/useCanvasRecorder';
+import { useOfflineRender } from '@/hooks/useOfflineRender';
+import { useTrackAnalysis } from '@/hooks/useTrackAnalysis';
+import { useLoudnessMeter } from '@/hooks/useLoudnessMeter';
+import { useEqualizer } from '@/hooks/useEqualizer';
+import { useTrackMarkers } from '@/hooks/useTrackMarkers';
+import { useWaveform } from '@/hooks/useWaveform';
+import { useTrackTransitions } from '@/hooks/useTrackTransitions';
 import Visualizer from '@/components/Visualizer';
 import AudioPlayer from '@/components/AudioPlayer';
 import AudioUpload from '@/components/AudioUpload';
 import AnimatedBackground from '@/components/AnimatedBackground';
+import LiveInputControls from '@/components/LiveInputControls';
+import PlaylistPanel from '@/components/PlaylistPanel';
+import LoudnessMeterPanel from '@/components/LoudnessMeterPanel';
+import EqualizerPanel from '@/components/EqualizerPanel';
+import LibraryPanel from '@/components/LibraryPanel';
+import ThemeEditorDialog from '@/components/ThemeEditorDialog';
+import RecordingControls from '@/components/RecordingControls';
+import OfflineRenderControls, { type OfflineRenderSettings } from '@/components/OfflineRenderControls';
+import { getLibraryTrackId } from '@/utils/libraryDb';
+import { validateAudioFile } from '@/utils/audioFiles';
+import { readAudioMetadata, getCoverPicture } from '@/utils/audioMetadata';
+import { extractArtworkPalette } from '@/utils/artworkPalette';
+import { type ThemePalette } from '@/utils/visualizerHelpers';
+import { type TransitionSettings, loadTransitionSettings, saveTransitionSettings } from '@/utils/crossfade';
+import {
+  type VisualizationMode,
+  type VisualizerSettingValue,
+  DEFAULT_VISUALIZER,
+  getVisualizer
+} from '@/utils/visualizerPlugins';
+import { type FrequencyScale, DEFAULT_FREQUENCY_SCALE } from '@/utils/frequencyScale';
+import { type RendererPreference } from '@/utils/visualizerRenderer';
+import { toast } from 'sonner';
 
 const Index = () => {
-  const [audioSrc, setAudioSrc] = useState<string | null>(null);
-  const [trackInfo, setTrackInfo] = useState<{ title?: string; artist?: string }>({});
-  const [visualizerType, setVisualizerType] = useState<'bars' | 'circular' | 'wave' | 'blob'>('bars');
+  const [visualizerType, setVisualizerType] = useState<VisualizationMode>(DEFAULT_VISUALIZER);
   const [showUpload, setShowUpload] = useState(true);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [artworkPalette, setArtworkPalette] = useState<ThemePalette | null>(null);
+  const [themeEditorOpen, setThemeEditorOpen] = useState(false);
+  const [frequencyScale, setFrequencyScale] = useState<FrequencyScale>(DEFAULT_FREQUENCY_SCALE);
+  const [showFrequencyAxis, setShowFrequencyAxis] = useState(false);
+  const [visualizerSettings, setVisualizerSettings] = useState<
+    Record<VisualizationMode, Partial<Record<string, VisualizerSettingValue>>>
+  >({});
+  const [rendererPreference, setRendererPreference] = useState<RendererPreference>('auto');
+  const [transitionSettings, setTransitionSettings] = useState<TransitionSettings>(loadTransitionSettings);
+  const visualizerCanvasRef = useRef<HTMLCanvasElement>(null);
+  const autoPlayRef = useRef(false);
+  const lastPlayedIdRef = useRef<string | null>(null);
+  const playlist = usePlaylist();
+  const library = useLibrary();
+  const themes = useColorThemes(artworkPalette);
+  const { currentTrack } = playlist;
+  const audioSrc = currentTrack?.url ?? null;
+  const trackInfo = currentTrack
+    ? {
+        title: currentTrack.title,
+        artist: currentTrack.artist,
+        album: currentTrack.album,
+        coverUrl: currentTrack.coverUrl
+      }
+    : {};
   
   // Use our custom hook for audio analysis
   const {
     audioRef,
-    frequencyData,
-    timeData,
+    deckRefs,
+    audioElement,
+    audioContext,
+    analyser,
+    frameBus,
+    equalizer,
+    analysisPoint,
     isPlaying,
     currentTime,
     duration,
     volume,
+    playbackRate,
+    preservesPitch,
+    pitchShift,
+    isPitchShiftSupported,
+    sourceKind,
+    inputDevices,
+    inputError,
+    microphoneOptions,
+    playAudio,
     togglePlay,
     setVolume,
-    seekTo
-  } = useAudioAnalyzer(1024); // Higher fftSize for better resolution
+    setPlaybackRate,
+    setPreservesPitch,
+    setPitchShift,
+    seekTo,
+    loadTrack,
+    preloadNext,
+    crossfadeTo,
+    startMicrophone,
+    startDisplayCapture,
+    stopLiveInput,
+    refreshInputDevices,
+    setAnalysisPoint
+  } = useAudioAnalyzer(getVisualizer(visualizerType)?.fftSize ?? 1024); // Visualizers can ask for a higher fftSize for better resolution
+
+  const recorder = useCanvasRecorder({
+    canvasRef: visualizerCanvasRef,
+    audioContext,
+    analyser,
+    background: themes.background
+  });
+  const offlineRender = useOfflineRender();
+  const trackAnalysis = useTrackAnalysis(sourceKind === 'file' ? currentTrack?.file ?? null : null);
+  const loudness = useLoudnessMeter(audioContext, analyser, sourceKind === 'file' ? currentTrack?.file ?? null : null);
+  const { resetLive: resetLoudness } = loudness;
+  const eq = useEqualizer(equalizer);
+  const waveform = useWaveform(sourceKind === 'file' ? currentTrack?.file ?? null : null);
+  const trackMarkers = useTrackMarkers(audioElement, sourceKind === 'file' ? currentTrack?.file ?? null : null);
+
+  // Each track or live source is a new programme for the loudness meter
+  useEffect(() => {
+    resetLoudness();
+  }, [currentTrack?.id, sourceKind, resetLoudness]);
+
+  // Queue a file, then fill in its tags and cover art once they've been read.
+  // New imports are also kept in the local library so they survive a reload.
+  const queueFile = (file: File, objectUrl: string, saveToLibrary: boolean) => {
+    const track = playlist.addTrack(file, objectUrl);
+
+    readAudioMetadata(file).then(metadata => {
+      playlist.setTrackMetadata(track.id, metadata);
+
+      if (saveToLibrary) {
+        library.importFile(file, metadata).then(saved => {
+          if (!saved && library.isSupported) {
+            toast.error(`Couldn't save ${file.name} to the library. Storage may be full.`);
+          }
+        });
+      }
+    });
+
+    return track;
+  };
+
+  // Render the current track offline with the on-screen look
+  const handleOfflineRender = (settings: OfflineRenderSettings) => {
+    if (!currentTrack) return;
+    offlineRender.render(currentTrack.file, {
+      fps: settings.fps,
+      resolution: settings.resolution,
+      mode: visualizerType,
+      palette: themes.palette,
+      background: settings.transparent ? null : themes.background,
+      sensitivity: 1.5,
+      volume,
+      frequencyScale,
+      showFrequencyAxis,
+      modeSettings: visualizerSettings[visualizerType]
+    });
+  };
 
   // Handle file selection
   const handleFileSelect = (file: File, objectUrl: string) => {
-    setAudioSrc(objectUrl);
+    stopLiveInput();
+    queueFile(file, objectUrl, true);
+    setShowUpload(false);
+  };
+
+  // Re-open a stored track straight into the player
+  const handlePlayFromLibrary = async (id: string) => {
+    const queued = playlist.tracks.find(track => getLibraryTrackId(track.file) === id);
+    if (queued) {
+      stopLiveInput();
+      setShowUpload(false);
+      setLibraryOpen(false);
+      handleSelectTrack(queued.id);
+      return;
+    }
+
+    const file = await library.openTrack(id);
+    if (!file) {
+      toast.error('This track could not be read from the library');
+      return;
+    }
+
+    stopLiveInput();
+    const track = queueFile(file, URL.createObjectURL(file), false);
+    autoPlayRef.current = true;
+    playlist.selectTrack(track.id);
     setShowUpload(false);
-    
-    // Extract file name as track title
-    const fileName = file.name;
-    const title = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-    setTrackInfo({ title });
+    setLibraryOpen(false);
+  };
+
+  const handleEvictLibrary = async (maxBytes: number) => {
+    const removed = await library.evictToSize(maxBytes);
+    if (removed === null) {
+      toast.error('Could not free up library space');
+      return;
+    }
+    toast.success(`Removed ${removed} track${removed === 1 ? '' : 's'} from the library`);
+  };
+
+  const handleClearLibrary = async () => {
+    if (!window.confirm('Delete every track stored in the library?')) return;
+    if (await library.clear()) {
+      toast.success('Library cleared');
+    } else {
+      toast.error('Could not clear the library');
+    }
+  };
+
+  const handleRemoveLibraryTrack = async (id: string) => {
+    if (!(await library.removeTracks([id]))) {
+      toast.error('Could not remove the track from the library');
+    }
+  };
+
+  // Files added from the queue panel
+  const handleAddFiles = (files: File[]) => {
+    files.forEach(file => {
+      const error = validateAudioFile(file);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      queueFile(file, URL.createObjectURL(file), true);
+    });
   };
 
-  // Clean up object URLs on unmount
+  // Record plays so the library can sort by, and evict by, last use
   useEffect(() => {
+    if (isPlaying && currentTrack && lastPlayedIdRef.current !== currentTrack.id) {
+      lastPlayedIdRef.current = currentTrack.id;
+      library.markPlayed(currentTrack.file);
+    }
+  }, [isPlaying, currentTrack, library]);
+
+  // Derive the "Auto from artwork" theme from the current track's cover
+  const coverPicture = currentTrack?.metadata ? getCoverPicture(currentTrack.metadata) : undefined;
+  useEffect(() => {
+    setArtworkPalette(null);
+    if (!coverPicture) return;
+
+    let cancelled = false;
+    extractArtworkPalette(coverPicture)
+      .then(palette => {
+        if (!cancelled) setArtworkPalette(palette);
+      })
+      .catch(error => console.error('Could not read artwork colors:', error));
+
     return () => {
-      if (audioSrc) {
-        URL.revokeObjectURL(audioSrc);
+      cancelled = true;
+    };
+  }, [coverPicture]);
+
+  // Load the selected track onto the active deck. This has to come before
+  // the autoplay below, which plays whatever the deck has loaded.
+  useEffect(() => {
+    loadTrack(audioSrc);
+  }, [audioSrc, loadTrack]);
+
+  // Start playback once the element has picked up a newly selected track
+  useEffect(() => {
+    if (autoPlayRef.current && audioSrc) {
+      autoPlayRef.current = false;
+      playAudio();
+    }
+  }, [audioSrc, playAudio]);
+
+  const handleSelectTrack = (id: string) => {
+    if (id === currentTrack?.id) {
+      seekTo(0);
+      playAudio();
+      return;
+    }
+    autoPlayRef.current = true;
+    playlist.selectTrack(id);
+  };
+
+  const handleNext = () => {
+    autoPlayRef.current = isPlaying;
+    playlist.next();
+  };
+
+  // Like most players, "previous" restarts the track unless we're near its start
+  const handlePrevious = () => {
+    if (currentTime > 3 || !playlist.hasPrevious) {
+      seekTo(0);
+      return;
+    }
+    autoPlayRef.current = isPlaying;
+    playlist.previous();
+  };
+
+  // Gapless and crossfaded changes start the next track before this one ends
+  useTrackTransitions({
+    audioElement,
+    currentTrack,
+    upcomingTrack: playlist.upcomingTrack,
+    settings: transitionSettings,
+    enabled: sourceKind === 'file' && !trackMarkers.markers.loop.enabled,
+    preloadNext,
+    crossfadeTo,
+    onAdvance: playlist.handleTrackEnded
+  });
+
+  const handleTransitionSettingsChange = (settings: TransitionSettings) => {
+    setTransitionSettings(settings);
+    saveTransitionSettings(settings);
+  };
+
+  // Auto-advance when the current track finishes
+  useEffect(() => {
+    const audio = audioElement;
+    if (!audio) return;
+
+    const handleEnded = () => {
+      // A deck that has just been crossfaded away from can end before this
+      // listener moves to the incoming one; the transition advances instead
+      if (audio !== audioRef.current) return;
+
+      const upcoming = playlist.handleTrackEnded();
+      if (!upcoming) return;
+
+      if (upcoming.id === currentTrack?.id) {
+        audio.currentTime = 0;
+        audio.play().catch(error => console.error("Play failed:", error));
+      } else {
+        autoPlayRef.current = true;
       }
     };
-  }, [audioSrc]);
+
+    audio.addEventListener('ended', handleEnded);
+    return () => {
+      audio.removeEventListener('ended', handleEnded);
+    };
+  }, [audioRef, audioElement, playlist, currentTrack]);
+
+  // Switch to live microphone / line-in input
+  const handleMicrophoneSelect = async () => {
+    const started = await startMicrophone();
+    if (started) {
+      setShowUpload(false);
+      toast.success('Listening to microphone');
+    } else {
+      toast.error('Could not access the microphone');
+    }
+  };
+
+  // Capture another tab's or the desktop's audio
+  const handleDisplayCaptureSelect = async () => {
+    const started = await startDisplayCapture();
+    if (started) {
+      setShowUpload(false);
+      toast.success('Capturing tab audio');
+    }
+  };
+
+  // Return to the upload screen if live input ends on its own (device unplugged, permission revoked)
+  useEffect(() => {
+    if (sourceKind === 'file' && !audioSrc) {
+      setShowUpload(true);
+    }
+  }, [sourceKind, audioSrc]);
 
   // Reset to upload screen
   const handleReset = () => {
     if (audioRef.current) {
       audioRef.current.pause();
     }
-    setAudioSrc(null);
-    setTrackInfo({});
+    stopLiveInput();
+    playlist.clear();
     setShowUpload(true);
   };
 
@@ -61,12 +384,14 @@ const Index = () => {
     <div className="min-h-screen w-full overflow-hidden relative flex flex-col items-center justify-center text-white">
       {/* Background animation */}
       <AnimatedBackground 
-        frequencyData={frequencyData}
+        frameBus={frameBus}
         isPlaying={isPlaying}
+        colors={themes.background}
       />
       
-      {/* Hidden audio element */}
-      <audio ref={audioRef} src={audioSrc || undefined} preload="metadata" />
+      {/* Hidden audio elements, one per deck */}
+      <audio ref={deckRefs[0]} preload="metadata" />
+      <audio ref={deckRefs[1]} preload="metadata" />
       
       {/* App content */}
       <motion.div 
@@ -106,16 +431,40 @@ const Index = () => {
           >
             {showUpload ? (
               <div className="w-full h-full flex items-center justify-center p-4">
-                <AudioUpload onFileSelect={handleFileSelect} className="max-w-md w-full" />
+                <AudioUpload
+                  onFileSelect={handleFileSelect}
+                  onMicrophoneSelect={handleMicrophoneSelect}
+                  onDisplayCaptureSelect={handleDisplayCaptureSelect}
+                  onLibraryOpen={library.isSupported ? () => setLibraryOpen(true) : undefined}
+                  inputError={inputError}
+                  className="max-w-md w-full"
+                />
               </div>
             ) : (
               <Visualizer 
-                frequencyData={frequencyData}
-                timeData={timeData}
-                isPlaying={isPlaying}
+                frameBus={frameBus}
+                tempo={trackAnalysis.analysis?.tempo}
+                keyAnalysis={trackAnalysis.analysis?.key}
+                frequencyScale={frequencyScale}
+                sampleRate={audioContext?.sampleRate}
+                showFrequencyAxis={showFrequencyAxis}
+                onFrequencyScaleChange={setFrequencyScale}
+                onShowFrequencyAxisChange={setShowFrequencyAxis}
+                visualizerSettings={visualizerSettings}
+                onVisualizerSettingsChange={(mode, settings) => setVisualizerSettings(prev => ({ ...prev, [mode]: settings }))}
+                rendererPreference={rendererPreference}
+                onRendererPreferenceChange={setRendererPreference}
                 volume={volume}
                 sensitivity={1.5}
                 visualizationType={visualizerType}
+                onVisualizationTypeChange={setVisualizerType}
+                palette={themes.palette}
+                themeId={themes.themeId}
+                themeOptions={themes.themeOptions}
+                onThemeChange={themes.setThemeId}
+                onEditThemes={() => setThemeEditorOpen(true)}
+                canvasRef={visualizerCanvasRef}
+                renderOnMainThread={recorder.isRecording}
               />
             )}
           </motion.div>
@@ -128,31 +477,166 @@ const Index = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.5, duration: 0.6 }}
             >
-              <AudioPlayer 
-                audioRef={audioRef}
-                isPlaying={isPlaying}
-                currentTime={currentTime}
-                duration={duration}
-                volume={volume}
-                togglePlay={togglePlay}
-                setVolume={setVolume}
-                seekTo={seekTo}
-                trackInfo={trackInfo}
+              {sourceKind !== 'file' ? (
+                <LiveInputControls
+                  sourceKind={sourceKind}
+                  inputDevices={inputDevices}
+                  microphoneOptions={microphoneOptions}
+                  inputError={inputError}
+                  onOptionsChange={startMicrophone}
+                  onStop={handleReset}
+                  onRefreshDevices={refreshInputDevices}
+                />
+              ) : (
+                <AudioPlayer 
+                  audioRef={audioRef}
+                  isPlaying={isPlaying}
+                  currentTime={currentTime}
+                  duration={duration}
+                  volume={volume}
+                  togglePlay={togglePlay}
+                  setVolume={setVolume}
+                  seekTo={seekTo}
+                  onPrevious={handlePrevious}
+                  onNext={playlist.hasNext ? handleNext : undefined}
+                  trackInfo={trackInfo}
+                  tempo={trackAnalysis.analysis?.tempo}
+                  musicalKey={trackAnalysis.analysis?.key.key}
+                  playbackRate={playbackRate}
+                  preservesPitch={preservesPitch}
+                  pitchShift={pitchShift}
+                  isPitchShiftSupported={isPitchShiftSupported}
+                  onPlaybackRateChange={setPlaybackRate}
+                  onPreservesPitchChange={setPreservesPitch}
+                  onPitchShiftChange={setPitchShift}
+                  markers={currentTrack ? trackMarkers.markers : undefined}
+                  onMarkersChange={trackMarkers.setMarkers}
+                  waveform={waveform.peaks}
+                />
+              )}
+
+              <LoudnessMeterPanel
+                className="mt-4"
+                readings={loudness.live}
+                isSupported={loudness.isSupported}
+                onReset={loudness.resetLive}
+                fileReadings={loudness.fileReadings}
+                isMeasuringFile={loudness.isMeasuringFile}
+                fileError={loudness.fileError}
+                canMeasureFile={sourceKind === 'file' && !!currentTrack}
+                onMeasureFile={loudness.measureFile}
               />
+
+              <EqualizerPanel
+                className="mt-4"
+                bands={eq.bands}
+                bypass={eq.bypass}
+                presets={eq.presets}
+                customPresets={eq.customPresets}
+                presetId={eq.presetId}
+                analysisPoint={analysisPoint}
+                frameBus={frameBus}
+                audioContext={audioContext}
+                sampleRate={audioContext?.sampleRate}
+                onBandChange={eq.updateBand}
+                onBypassChange={eq.setBypass}
+                onPresetSelect={eq.applyPreset}
+                onPresetSave={eq.savePreset}
+                onPresetDelete={eq.deletePreset}
+                onAnalysisPointChange={setAnalysisPoint}
+              />
+
+              {sourceKind === 'file' && (
+                <PlaylistPanel
+                  className="mt-4"
+                  tracks={playlist.tracks}
+                  currentTrackId={currentTrack?.id}
+                  isPlaying={isPlaying}
+                  shuffle={playlist.shuffle}
+                  repeat={playlist.repeat}
+                  onSelect={handleSelectTrack}
+                  onRemove={playlist.removeTrack}
+                  onMove={playlist.moveTrack}
+                  onAddFiles={handleAddFiles}
+                  onToggleShuffle={playlist.toggleShuffle}
+                  transitionSettings={transitionSettings}
+                  onTransitionSettingsChange={handleTransitionSettingsChange}
+                  onCycleRepeat={playlist.cycleRepeat}
+                />
+              )}
               
               {/* Additional controls */}
-              <div className="flex justify-center mt-6">
+              <div className="flex justify-center gap-3 mt-6">
                 <button 
                   onClick={handleReset}
                   className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
                 >
-                  Upload a different track
+                  {sourceKind !== 'file' ? 'Switch to a file' : 'Clear queue'}
                 </button>
+                {library.isSupported && (
+                  <button 
+                    onClick={() => setLibraryOpen(true)}
+                    className="px-4 py-2 text-sm rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                  >
+                    Library
+                  </button>
+                )}
+                <RecordingControls
+                  isSupported={recorder.isSupported}
+                  isRecording={recorder.isRecording}
+                  elapsed={recorder.elapsed}
+                  recordedBytes={recorder.recordedBytes}
+                  error={recorder.error}
+                  trackProgress={sourceKind === 'file' && duration > 0 ? currentTime / duration : undefined}
+                  onStart={recorder.startRecording}
+                  onStop={recorder.stopRecording}
+                />
+                {sourceKind === 'file' && (
+                  <OfflineRenderControls
+                    isRendering={offlineRender.isRendering}
+                    progress={offlineRender.progress}
+                    error={offlineRender.error}
+                    disabled={!currentTrack}
+                    onStart={handleOfflineRender}
+                    onCancel={offlineRender.cancel}
+                  />
+                )}
               </div>
             </motion.div>
           )}
         </div>
       </motion.div>
+
+      <LibraryPanel
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        isSupported={library.isSupported}
+        isLoading={library.isLoading}
+        tracks={library.tracks}
+        totalCount={library.totalCount}
+        totalSize={library.totalSize}
+        storage={library.storage}
+        search={library.search}
+        sort={library.sort}
+        currentTrackId={currentTrack ? getLibraryTrackId(currentTrack.file) : undefined}
+        onSearchChange={library.setSearch}
+        onSortChange={library.setSort}
+        onPlay={handlePlayFromLibrary}
+        onRemove={handleRemoveLibraryTrack}
+        onEvict={handleEvictLibrary}
+        onClear={handleClearLibrary}
+        onRequestPersistence={library.requestPersistence}
+      />
+
+      <ThemeEditorDialog
+        open={themeEditorOpen}
+        onOpenChange={setThemeEditorOpen}
+        basePalette={themes.palette}
+        editingTheme={themes.selectedCustomTheme}
+        onPreview={themes.setPreview}
+        onSave={themes.saveTheme}
+        onDelete={themes.deleteTheme}
+      />
       
       {/* Footer */}
       <motion.footer 
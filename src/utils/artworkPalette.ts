@@ -0,0 +1,265 @@
+import { type ThemePalette } from '@/utils/visualizerHelpers';
+import { type AudioPicture } from '@/utils/audioMetadata';
+
+type Rgb = [number, number, number];
+
+/**
+ * A representative color of an image and how many pixels it stands for
+ */
+export interface Swatch {
+  color: Rgb;
+  population: number;
+}
+
+// Artwork is downscaled before quantizing; 64x64 pixels is plenty for a palette
+const SAMPLE_SIZE = 64;
+
+// Relative luminance of the AnimatedBackground base color (#0e1a2d)
+const BACKGROUND_LUMINANCE = 0.0098;
+const MIN_CONTRAST = 4.5;
+
+/**
+ * Quantizes pixels into representative colors with the median-cut algorithm
+ * @param pixels RGBA pixel data
+ * @param colorCount Maximum number of colors to return
+ * @returns Swatches sorted by population, largest first
+ */
+export function medianCut(pixels: Uint8ClampedArray, colorCount = 8): Swatch[] {
+  const colors: Rgb[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Skip mostly transparent pixels
+    if (pixels[i + 3] < 128) continue;
+    colors.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  }
+
+  if (colors.length === 0) return [];
+
+  let boxes: Rgb[][] = [colors];
+
+  while (boxes.length < colorCount) {
+    // Split the box with the widest channel range
+    let boxIndex = -1;
+    let channel = 0;
+    let widest = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255;
+        let max = 0;
+        for (const color of box) {
+          if (color[c] < min) min = color[c];
+          if (color[c] > max) max = color[c];
+        }
+        if (max - min > widest) {
+          widest = max - min;
+          boxIndex = index;
+          channel = c;
+        }
+      }
+    });
+
+    if (boxIndex === -1 || widest === 0) break;
+
+    const box = boxes[boxIndex].slice().sort((a, b) => a[channel] - b[channel]);
+    const median = Math.floor(box.length / 2);
+    boxes = [
+      ...boxes.slice(0, boxIndex),
+      box.slice(0, median),
+      box.slice(median),
+      ...boxes.slice(boxIndex + 1)
+    ];
+  }
+
+  // Splitting at the median can leave the same color in several boxes; merge those
+  const swatches = new Map<string, Swatch>();
+  boxes.forEach(box => {
+    const sum = box.reduce<Rgb>((acc, color) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]], [0, 0, 0]);
+    const color = sum.map(value => Math.round(value / box.length)) as Rgb;
+    const key = color.join(',');
+    const existing = swatches.get(key);
+    if (existing) {
+      existing.population += box.length;
+    } else {
+      swatches.set(key, { color, population: box.length });
+    }
+  });
+
+  return Array.from(swatches.values()).sort((a, b) => b.population - a.population);
+}
+
+/**
+ * Converts RGB (0-255) to HSL (h 0-360, s and l 0-1)
+ */
+function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+
+  if (max === min) return [0, 0, l];
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+
+  return [h * 60, s, l];
+}
+
+/**
+ * Converts HSL (h 0-360, s and l 0-1) to RGB (0-255)
+ */
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    h < 60 ? [c, x, 0] :
+    h < 120 ? [x, c, 0] :
+    h < 180 ? [0, c, x] :
+    h < 240 ? [0, x, c] :
+    h < 300 ? [x, 0, c] :
+    [c, 0, x];
+
+  return [
+    Math.round((r + m) * 255),
+    Math.round((g + m) * 255),
+    Math.round((b + m) * 255)
+  ];
+}
+
+/**
+ * WCAG relative luminance of a color
+ */
+function relativeLuminance(color: Rgb): number {
+  const [r, g, b] = color.map(value => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Lightens a color until it reads clearly against the dark background
+ */
+function ensureContrast(color: Rgb): Rgb {
+  const [h, s, l] = rgbToHsl(color);
+  let lightness = l;
+  let result = color;
+
+  while ((relativeLuminance(result) + 0.05) / (BACKGROUND_LUMINANCE + 0.05) < MIN_CONTRAST && lightness < 0.95) {
+    lightness = Math.min(0.95, lightness + 0.05);
+    result = hslToRgb(h, s, lightness);
+  }
+
+  return result;
+}
+
+/**
+ * Shortest distance between two hues in degrees
+ */
+function hueDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function toRgba([r, g, b]: Rgb, alpha: number): string {
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Picks a primary and a secondary color from the swatches and turns them into
+ * a visualizer palette
+ * @param swatches Quantized artwork colors
+ * @returns Palette, or null when there are no usable colors
+ */
+export function buildArtworkPalette(swatches: Swatch[]): ThemePalette | null {
+  if (swatches.length === 0) return null;
+
+  const total = swatches.reduce((sum, swatch) => sum + swatch.population, 0);
+
+  // Favor common, saturated colors; near-black and near-white swatches make dull themes
+  const scored = swatches
+    .map(swatch => {
+      const [h, s, l] = rgbToHsl(swatch.color);
+      const lightnessPenalty = l < 0.1 || l > 0.92 ? 0.2 : 1;
+      return { swatch, h, score: (swatch.population / total) * (0.3 + s) * lightnessPenalty };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const primary = scored[0];
+  // The secondary color should differ visibly in hue; otherwise reuse the primary
+  const secondary = scored
+    .slice(1)
+    .filter(entry => hueDistance(entry.h, primary.h) > 30)
+    .sort((a, b) => b.score - a.score)[0] || primary;
+
+  const primaryColor = ensureContrast(primary.swatch.color);
+  const secondaryColor = ensureContrast(secondary.swatch.color);
+  const [h, s, l] = rgbToHsl(primaryColor);
+  const highlightColor = hslToRgb(h, Math.min(s, 0.6), Math.max(l, 0.85));
+
+  return {
+    name: 'Auto from artwork',
+    gradient: [toRgba(primaryColor, 0.8), toRgba(secondaryColor, 0.9), toRgba(primaryColor, 0.8)],
+    highlight: toRgba(highlightColor, 0.8),
+    glow: toRgba(primaryColor, 0.6),
+    isRainbow: false
+  };
+}
+
+/**
+ * Runs median-cut in a worker so large covers don't stall the visualizer
+ */
+function quantizeInWorker(pixels: Uint8ClampedArray): Promise<Swatch[]> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(medianCut(pixels));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/palette.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<Swatch[]>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Palette worker failed'));
+    };
+    worker.postMessage(pixels, [pixels.buffer]);
+  });
+}
+
+/**
+ * Derives a visualizer palette from embedded cover art
+ * @param picture Cover image from the track's tags
+ * @returns Palette, or null if the image can't be decoded
+ */
+export async function extractArtworkPalette(picture: AudioPicture): Promise<ThemePalette | null> {
+  const blob = new Blob([picture.data], { type: picture.mimeType || 'image/jpeg' });
+  const bitmap = await createImageBitmap(blob, {
+    resizeWidth: SAMPLE_SIZE,
+    resizeHeight: SAMPLE_SIZE,
+    resizeQuality: 'low'
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    return null;
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return buildArtworkPalette(await quantizeInWorker(data));
+}
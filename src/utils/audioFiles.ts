@@ -0,0 +1,48 @@
+/**
+ * Largest audio file accepted for playback, in bytes
+ */
+export const MAX_AUDIO_FILE_SIZE = 30 * 1024 * 1024;
+
+/**
+ * Checks whether a file can be loaded into the player
+ * @param file File picked or dropped by the user
+ * @returns An error message, or null when the file is usable
+ */
+export function validateAudioFile(file: File): string | null {
+  // Check if file is an audio file
+  if (!file.type.startsWith('audio/')) {
+    return `${file.name} is not an audio file`;
+  }
+
+  // Check file size (limit to 30MB)
+  if (file.size > MAX_AUDIO_FILE_SIZE) {
+    return `${file.name} is too large. Please select files under 30MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Reads the duration of an audio file by loading its metadata into a
+ * detached audio element
+ * @param file Audio file or blob
+ * @returns Duration in seconds, or undefined if the browser can't read it
+ */
+export function readAudioDuration(file: Blob): Promise<number | undefined> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+
+    const finish = (duration?: number) => {
+      audio.removeAttribute('src');
+      audio.load();
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && isFinite(duration) ? duration : undefined);
+    };
+
+    audio.preload = 'metadata';
+    audio.addEventListener('loadedmetadata', () => finish(audio.duration), { once: true });
+    audio.addEventListener('error', () => finish(), { once: true });
+    audio.src = url;
+  });
+}
@@ -0,0 +1,781 @@
+/**
+ * Embedded picture (cover art) found in a tag
+ */
+export interface AudioPicture {
+  mimeType: string;
+  /** ID3 / FLAC picture type, 3 is the front cover */
+  type: number;
+  description?: string;
+  data: Uint8Array;
+}
+
+/**
+ * Tag formats the reader understands
+ */
+export type TagFormat = 'id3v2' | 'id3v1' | 'vorbis' | 'mp4';
+
+/**
+ * Metadata read from an audio file's tags
+ */
+export interface AudioMetadata {
+  formats: TagFormat[];
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  trackNumber?: number;
+  trackTotal?: number;
+  /** Duration hint in seconds, from the tag or container headers */
+  duration?: number;
+  pictures: AudioPicture[];
+}
+
+const FRONT_COVER = 3;
+
+// Binary helpers
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  const clampedStart = Math.max(0, Math.min(start, file.size));
+  const clampedEnd = Math.max(clampedStart, Math.min(end, file.size));
+  return new Uint8Array(await file.slice(clampedStart, clampedEnd).arrayBuffer());
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function readUint24BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) + (bytes[offset + 1] << 8) + bytes[offset + 2];
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + (bytes[offset + 2] << 16) + (bytes[offset + 1] << 8) + bytes[offset];
+}
+
+function readUint64BE(bytes: Uint8Array, offset: number): number {
+  return readUint32BE(bytes, offset) * 2 ** 32 + readUint32BE(bytes, offset + 4);
+}
+
+function readUint64LE(bytes: Uint8Array, offset: number): number {
+  return readUint32LE(bytes, offset + 4) * 2 ** 32 + readUint32LE(bytes, offset);
+}
+
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f);
+}
+
+function decodeText(bytes: Uint8Array, encoding: string): string {
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch {
+    return '';
+  }
+}
+
+function cleanText(text: string | undefined): string | undefined {
+  const trimmed = text?.replace(/\0+$/g, '').trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Parses "3", "3/12" or "2004-05-01" style values
+ */
+function parseLeadingNumber(value: string | undefined): number | undefined {
+  const match = value?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+function parseTrack(value: string | undefined): { trackNumber?: number; trackTotal?: number } {
+  if (!value) return {};
+  const [number, total] = value.split('/');
+  return {
+    trackNumber: parseLeadingNumber(number),
+    trackTotal: parseLeadingNumber(total)
+  };
+}
+
+function detectImageMime(data: Uint8Array, fallback = 'image/jpeg'): string {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'image/gif';
+  if (readAscii(data, 8, 4) === 'WEBP') return 'image/webp';
+  return fallback;
+}
+
+/**
+ * Fills fields that are still empty in `target` from `source`, so
+ * richer tag formats read first take precedence
+ */
+function mergeMetadata(target: AudioMetadata, source: Partial<AudioMetadata>, format: TagFormat): void {
+  target.formats.push(format);
+  target.title ??= source.title;
+  target.artist ??= source.artist;
+  target.album ??= source.album;
+  target.year ??= source.year;
+  target.trackNumber ??= source.trackNumber;
+  target.trackTotal ??= source.trackTotal;
+  target.duration ??= source.duration;
+  if (source.pictures) {
+    target.pictures.push(...source.pictures);
+  }
+}
+
+// ID3v2 (2.2, 2.3 and 2.4)
+const ID3_TEXT_ENCODINGS = ['iso-8859-1', 'utf-16', 'utf-16be', 'utf-8'];
+
+/**
+ * Reverses ID3 unsynchronisation (0xFF 0x00 -> 0xFF)
+ */
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const output = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    output[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) {
+      i++;
+    }
+  }
+  return output.subarray(0, length);
+}
+
+/**
+ * Finds the end of a null-terminated string, respecting 2-byte terminators for UTF-16
+ */
+function findTerminator(bytes: Uint8Array, offset: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+}
+
+function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  // UTF-16 with a big-endian byte order mark
+  if (encoding === 1 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return decodeText(bytes.subarray(2), 'utf-16be');
+  }
+  return decodeText(bytes, ID3_TEXT_ENCODINGS[encoding] || 'iso-8859-1');
+}
+
+function readId3TextFrame(frame: Uint8Array): string | undefined {
+  if (!frame.length) return undefined;
+  // v2.4 allows multiple null-separated values; the first one is enough here
+  const encoding = frame[0];
+  const end = findTerminator(frame, 1, encoding);
+  return cleanText(decodeId3Text(frame.subarray(1, end), encoding));
+}
+
+function readId3Picture(frame: Uint8Array, legacy: boolean): AudioPicture | null {
+  if (frame.length < 4) return null;
+
+  const encoding = frame[0];
+  let offset = 1;
+  let mimeType: string;
+
+  if (legacy) {
+    // ID3v2.2 PIC: three character image format
+    const format = readAscii(frame, 1, 3).toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const mimeEnd = findTerminator(frame, offset, 0);
+    mimeType = readAscii(frame, offset, mimeEnd - offset);
+    offset = mimeEnd + 1;
+  }
+
+  const type = frame[offset++];
+  const descriptionEnd = findTerminator(frame, offset, encoding);
+  const description = cleanText(decodeId3Text(frame.subarray(offset, descriptionEnd), encoding));
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+
+  const data = frame.slice(offset);
+  if (!data.length) return null;
+
+  return {
+    mimeType: mimeType && mimeType.includes('/') ? mimeType : detectImageMime(data),
+    type,
+    description,
+    data
+  };
+}
+
+/**
+ * Reads the ID3v2 tag at the start of a file
+ * @returns Parsed fields and the tag's total size, or null when there's no tag
+ */
+async function readId3v2(file: Blob): Promise<{ metadata: Partial<AudioMetadata>; size: number } | null> {
+  const header = await readBytes(file, 0, 10);
+  if (readAscii(header, 0, 3) !== 'ID3') return null;
+
+  const version = header[3];
+  const flags = header[5];
+  const tagSize = readSyncsafe(header, 6);
+  const totalSize = 10 + tagSize + (flags & 0x10 ? 10 : 0);
+  if (version < 2 || version > 4) return { metadata: {}, size: totalSize };
+
+  let tag = await readBytes(file, 10, 10 + tagSize);
+  const tagUnsynchronised = (flags & 0x80) !== 0;
+  if (tagUnsynchronised && version < 4) {
+    tag = removeUnsynchronisation(tag);
+  }
+
+  let offset = 0;
+  // Skip the extended header
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 4 ? readSyncsafe(tag, 0) : readUint32BE(tag, 0) + 4;
+  }
+
+  const legacy = version === 2;
+  const idLength = legacy ? 3 : 4;
+  const headerLength = legacy ? 6 : 10;
+  const text: Record<string, string | undefined> = {};
+  const pictures: AudioPicture[] = [];
+
+  while (offset + headerLength <= tag.length) {
+    const id = readAscii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+    const frameSize = legacy
+      ? readUint24BE(tag, offset + 3)
+      : version === 4 ? readSyncsafe(tag, offset + 4) : readUint32BE(tag, offset + 4);
+    const formatFlags = legacy ? 0 : tag[offset + 9];
+    offset += headerLength;
+
+    if (frameSize <= 0 || offset + frameSize > tag.length) break;
+
+    let frame = tag.subarray(offset, offset + frameSize);
+    offset += frameSize;
+
+    if (version === 4) {
+      // Compressed or encrypted frames can't be read without extra codecs
+      if (formatFlags & 0x0c) continue;
+      if (formatFlags & 0x01) frame = frame.subarray(4); // Data length indicator
+      if (formatFlags & 0x02 || tagUnsynchronised) frame = removeUnsynchronisation(frame);
+    } else if (version === 3 && formatFlags & 0xc0) {
+      continue;
+    }
+
+    if (id === 'APIC' || id === 'PIC') {
+      const picture = readId3Picture(frame, legacy);
+      if (picture) pictures.push(picture);
+    } else if (id[0] === 'T') {
+      text[id] = readId3TextFrame(frame);
+    }
+  }
+
+  const pick = (...ids: string[]) => ids.map(id => text[id]).find(Boolean);
+  const track = parseTrack(pick('TRCK', 'TRK'));
+  const lengthMs = parseLeadingNumber(pick('TLEN', 'TLE'));
+
+  return {
+    size: totalSize,
+    metadata: {
+      title: pick('TIT2', 'TT2'),
+      artist: pick('TPE1', 'TP1', 'TPE2', 'TP2'),
+      album: pick('TALB', 'TAL'),
+      year: parseLeadingNumber(pick('TDRC', 'TYER', 'TYE', 'TDOR', 'TORY')),
+      ...track,
+      duration: lengthMs ? lengthMs / 1000 : undefined,
+      pictures
+    }
+  };
+}
+
+// ID3v1
+async function readId3v1(file: Blob): Promise<Partial<AudioMetadata> | null> {
+  if (file.size < 128) return null;
+
+  const tag = await readBytes(file, file.size - 128, file.size);
+  if (readAscii(tag, 0, 3) !== 'TAG') return null;
+
+  const field = (offset: number, length: number) =>
+    cleanText(decodeText(tag.subarray(offset, offset + length), 'iso-8859-1'));
+
+  // ID3v1.1 stores the track number in the last byte of the comment
+  const trackNumber = tag[125] === 0 && tag[126] !== 0 ? tag[126] : undefined;
+
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseLeadingNumber(field(93, 4)),
+    trackNumber
+  };
+}
+
+// MPEG audio (Xing / Info / VBRI headers for duration)
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+};
+
+const MPEG1_LAYER3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/**
+ * Estimates MP3 duration from the first frame's VBR header, or from the
+ * bitrate for CBR files
+ */
+async function readMpegDuration(file: Blob, audioStart: number): Promise<number | undefined> {
+  const bytes = await readBytes(file, audioStart, audioStart + 16 * 1024);
+
+  for (let i = 0; i + 4 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) continue;
+
+    const versionBits = (bytes[i + 1] >> 3) & 0x03;
+    const layerBits = (bytes[i + 1] >> 1) & 0x03;
+    const bitrateIndex = bytes[i + 2] >> 4;
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x03;
+    const channelMode = bytes[i + 3] >> 6;
+
+    // Only Layer III is common enough to matter here
+    if (versionBits === 1 || layerBits !== 1 || sampleRateIndex === 3 || bitrateIndex === 15) continue;
+
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+    const isMpeg1 = versionBits === 3;
+    const samplesPerFrame = isMpeg1 ? 1152 : 576;
+    const mono = channelMode === 3;
+    const sideInfoLength = isMpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+
+    const xingOffset = i + 4 + sideInfoLength;
+    const xingId = readAscii(bytes, xingOffset, 4);
+    if ((xingId === 'Xing' || xingId === 'Info') && bytes[xingOffset + 7] & 0x01) {
+      const frames = readUint32BE(bytes, xingOffset + 8);
+      return (frames * samplesPerFrame) / sampleRate;
+    }
+
+    const vbriOffset = i + 4 + 32;
+    if (readAscii(bytes, vbriOffset, 4) === 'VBRI') {
+      const frames = readUint32BE(bytes, vbriOffset + 14);
+      return (frames * samplesPerFrame) / sampleRate;
+    }
+
+    const bitrate = (isMpeg1 ? MPEG1_LAYER3_BITRATES : MPEG2_LAYER3_BITRATES)[bitrateIndex] * 1000;
+    if (!bitrate) return undefined;
+    return ((file.size - audioStart) * 8) / bitrate;
+  }
+
+  return undefined;
+}
+
+// Vorbis comments (FLAC and Ogg)
+
+/**
+ * Parses a FLAC METADATA_BLOCK_PICTURE payload
+ */
+function readFlacPicture(block: Uint8Array): AudioPicture | null {
+  if (block.length < 32) return null;
+
+  let offset = 0;
+  const type = readUint32BE(block, offset);
+  offset += 4;
+  const mimeLength = readUint32BE(block, offset);
+  offset += 4;
+  const mimeType = readAscii(block, offset, mimeLength);
+  offset += mimeLength;
+  const descriptionLength = readUint32BE(block, offset);
+  offset += 4;
+  const description = cleanText(decodeText(block.subarray(offset, offset + descriptionLength), 'utf-8'));
+  offset += descriptionLength + 16; // width, height, depth, colors
+  const dataLength = readUint32BE(block, offset);
+  offset += 4;
+
+  const data = block.slice(offset, offset + dataLength);
+  if (!data.length) return null;
+
+  return { mimeType: mimeType || detectImageMime(data), type, description, data };
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Parses a Vorbis comment block (vendor string followed by KEY=value pairs)
+ */
+function readVorbisComments(bytes: Uint8Array): Partial<AudioMetadata> {
+  let offset = 0;
+  const vendorLength = readUint32LE(bytes, offset);
+  offset += 4 + vendorLength;
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+
+  const fields: Record<string, string> = {};
+  const pictures: AudioPicture[] = [];
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    offset += 4;
+    const comment = decodeText(bytes.subarray(offset, offset + length), 'utf-8');
+    offset += length;
+
+    const separator = comment.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = comment.substring(0, separator).toUpperCase();
+    const value = comment.substring(separator + 1);
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = readFlacPicture(decodeBase64(value));
+        if (picture) pictures.push(picture);
+      } catch {
+        // Ignore malformed base64
+      }
+    } else if (!(key in fields)) {
+      fields[key] = value;
+    }
+  }
+
+  const track = parseTrack(fields.TRACKNUMBER);
+
+  return {
+    title: cleanText(fields.TITLE),
+    artist: cleanText(fields.ARTIST || fields.ALBUMARTIST),
+    album: cleanText(fields.ALBUM),
+    year: parseLeadingNumber(fields.DATE || fields.YEAR),
+    trackNumber: track.trackNumber,
+    trackTotal: track.trackTotal ?? parseLeadingNumber(fields.TRACKTOTAL || fields.TOTALTRACKS),
+    pictures
+  };
+}
+
+/**
+ * Reads FLAC metadata blocks: STREAMINFO, VORBIS_COMMENT and PICTURE
+ */
+async function readFlac(file: Blob, start: number): Promise<Partial<AudioMetadata> | null> {
+  const magic = await readBytes(file, start, start + 4);
+  if (readAscii(magic, 0, 4) !== 'fLaC') return null;
+
+  const metadata: Partial<AudioMetadata> = { pictures: [] };
+  let offset = start + 4;
+  let isLast = false;
+
+  while (!isLast && offset + 4 <= file.size) {
+    const blockHeader = await readBytes(file, offset, offset + 4);
+    isLast = (blockHeader[0] & 0x80) !== 0;
+    const blockType = blockHeader[0] & 0x7f;
+    const blockLength = readUint24BE(blockHeader, 1);
+    offset += 4;
+
+    if (blockType === 0) {
+      const info = await readBytes(file, offset, offset + blockLength);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + readUint32BE(info, 14);
+      if (sampleRate && totalSamples) {
+        metadata.duration = totalSamples / sampleRate;
+      }
+    } else if (blockType === 4) {
+      const comments = readVorbisComments(await readBytes(file, offset, offset + blockLength));
+      Object.assign(metadata, { ...comments, pictures: [...metadata.pictures!, ...comments.pictures!] });
+    } else if (blockType === 6) {
+      const picture = readFlacPicture(await readBytes(file, offset, offset + blockLength));
+      if (picture) metadata.pictures!.push(picture);
+    } else if (blockType === 127) {
+      break; // Invalid block type
+    }
+
+    offset += blockLength;
+  }
+
+  return metadata;
+}
+
+/**
+ * Reassembles the first few packets of an Ogg logical stream
+ */
+function readOggPackets(bytes: Uint8Array, maxPackets: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && packets.length < maxPackets) {
+    if (readAscii(bytes, offset, 4) !== 'OggS') break;
+
+    const segmentCount = bytes[offset + 26];
+    const segmentTable = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+
+    for (let i = 0; i < segmentTable.length; i++) {
+      const segmentLength = segmentTable[i];
+      current.push(bytes.subarray(dataOffset, dataOffset + segmentLength));
+      dataOffset += segmentLength;
+
+      // A lacing value below 255 terminates the packet
+      if (segmentLength < 255) {
+        const length = current.reduce((sum, part) => sum + part.length, 0);
+        const packet = new Uint8Array(length);
+        let position = 0;
+        current.forEach(part => {
+          packet.set(part, position);
+          position += part.length;
+        });
+        packets.push(packet);
+        current = [];
+        if (packets.length >= maxPackets) break;
+      }
+    }
+
+    offset = dataOffset;
+  }
+
+  return packets;
+}
+
+/**
+ * Reads Vorbis or Opus comments from an Ogg file, plus the duration from
+ * the last page's granule position
+ */
+async function readOgg(file: Blob): Promise<Partial<AudioMetadata> | null> {
+  const magic = await readBytes(file, 0, 4);
+  if (readAscii(magic, 0, 4) !== 'OggS') return null;
+
+  // Comment headers with embedded cover art can span many pages
+  const head = await readBytes(file, 0, 4 * 1024 * 1024);
+  const [identification, comments] = readOggPackets(head, 2);
+  if (!identification || !comments) return { pictures: [] };
+
+  let sampleRate = 0;
+  let preSkip = 0;
+  let metadata: Partial<AudioMetadata> = { pictures: [] };
+
+  if (readAscii(identification, 1, 6) === 'vorbis') {
+    sampleRate = readUint32LE(identification, 12);
+    if (comments[0] === 3 && readAscii(comments, 1, 6) === 'vorbis') {
+      metadata = readVorbisComments(comments.subarray(7));
+    }
+  } else if (readAscii(identification, 0, 8) === 'OpusHead') {
+    // Opus granule positions always count 48kHz samples
+    sampleRate = 48000;
+    preSkip = identification[10] | (identification[11] << 8);
+    if (readAscii(comments, 0, 8) === 'OpusTags') {
+      metadata = readVorbisComments(comments.subarray(8));
+    }
+  } else if (identification[0] === 0x7f && readAscii(identification, 1, 4) === 'FLAC') {
+    // 0x7F "FLAC", version, header count, "fLaC", then a regular STREAMINFO block
+    const streamInfo = identification.subarray(17);
+    sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4);
+    metadata = readVorbisComments(comments.subarray(4));
+  }
+
+  // The last page's granule position is the total sample count
+  if (sampleRate) {
+    const tail = await readBytes(file, file.size - 64 * 1024, file.size);
+    for (let i = tail.length - 27; i >= 0; i--) {
+      if (tail[i] === 0x4f && readAscii(tail, i, 4) === 'OggS') {
+        const granule = readUint64LE(tail, i + 6);
+        if (granule > preSkip) {
+          metadata.duration = (granule - preSkip) / sampleRate;
+        }
+        break;
+      }
+    }
+  }
+
+  return metadata;
+}
+
+// MP4 / M4A (iTunes-style ilst atoms)
+interface Mp4Atom {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+function readMp4Atoms(bytes: Uint8Array, start: number, end: number): Mp4Atom[] {
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = readUint64BE(bytes, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    atoms.push({ type, start: offset, headerSize, size });
+    offset += size;
+  }
+
+  return atoms;
+}
+
+function findMp4Atom(bytes: Uint8Array, parent: Mp4Atom, type: string, skip = 0): Mp4Atom | undefined {
+  return readMp4Atoms(bytes, parent.start + parent.headerSize + skip, parent.start + parent.size)
+    .find(atom => atom.type === type);
+}
+
+/**
+ * Finds the top-level moov atom by walking atom headers, so large mdat
+ * atoms are never read
+ */
+async function findMoov(file: Blob): Promise<Uint8Array | null> {
+  let offset = 0;
+
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = readUint32BE(header, 0);
+    const type = readAscii(header, 4, 4);
+
+    if (size === 1) size = readUint64BE(header, 8);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      return readBytes(file, offset, offset + size);
+    }
+    offset += size;
+  }
+
+  return null;
+}
+
+async function readMp4(file: Blob): Promise<Partial<AudioMetadata> | null> {
+  const head = await readBytes(file, 0, 12);
+  if (readAscii(head, 4, 4) !== 'ftyp') return null;
+
+  const moovBytes = await findMoov(file);
+  if (!moovBytes) return { pictures: [] };
+
+  const moov: Mp4Atom = { type: 'moov', start: 0, headerSize: 8, size: moovBytes.length };
+  const metadata: Partial<AudioMetadata> = { pictures: [] };
+
+  // Duration from the movie header
+  const mvhd = findMp4Atom(moovBytes, moov, 'mvhd');
+  if (mvhd) {
+    const body = mvhd.start + mvhd.headerSize;
+    const version = moovBytes[body];
+    const timescale = readUint32BE(moovBytes, body + (version === 1 ? 20 : 12));
+    const duration = version === 1
+      ? readUint64BE(moovBytes, body + 24)
+      : readUint32BE(moovBytes, body + 16);
+    if (timescale) metadata.duration = duration / timescale;
+  }
+
+  const udta = findMp4Atom(moovBytes, moov, 'udta');
+  const meta = udta && findMp4Atom(moovBytes, udta, 'meta');
+  // meta is a full box: 4 bytes of version and flags precede its children
+  const ilst = meta && findMp4Atom(moovBytes, meta, 'ilst', 4);
+  if (!ilst) return metadata;
+
+  const text: Record<string, string | undefined> = {};
+
+  for (const item of readMp4Atoms(moovBytes, ilst.start + ilst.headerSize, ilst.start + ilst.size)) {
+    const dataAtoms = readMp4Atoms(moovBytes, item.start + item.headerSize, item.start + item.size)
+      .filter(atom => atom.type === 'data');
+
+    for (const data of dataAtoms) {
+      const payloadStart = data.start + data.headerSize + 8; // type indicator + locale
+      const payload = moovBytes.subarray(payloadStart, data.start + data.size);
+      const dataType = readUint24BE(moovBytes, data.start + data.headerSize + 1);
+
+      if (item.type === 'covr') {
+        const mimeType = dataType === 14 ? 'image/png' : dataType === 13 ? 'image/jpeg' : detectImageMime(payload);
+        metadata.pictures!.push({ mimeType, type: FRONT_COVER, data: payload.slice() });
+      } else if (item.type === 'trkn' && payload.length >= 6) {
+        metadata.trackNumber = (payload[2] << 8) | payload[3] || undefined;
+        metadata.trackTotal = (payload[4] << 8) | payload[5] || undefined;
+      } else if (dataType === 1) {
+        text[item.type] = cleanText(decodeText(payload, 'utf-8'));
+      }
+    }
+  }
+
+  metadata.title = text['©nam'];
+  metadata.artist = text['©ART'] || text['aART'];
+  metadata.album = text['©alb'];
+  metadata.year = parseLeadingNumber(text['©day']);
+
+  return metadata;
+}
+
+// Public API
+
+/**
+ * Reads tags and cover art from an audio file entirely in the browser.
+ * Supports ID3v2.2-2.4, ID3v1, FLAC and Ogg (Vorbis, Opus) comments and
+ * MP4 ilst atoms. Unknown or corrupt files yield empty metadata rather
+ * than throwing.
+ * @param file Audio file
+ * @returns Metadata merged from every tag format found
+ */
+export async function readAudioMetadata(file: Blob): Promise<AudioMetadata> {
+  const metadata: AudioMetadata = { formats: [], pictures: [] };
+
+  try {
+    const id3 = await readId3v2(file);
+    const audioStart = id3?.size ?? 0;
+    if (id3) mergeMetadata(metadata, id3.metadata, 'id3v2');
+
+    // FLAC files occasionally carry an ID3v2 tag in front of the stream marker
+    const flac = await readFlac(file, audioStart);
+    if (flac) {
+      mergeMetadata(metadata, flac, 'vorbis');
+      return metadata;
+    }
+
+    const ogg = await readOgg(file);
+    if (ogg) {
+      mergeMetadata(metadata, ogg, 'vorbis');
+      return metadata;
+    }
+
+    const mp4 = await readMp4(file);
+    if (mp4) {
+      mergeMetadata(metadata, mp4, 'mp4');
+      return metadata;
+    }
+
+    const id3v1 = await readId3v1(file);
+    if (id3v1) mergeMetadata(metadata, id3v1, 'id3v1');
+
+    if (metadata.duration === undefined) {
+      metadata.duration = await readMpegDuration(file, audioStart);
+    }
+  } catch (error) {
+    console.error('Could not read audio metadata:', error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Picks the picture to use as cover art, preferring the front cover
+ * @param metadata Metadata returned by readAudioMetadata
+ * @returns The cover picture, if any
+ */
+export function getCoverPicture(metadata: AudioMetadata): AudioPicture | undefined {
+  return metadata.pictures.find(picture => picture.type === FRONT_COVER) || metadata.pictures[0];
+}
+
+/**
+ * Creates an object URL for a picture. The caller must revoke it.
+ * @param picture Embedded picture
+ * @returns Object URL for use in an <img>
+ */
+export function createPictureUrl(picture: AudioPicture): string {
+  return URL.createObjectURL(new Blob([picture.data], { type: picture.mimeType }));
+}
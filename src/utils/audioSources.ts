@@ -0,0 +1,166 @@
+/**
+ * Kinds of input the analyser can be attached to
+ */
+export type AudioSourceKind = 'file' | 'microphone' | 'display';
+
+/**
+ * Live source kinds backed by a MediaStream
+ */
+export type LiveSourceKind = Exclude<AudioSourceKind, 'file'>;
+
+/**
+ * Capture options for microphone / line-in input
+ */
+export interface MicrophoneOptions {
+  deviceId?: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+/**
+ * Default microphone options. Processing is off by default because echo
+ * cancellation and noise suppression flatten music considerably.
+ */
+export const DEFAULT_MICROPHONE_OPTIONS: MicrophoneOptions = {
+  deviceId: undefined,
+  echoCancellation: false,
+  noiseSuppression: false
+};
+
+/**
+ * Creates an AudioContext, falling back to the prefixed constructor on older Safari
+ * @returns A new AudioContext
+ */
+export function createAudioContext(): AudioContext {
+  const AudioContextClass = window.AudioContext ||
+    (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  return new AudioContextClass();
+}
+
+/**
+ * Checks whether the browser can capture microphone input at all
+ * @returns True when getUserMedia is available
+ */
+export function isMicrophoneSupported(): boolean {
+  return typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices &&
+    typeof navigator.mediaDevices.getUserMedia === 'function';
+}
+
+/**
+ * Checks whether the browser can capture tab / system audio
+ * @returns True when getDisplayMedia is available
+ */
+export function isDisplayCaptureSupported(): boolean {
+  return typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices &&
+    typeof navigator.mediaDevices.getDisplayMedia === 'function';
+}
+
+/**
+ * Requests a microphone / line-in stream with the given options
+ * @param options Device and processing options
+ * @returns The captured media stream
+ */
+export function openMicrophoneStream(options: MicrophoneOptions): Promise<MediaStream> {
+  if (!isMicrophoneSupported()) {
+    return Promise.reject(new DOMException('Microphone input is not supported', 'NotSupportedError'));
+  }
+
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
+      echoCancellation: options.echoCancellation,
+      noiseSuppression: options.noiseSuppression,
+      autoGainControl: false
+    },
+    video: false
+  });
+}
+
+/**
+ * Asks the user to share a tab, window or screen together with its audio.
+ * Browsers require video to be requested as well, so the video track is
+ * kept alive but never used. Rejects with a NoAudioTrackError DOMException
+ * when the shared surface carries no audio (e.g. "Share tab audio" was unticked).
+ * @returns The captured media stream with at least one audio track
+ */
+export async function openDisplayAudioStream(): Promise<MediaStream> {
+  if (!isDisplayCaptureSupported()) {
+    throw new DOMException('Display capture is not supported', 'NotSupportedError');
+  }
+
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+
+  if (stream.getAudioTracks().length === 0) {
+    stopMediaStream(stream);
+    throw new DOMException('The shared surface has no audio track', 'NoAudioTrackError');
+  }
+
+  return stream;
+}
+
+/**
+ * Lists the available audio input devices. Labels are only populated
+ * once the user has granted microphone permission.
+ * @returns Array of audio input devices
+ */
+export async function listAudioInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!isMicrophoneSupported() || !navigator.mediaDevices.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * Stops every track of a media stream
+ * @param stream Stream to stop
+ */
+export function stopMediaStream(stream: MediaStream | null): void {
+  stream?.getTracks().forEach(track => track.stop());
+}
+
+/**
+ * Converts a getUserMedia / getDisplayMedia failure into a message suitable for the UI
+ * @param error Error thrown while opening the stream
+ * @param kind Which live source was being opened
+ * @returns Human readable error message
+ */
+export function describeMediaError(error: unknown, kind: LiveSourceKind = 'microphone'): string {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+
+  if (kind === 'display') {
+    switch (name) {
+      case 'NotAllowedError':
+        return 'Sharing was cancelled. Choose a tab or screen to capture its audio.';
+      case 'NoAudioTrackError':
+        return 'The shared surface has no audio. Share a browser tab and tick "Share tab audio", or share your entire screen with system audio.';
+      case 'NotSupportedError':
+        return 'Tab and system audio capture is not supported in this browser.';
+      default:
+        return 'Could not capture tab audio.';
+    }
+  }
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Microphone access was denied. Allow access in your browser settings and try again.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No matching audio input device was found.';
+    case 'NotReadableError':
+      return 'The audio input device is already in use by another application.';
+    case 'NotSupportedError':
+      return 'Live audio input is not supported in this browser.';
+    default:
+      return 'Could not start audio input.';
+  }
+}
@@ -0,0 +1,229 @@
+export type BeatBand = 'kick' | 'snare' | 'hihat';
+
+/**
+ * Frequency range, in Hz, that each drum band listens to
+ */
+export const BEAT_BANDS: Record<BeatBand, [number, number]> = {
+  kick: [40, 150],
+  snare: [150, 2500],
+  hihat: [5000, 15000]
+};
+
+const BAND_NAMES = Object.keys(BEAT_BANDS) as BeatBand[];
+
+// Seconds of flux history the adaptive threshold looks at
+const HISTORY_SECONDS = 1;
+// Onset when flux exceeds mean + THRESHOLD_DEVIATIONS standard deviations
+const THRESHOLD_DEVIATIONS = 1.5;
+// Floor so silence and steady tones never trigger
+const MIN_FLUX = 0.01;
+// Shortest gap between two onsets in the same band
+const MIN_ONSET_INTERVAL = 0.1;
+// How fast the per-band pulse envelope decays, in seconds
+const PULSE_DECAY = 0.15;
+// Beat periods are folded into this range (60-180 BPM)
+const MIN_BEAT_PERIOD = 60 / 180;
+const MAX_BEAT_PERIOD = 60 / 60;
+
+/**
+ * Onset state of one band for the current frame
+ */
+export interface BandState {
+  onset: boolean;
+  flux: number;
+  threshold: number;
+  // 1 on an onset, decaying towards 0 afterwards
+  pulse: number;
+}
+
+/**
+ * A detected onset
+ */
+export interface BeatEvent {
+  time: number;
+  band: BeatBand;
+  strength: number;
+}
+
+/**
+ * Rhythm information for the current frame, shared by all visualizers
+ */
+export interface BeatState {
+  time: number;
+  bands: Record<BeatBand, BandState>;
+  // Onsets detected this frame
+  events: BeatEvent[];
+  isBeat: boolean;
+  // 1 on a beat, decaying towards 0 afterwards
+  pulse: number;
+  // Position within the current beat (0 at the beat, approaching 1 just before the next)
+  phase: number;
+  // Estimated tempo, once a few beats have been seen
+  bpm: number | null;
+}
+
+const emptyBand: BandState = { onset: false, flux: 0, threshold: 0, pulse: 0 };
+
+export const EMPTY_BEAT_STATE: BeatState = {
+  time: 0,
+  bands: { kick: emptyBand, snare: emptyBand, hihat: emptyBand },
+  events: [],
+  isBeat: false,
+  pulse: 0,
+  phase: 0,
+  bpm: null
+};
+
+interface BandTracker {
+  startBin: number;
+  endBin: number;
+  history: number[];
+  lastOnset: number;
+}
+
+/**
+ * Folds a beat period into the supported tempo range
+ */
+function foldPeriod(period: number): number {
+  let folded = period;
+  while (folded < MIN_BEAT_PERIOD) folded *= 2;
+  while (folded > MAX_BEAT_PERIOD) folded /= 2;
+  return folded;
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Detects onsets with per-band spectral flux and an adaptive threshold, and
+ * follows the beat from kick (or, without kicks, snare) onsets
+ * @param sampleRate Sample rate of the analysed audio
+ * @param fftSize FFT size of the analyser
+ */
+export function createBeatDetector(sampleRate: number, fftSize: number) {
+  const binCount = fftSize / 2;
+  const binWidth = sampleRate / fftSize;
+  const previous = new Float32Array(binCount);
+  let hasPrevious = false;
+  let lastTime: number | null = null;
+
+  const trackers = {} as Record<BeatBand, BandTracker>;
+  BAND_NAMES.forEach(band => {
+    const [low, high] = BEAT_BANDS[band];
+    trackers[band] = {
+      startBin: Math.max(1, Math.floor(low / binWidth)),
+      endBin: Math.min(binCount, Math.ceil(high / binWidth)),
+      history: [],
+      lastOnset: -Infinity
+    };
+  });
+
+  const beatTimes: number[] = [];
+  let lastBeat = -Infinity;
+
+  return {
+    /**
+     * Processes one analyser frame
+     * @param frequencyData Byte frequency data
+     * @param time Time of the frame in seconds
+     * @returns Beat state for this frame
+     */
+    process(frequencyData: Uint8Array, time: number): BeatState {
+      const frameInterval = lastTime === null ? 1 / 60 : Math.max(1e-3, time - lastTime);
+      const historyLength = Math.max(8, Math.round(HISTORY_SECONDS / frameInterval));
+      lastTime = time;
+
+      const events: BeatEvent[] = [];
+      const bands = {} as Record<BeatBand, BandState>;
+
+      BAND_NAMES.forEach(band => {
+        const tracker = trackers[band];
+
+        // Positive spectral flux, normalised by band width
+        let flux = 0;
+        if (hasPrevious) {
+          for (let bin = tracker.startBin; bin < tracker.endBin; bin++) {
+            const diff = frequencyData[bin] / 255 - previous[bin];
+            if (diff > 0) flux += diff;
+          }
+          flux /= Math.max(1, tracker.endBin - tracker.startBin);
+        }
+
+        const { history } = tracker;
+        const mean = history.length ? history.reduce((sum, value) => sum + value, 0) / history.length : 0;
+        const variance = history.length
+          ? history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / history.length
+          : 0;
+        const threshold = Math.max(MIN_FLUX, mean + THRESHOLD_DEVIATIONS * Math.sqrt(variance));
+
+        const onset = flux > threshold && time - tracker.lastOnset >= MIN_ONSET_INTERVAL;
+        if (onset) {
+          tracker.lastOnset = time;
+          events.push({ time, band, strength: flux / threshold });
+        }
+
+        history.push(flux);
+        while (history.length > historyLength) history.shift();
+
+        bands[band] = {
+          onset,
+          flux,
+          threshold,
+          pulse: Math.exp(-(time - tracker.lastOnset) / PULSE_DECAY)
+        };
+      });
+
+      for (let bin = 0; bin < binCount; bin++) {
+        previous[bin] = frequencyData[bin] / 255;
+      }
+      hasPrevious = true;
+
+      // Kicks carry the beat; fall back to snares when there haven't been any lately
+      const kickActive = time - trackers.kick.lastOnset < MAX_BEAT_PERIOD * 2;
+      const isBeat = bands.kick.onset || (!kickActive && bands.snare.onset);
+
+      if (isBeat) {
+        beatTimes.push(time);
+        while (beatTimes.length > 9) beatTimes.shift();
+        lastBeat = time;
+      }
+
+      const intervals = beatTimes
+        .slice(1)
+        .map((beatTime, index) => beatTime - beatTimes[index])
+        .filter(interval => interval > 0 && interval < MAX_BEAT_PERIOD * 4);
+      const period = intervals.length >= 3 ? foldPeriod(median(intervals)) : null;
+      const sinceBeat = time - lastBeat;
+
+      return {
+        time,
+        bands,
+        events,
+        isBeat,
+        pulse: Number.isFinite(sinceBeat) ? Math.exp(-sinceBeat / PULSE_DECAY) : 0,
+        phase: period && Number.isFinite(sinceBeat) ? (sinceBeat / period) % 1 : 0,
+        bpm: period ? 60 / period : null
+      };
+    },
+
+    /**
+     * Forgets history, e.g. when the source changes
+     */
+    reset(): void {
+      previous.fill(0);
+      hasPrevious = false;
+      lastTime = null;
+      beatTimes.length = 0;
+      lastBeat = -Infinity;
+      BAND_NAMES.forEach(band => {
+        trackers[band].history = [];
+        trackers[band].lastOnset = -Infinity;
+      });
+    }
+  };
+}
+
+export type BeatDetector = ReturnType<typeof createBeatDetector>;
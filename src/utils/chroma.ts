@@ -0,0 +1,309 @@
+import { fft, createBlackmanWindow, DEFAULT_SPECTRUM_OPTIONS } from '@/utils/fft';
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles, starting at the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Partials outside this range say little about harmony
+const MIN_CHROMA_HZ = 65;
+const MAX_CHROMA_HZ = 5000;
+// Peaks quieter than this, relative to the loudest in the frame, are ignored
+const PEAK_FLOOR_DB = -50;
+// How fast the live chroma follows the music, and how long the live key remembers
+const CHROMA_SMOOTHING = 0.8;
+const KEY_MEMORY_SECONDS = 10;
+
+// Whole-file analysis resolves semitones down to ~100Hz
+const FILE_FFT_SIZE = 8192;
+const FILE_HOP_SIZE = 4096;
+
+export type KeyMode = 'major' | 'minor';
+
+/**
+ * Estimated key
+ */
+export interface KeyEstimate {
+  // Pitch class of the tonic, 0 = C
+  tonic: number;
+  mode: KeyMode;
+  name: string;
+  // Correlation with the key's profile, -1 to 1
+  correlation: number;
+}
+
+/**
+ * Harmonic content of the current frame
+ */
+export interface ChromaState {
+  // Energy per pitch class, 0 = C, normalised so the strongest is 1
+  chroma: Float32Array;
+  // Deviation of the tuning reference from A4 = 440Hz, in cents
+  tuning: number;
+  // Key of the last few seconds, once there has been enough to go on
+  key: KeyEstimate | null;
+}
+
+/**
+ * Whole-file harmonic analysis
+ */
+export interface KeyAnalysis {
+  key: KeyEstimate | null;
+  tuning: number;
+  // Average chroma over the file, normalised so the strongest is 1
+  chroma: number[];
+}
+
+export const EMPTY_CHROMA_STATE: ChromaState = {
+  chroma: new Float32Array(12),
+  tuning: 0,
+  key: null
+};
+
+/**
+ * Accumulates the tuning deviation of spectral peaks as a circular mean, since
+ * a deviation of +49 cents is closer to -49 than to 0
+ */
+interface TuningAccumulator {
+  cos: number;
+  sin: number;
+}
+
+/**
+ * Finds spectral peaks and refines their pitch by parabolic interpolation
+ * @param decibels Spectrum in dB
+ * @param binWidth Width of one bin in Hz
+ * @param onPeak Called with each peak's pitch as a fractional MIDI note, and
+ *   its amplitude relative to the loudest peak
+ */
+function findPeaks(
+  decibels: Float32Array,
+  binWidth: number,
+  onPeak: (midi: number, weight: number) => void
+): void {
+  // Below a couple of bins, neighbouring semitones can't be told apart
+  const startBin = Math.max(2, Math.ceil(MIN_CHROMA_HZ / binWidth));
+  const endBin = Math.min(decibels.length - 1, Math.floor(MAX_CHROMA_HZ / binWidth));
+
+  let loudest = -Infinity;
+  for (let bin = startBin; bin < endBin; bin++) {
+    if (decibels[bin] > loudest) loudest = decibels[bin];
+  }
+  const floor = loudest + PEAK_FLOOR_DB;
+
+  for (let bin = startBin; bin < endBin; bin++) {
+    const value = decibels[bin];
+    if (value <= floor || value < decibels[bin - 1] || value <= decibels[bin + 1]) continue;
+
+    const left = decibels[bin - 1];
+    const right = decibels[bin + 1];
+    const denominator = left - 2 * value + right;
+    const offset = denominator < 0 ? (0.5 * (left - right)) / denominator : 0;
+    const frequency = (bin + offset) * binWidth;
+
+    onPeak(69 + 12 * Math.log2(frequency / 440), 10 ** ((value - loudest) / 20));
+  }
+}
+
+function accumulateTuning(accumulator: TuningAccumulator, midi: number, weight: number): void {
+  const deviation = midi - Math.round(midi);
+  accumulator.cos += weight * Math.cos(deviation * Math.PI * 2);
+  accumulator.sin += weight * Math.sin(deviation * Math.PI * 2);
+}
+
+function pitchClassOf(midi: number, tuning: number): number {
+  return ((Math.round(midi - tuning / 100) % 12) + 12) % 12;
+}
+
+function tuningFromAccumulator({ cos, sin }: TuningAccumulator): number {
+  if (!cos && !sin) return 0;
+  return (Math.atan2(sin, cos) / (Math.PI * 2)) * 100;
+}
+
+function normalizeChroma(chroma: Float32Array): void {
+  const max = Math.max(...chroma);
+  if (max > 0) {
+    for (let i = 0; i < 12; i++) chroma[i] /= max;
+  }
+}
+
+function correlate(a: ArrayLike<number>, b: number[], rotation: number): number {
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < 12; i++) {
+    meanA += a[i] / 12;
+    meanB += b[i] / 12;
+  }
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < 12; i++) {
+    const da = a[(i + rotation) % 12] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+  return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * Picks the major or minor key whose Krumhansl-Kessler profile correlates best
+ * with a chroma vector
+ * @param chroma Energy per pitch class, 0 = C
+ * @returns Best key, or null for a flat (silent or atonal) chroma
+ */
+export function estimateKey(chroma: ArrayLike<number>): KeyEstimate | null {
+  let best: KeyEstimate | null = null;
+
+  for (let tonic = 0; tonic < 12; tonic++) {
+    (['major', 'minor'] as KeyMode[]).forEach(mode => {
+      const correlation = correlate(chroma, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, tonic);
+      if (correlation > 0 && (!best || correlation > best.correlation)) {
+        best = { tonic, mode, name: `${PITCH_CLASSES[tonic]} ${mode}`, correlation };
+      }
+    });
+  }
+
+  return best;
+}
+
+/**
+ * Folds analyser frames into a chromagram, following the tuning and the key
+ * of the last few seconds as it goes
+ * @param sampleRate Sample rate of the analysed audio
+ * @param fftSize FFT size of the analyser
+ * @param minDecibels Analyser's minDecibels, to undo the byte scaling
+ * @param maxDecibels Analyser's maxDecibels
+ */
+export function createChromagram(
+  sampleRate: number,
+  fftSize: number,
+  minDecibels = DEFAULT_SPECTRUM_OPTIONS.minDecibels,
+  maxDecibels = DEFAULT_SPECTRUM_OPTIONS.maxDecibels
+) {
+  const binWidth = sampleRate / fftSize;
+  const decibels = new Float32Array(fftSize / 2);
+  const frame = new Float32Array(12);
+  const smoothed = new Float32Array(12);
+  const longTerm = new Float32Array(12);
+  const tuning: TuningAccumulator = { cos: 0, sin: 0 };
+  let lastTime: number | null = null;
+
+  return {
+    /**
+     * Processes one analyser frame
+     * @param frequencyData Byte frequency data
+     * @param time Time of the frame in seconds
+     * @returns Chroma state for this frame
+     */
+    process(frequencyData: Uint8Array, time: number): ChromaState {
+      const elapsed = lastTime === null ? 0 : Math.max(0, time - lastTime);
+      lastTime = time;
+
+      for (let bin = 0; bin < decibels.length; bin++) {
+        decibels[bin] = minDecibels + (frequencyData[bin] / 255) * (maxDecibels - minDecibels);
+      }
+
+      // Tuning drifts slowly, so it shares the key's memory
+      const memory = Math.exp(-elapsed / KEY_MEMORY_SECONDS);
+      tuning.cos *= memory;
+      tuning.sin *= memory;
+
+      frame.fill(0);
+      const cents = tuningFromAccumulator(tuning);
+      findPeaks(decibels, binWidth, (midi, weight) => {
+        accumulateTuning(tuning, midi, weight);
+        frame[pitchClassOf(midi, cents)] += weight;
+      });
+
+      for (let i = 0; i < 12; i++) {
+        smoothed[i] = smoothed[i] * CHROMA_SMOOTHING + frame[i] * (1 - CHROMA_SMOOTHING);
+        longTerm[i] = longTerm[i] * memory + frame[i] * elapsed;
+      }
+
+      const chroma = smoothed.slice();
+      normalizeChroma(chroma);
+
+      return {
+        chroma,
+        tuning: tuningFromAccumulator(tuning),
+        key: longTerm.some(value => value > 0) ? estimateKey(longTerm) : null
+      };
+    },
+
+    /**
+     * Forgets history, e.g. when the source changes
+     */
+    reset(): void {
+      smoothed.fill(0);
+      longTerm.fill(0);
+      tuning.cos = 0;
+      tuning.sin = 0;
+      lastTime = null;
+    }
+  };
+}
+
+export type Chromagram = ReturnType<typeof createChromagram>;
+
+/**
+ * Estimates tuning and key of a whole track. Tuning is measured first, so
+ * the chroma of a slightly sharp or flat recording isn't smeared across
+ * neighbouring pitch classes.
+ * @param samples Mono samples
+ * @param sampleRate Sample rate of the samples
+ * @returns Key, tuning and average chroma
+ */
+export function analyzeKey(samples: Float32Array, sampleRate: number): KeyAnalysis {
+  const binWidth = sampleRate / FILE_FFT_SIZE;
+  const frameCount = Math.max(0, Math.floor((samples.length - FILE_FFT_SIZE) / FILE_HOP_SIZE) + 1);
+  const blackman = createBlackmanWindow(FILE_FFT_SIZE);
+  const real = new Float32Array(FILE_FFT_SIZE);
+  const imag = new Float32Array(FILE_FFT_SIZE);
+  const decibels = new Float32Array(FILE_FFT_SIZE / 2);
+  const accumulator: TuningAccumulator = { cos: 0, sin: 0 };
+  // Peaks of every frame, kept so the chroma can be folded once the tuning is known
+  const frames: Array<{ midi: number[]; weight: number[] }> = [];
+
+  for (let index = 0; index < frameCount; index++) {
+    const offset = index * FILE_HOP_SIZE;
+    for (let i = 0; i < FILE_FFT_SIZE; i++) {
+      real[i] = samples[offset + i] * blackman[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    for (let bin = 0; bin < decibels.length; bin++) {
+      decibels[bin] = 20 * Math.log10(Math.hypot(real[bin], imag[bin]) + 1e-10);
+    }
+
+    const peaks = { midi: [] as number[], weight: [] as number[] };
+    findPeaks(decibels, binWidth, (midi, weight) => {
+      accumulateTuning(accumulator, midi, weight);
+      peaks.midi.push(midi);
+      peaks.weight.push(weight);
+    });
+    frames.push(peaks);
+  }
+
+  const tuning = tuningFromAccumulator(accumulator);
+  const chroma = new Float32Array(12);
+
+  frames.forEach(({ midi, weight }) => {
+    // Every frame counts equally, so loud passages don't decide the key alone
+    const total = weight.reduce((sum, value) => sum + value, 0);
+    midi.forEach((note, i) => {
+      chroma[pitchClassOf(note, tuning)] += weight[i] / total;
+    });
+  });
+  normalizeChroma(chroma);
+
+  return {
+    key: estimateKey(chroma),
+    tuning: Math.round(tuning * 10) / 10,
+    chroma: Array.from(chroma)
+  };
+}
@@ -0,0 +1,160 @@
+export type CrossfadeCurve = 'linear' | 'equal-power';
+// 'gapless' starts the next track right as the current one ends
+export type TransitionMode = 'off' | 'gapless' | 'crossfade';
+
+export interface TransitionSettings {
+  mode: TransitionMode;
+  // Crossfade length in seconds
+  duration: number;
+  curve: CrossfadeCurve;
+  // Tracks of the same album follow on gaplessly even when crossfading
+  gaplessAlbums: boolean;
+}
+
+export const DEFAULT_TRANSITION_SETTINGS: TransitionSettings = {
+  mode: 'off',
+  duration: 6,
+  curve: 'equal-power',
+  gaplessAlbums: true
+};
+
+export const TRANSITION_MODES: Array<{ id: TransitionMode; label: string }> = [
+  { id: 'off', label: 'Off' },
+  { id: 'gapless', label: 'Gapless' },
+  { id: 'crossfade', label: 'Crossfade' }
+];
+
+export const CROSSFADE_CURVES: Array<{ id: CrossfadeCurve; label: string }> = [
+  { id: 'equal-power', label: 'Equal power' },
+  { id: 'linear', label: 'Linear' }
+];
+
+export const MIN_CROSSFADE = 1;
+export const MAX_CROSSFADE = 12;
+// A gapless change is a very short fade, which hides the click of cutting
+// one track off and the few milliseconds a media element takes to start
+export const GAPLESS_FADE = 0.05;
+
+const STORAGE_KEY = 'harmonic-transitions';
+
+// Points in the gain curves handed to setValueCurveAtTime
+const CURVE_POINTS = 64;
+// How much of the held spectrum is left after each frame of visual blending
+const BLEND_FALLOFF = 0.94;
+
+/**
+ * Gains of the outgoing and incoming decks part way through a crossfade
+ * @param progress 0 at the start of the fade, 1 at the end
+ * @param curve Shape of the fade; equal power keeps the loudness steady
+ * for unrelated material, linear keeps the amplitude steady
+ */
+export function getCrossfadeGains(progress: number, curve: CrossfadeCurve): { outgoing: number; incoming: number } {
+  const p = Math.max(0, Math.min(1, progress));
+  if (curve === 'linear') {
+    return { outgoing: 1 - p, incoming: p };
+  }
+  return { outgoing: Math.cos((p * Math.PI) / 2), incoming: Math.sin((p * Math.PI) / 2) };
+}
+
+/**
+ * Gain curves of both decks over a whole crossfade
+ */
+export function createCrossfadeCurves(curve: CrossfadeCurve): { outgoing: Float32Array; incoming: Float32Array } {
+  const outgoing = new Float32Array(CURVE_POINTS);
+  const incoming = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const gains = getCrossfadeGains(i / (CURVE_POINTS - 1), curve);
+    outgoing[i] = gains.outgoing;
+    incoming[i] = gains.incoming;
+  }
+  return { outgoing, incoming };
+}
+
+/**
+ * How long the change from one track to the next takes
+ * @param settings Transition settings
+ * @param sameAlbum Whether both tracks are from the same album
+ * @returns Fade length in seconds, or null when the next track should just
+ * start after the current one ends
+ */
+export function getTransitionLength(settings: TransitionSettings, sameAlbum: boolean): number | null {
+  if (settings.mode === 'off') return null;
+  if (settings.mode === 'gapless') return GAPLESS_FADE;
+  if (settings.gaplessAlbums && sameAlbum) return GAPLESS_FADE;
+  return Math.max(MIN_CROSSFADE, Math.min(MAX_CROSSFADE, settings.duration));
+}
+
+/**
+ * Smooths the spectrum over track changes. While a blend is running, each
+ * bin falls from its last level instead of dropping straight to silence, so
+ * the visualizer eases from one track into the next.
+ */
+export function createVisualBlend() {
+  let held: Uint8Array | null = null;
+  let blendUntil = -Infinity;
+
+  return {
+    /**
+     * Blends until the given time
+     * @param until Context time in seconds
+     */
+    hold(until: number): void {
+      blendUntil = Math.max(blendUntil, until);
+    },
+
+    /**
+     * Blends one frame in place
+     * @param frequencyData Byte spectrum of the frame
+     * @param time Context time of the frame
+     */
+    process(frequencyData: Uint8Array, time: number): void {
+      if (!held || held.length !== frequencyData.length) {
+        held = new Uint8Array(frequencyData.length);
+      }
+      if (time < blendUntil) {
+        for (let i = 0; i < frequencyData.length; i++) {
+          const falling = held[i] * BLEND_FALLOFF;
+          if (falling > frequencyData[i]) frequencyData[i] = falling;
+        }
+      }
+      held.set(frequencyData);
+    }
+  };
+}
+
+export type VisualBlend = ReturnType<typeof createVisualBlend>;
+
+/**
+ * Reads the saved transition settings, falling back to the defaults for
+ * anything missing or invalid
+ */
+export function loadTransitionSettings(): TransitionSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    if (typeof stored !== 'object' || stored === null) return DEFAULT_TRANSITION_SETTINGS;
+    return {
+      mode: TRANSITION_MODES.some(mode => mode.id === stored.mode) ? stored.mode : DEFAULT_TRANSITION_SETTINGS.mode,
+      duration: typeof stored.duration === 'number' && Number.isFinite(stored.duration)
+        ? Math.max(MIN_CROSSFADE, Math.min(MAX_CROSSFADE, stored.duration))
+        : DEFAULT_TRANSITION_SETTINGS.duration,
+      curve: CROSSFADE_CURVES.some(curve => curve.id === stored.curve) ? stored.curve : DEFAULT_TRANSITION_SETTINGS.curve,
+      gaplessAlbums: typeof stored.gaplessAlbums === 'boolean'
+        ? stored.gaplessAlbums
+        : DEFAULT_TRANSITION_SETTINGS.gaplessAlbums
+    };
+  } catch (error) {
+    console.error('Could not load transition settings:', error);
+    return DEFAULT_TRANSITION_SETTINGS;
+  }
+}
+
+/**
+ * Saves the transition settings in this browser
+ */
+export function saveTransitionSettings(settings: TransitionSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Could not save transition settings:', error);
+  }
+}
@@ -0,0 +1,244 @@
+import { type ThemeBackground, type ThemePalette, defaultBackground } from '@/utils/visualizerHelpers';
+import { downloadBlob } from '@/utils/download';
+
+/**
+ * A user-defined theme, saved in this browser
+ */
+export interface CustomTheme extends ThemePalette {
+  id: string;
+}
+
+/**
+ * An RGB color with alpha (r, g, b 0-255, a 0-1)
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const THEME_FILE_VERSION = 1;
+const STORAGE_KEY = 'harmonic-custom-themes';
+const GRADIENT_STOPS = 3;
+
+let themeCounter = 0;
+
+/**
+ * Parses a hex, rgb() or rgba() color string
+ * @param color CSS color string
+ * @returns Color components, or null if the format isn't supported
+ */
+export function parseColor(color: string): RgbaColor | null {
+  const value = color.trim();
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3
+      ? hex[1].split('').map(digit => digit + digit).join('')
+      : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: 1
+    };
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*(\d*\.?\d+)\s*)?\)$/i);
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map(Number);
+    const a = rgb[4] === undefined ? 1 : Number(rgb[4]);
+    if ([r, g, b].some(channel => channel > 255) || a > 1) return null;
+    return { r, g, b, a };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a color the way the draw functions expect theme colors
+ * @param color Color components
+ * @returns Color as `rgba(r, g, b, a)`
+ */
+export function toRgbaString({ r, g, b, a }: RgbaColor): string {
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(a * 100) / 100})`;
+}
+
+/**
+ * Formats a color as #rrggbb, dropping alpha (for <input type="color">)
+ * @param color Color components
+ * @returns Hex color
+ */
+export function toHexString({ r, g, b }: RgbaColor): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Validates and normalizes one color field
+ */
+function readColor(value: unknown, field: string, format: 'rgba' | 'hex'): string {
+  const color = typeof value === 'string' ? parseColor(value) : null;
+  if (!color) {
+    throw new Error(`"${field}" must be a hex, rgb() or rgba() color`);
+  }
+  return format === 'rgba' ? toRgbaString(color) : toHexString(color);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates theme data, e.g. from an imported file, and normalizes its colors
+ * @param data Parsed JSON
+ * @returns The theme palette
+ * @throws Error describing the first invalid field
+ */
+export function validateTheme(data: unknown): ThemePalette {
+  if (!isRecord(data)) {
+    throw new Error('A theme must be a JSON object');
+  }
+
+  if (data.version !== undefined && data.version !== THEME_FILE_VERSION) {
+    throw new Error(`Unsupported theme version ${String(data.version)}`);
+  }
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) {
+    throw new Error('"name" must be a non-empty string');
+  }
+
+  if (!Array.isArray(data.gradient) || data.gradient.length !== GRADIENT_STOPS) {
+    throw new Error(`"gradient" must be a list of ${GRADIENT_STOPS} colors`);
+  }
+
+  const theme: ThemePalette = {
+    name: name.slice(0, 40),
+    gradient: data.gradient.map((stop, index) => readColor(stop, `gradient[${index}]`, 'rgba')),
+    highlight: readColor(data.highlight, 'highlight', 'rgba'),
+    glow: readColor(data.glow, 'glow', 'rgba'),
+    isRainbow: data.isRainbow === true
+  };
+
+  if (data.rainbowHueRange !== undefined) {
+    const range = data.rainbowHueRange;
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      range.some(hue => typeof hue !== 'number' || hue < 0 || hue > 360)
+    ) {
+      throw new Error('"rainbowHueRange" must be two hues between 0 and 360');
+    }
+    theme.rainbowHueRange = [range[0], range[1]];
+  }
+
+  if (data.background !== undefined) {
+    const background = data.background;
+    if (!isRecord(background) || !Array.isArray(background.accents) || background.accents.length === 0) {
+      throw new Error('"background" must have gradientFrom, gradientTo and a list of accents');
+    }
+    theme.background = {
+      gradientFrom: readColor(background.gradientFrom, 'background.gradientFrom', 'hex'),
+      gradientTo: readColor(background.gradientTo, 'background.gradientTo', 'hex'),
+      accents: background.accents
+        .slice(0, defaultBackground.accents.length)
+        .map((accent, index) => readColor(accent, `background.accents[${index}]`, 'hex'))
+    };
+  }
+
+  return theme;
+}
+
+/**
+ * Parses a theme file
+ * @param text File contents
+ * @returns The theme palette
+ * @throws Error when the file isn't valid JSON or isn't a valid theme
+ */
+export function parseThemeJson(text: string): ThemePalette {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return validateTheme(data);
+}
+
+/**
+ * Serializes a theme for export
+ * @param theme Theme to export
+ * @returns Pretty-printed JSON
+ */
+export function serializeTheme(theme: ThemePalette): string {
+  const { name, gradient, highlight, glow, isRainbow, rainbowHueRange, background } = theme;
+  return JSON.stringify(
+    { version: THEME_FILE_VERSION, name, gradient, highlight, glow, isRainbow, rainbowHueRange, background },
+    null,
+    2
+  );
+}
+
+/**
+ * Offers a theme as a JSON file download
+ * @param theme Theme to export
+ */
+export function downloadTheme(theme: ThemePalette): void {
+  downloadBlob(
+    new Blob([serializeTheme(theme)], { type: 'application/json' }),
+    `${theme.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'theme'}.json`
+  );
+}
+
+/**
+ * Copies a palette into a new custom theme
+ * @param palette Colors to start from
+ * @param name Theme name
+ * @returns Custom theme with a fresh id
+ */
+export function createCustomTheme(palette: ThemePalette, name = palette.name): CustomTheme {
+  const background: ThemeBackground = palette.background || defaultBackground;
+  return {
+    ...palette,
+    id: `custom-${Date.now()}-${themeCounter++}`,
+    name,
+    gradient: [...palette.gradient],
+    background: { ...background, accents: [...background.accents] }
+  };
+}
+
+/**
+ * Reads saved custom themes, skipping any that no longer validate
+ * @returns Saved themes
+ */
+export function loadCustomThemes(): CustomTheme[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(entry => {
+      try {
+        if (!isRecord(entry) || typeof entry.id !== 'string') return [];
+        return [{ ...validateTheme(entry), id: entry.id }];
+      } catch {
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error('Could not load custom themes:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves custom themes in this browser
+ * @param themes Themes to save
+ */
+export function saveCustomThemes(themes: CustomTheme[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (error) {
+    console.error('Could not save custom themes:', error);
+  }
+}
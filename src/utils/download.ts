@@ -0,0 +1,24 @@
+/**
+ * Saves a blob through a temporary download link
+ * @param blob File contents
+ * @param filename Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Builds a timestamped file name for an export
+ * @param extension File extension without the dot
+ * @returns File name
+ */
+export function getExportFilename(extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `harmonic-wave-${stamp}.${extension}`;
+}
@@ -0,0 +1,285 @@
+export type EqBandType = 'highpass' | 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass';
+
+export const EQ_BAND_TYPES: Array<{ id: EqBandType; label: string }> = [
+  { id: 'highpass', label: 'High-pass' },
+  { id: 'lowshelf', label: 'Low shelf' },
+  { id: 'peaking', label: 'Peaking' },
+  { id: 'highshelf', label: 'High shelf' },
+  { id: 'lowpass', label: 'Low-pass' }
+];
+
+/**
+ * One filter of the equalizer
+ */
+export interface EqBand {
+  id: string;
+  type: EqBandType;
+  frequency: number;
+  // Boost or cut in dB; pass filters ignore it
+  gain: number;
+  q: number;
+  enabled: boolean;
+}
+
+/**
+ * A named set of band settings
+ */
+export interface EqPreset {
+  id: string;
+  name: string;
+  bands: EqBand[];
+}
+
+// Where analysers listen: the source as it is, or after the equalizer
+export type AnalysisPoint = 'pre' | 'post';
+
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+export const EQ_GAIN_RANGE = 18;
+export const EQ_MIN_Q = 0.1;
+export const EQ_MAX_Q = 18;
+
+const STORAGE_KEY = 'harmonic-eq-presets';
+
+let presetCounter = 0;
+
+/**
+ * Whether the band's type has a gain
+ */
+export function bandHasGain(type: EqBandType): boolean {
+  return type === 'lowshelf' || type === 'peaking' || type === 'highshelf';
+}
+
+export const DEFAULT_EQ_BANDS: EqBand[] = [
+  { id: 'highpass', type: 'highpass', frequency: 30, gain: 0, q: 0.71, enabled: false },
+  { id: 'low', type: 'lowshelf', frequency: 100, gain: 0, q: 0.71, enabled: true },
+  { id: 'low-mid', type: 'peaking', frequency: 300, gain: 0, q: 1, enabled: true },
+  { id: 'mid', type: 'peaking', frequency: 1000, gain: 0, q: 1, enabled: true },
+  { id: 'high-mid', type: 'peaking', frequency: 3500, gain: 0, q: 1, enabled: true },
+  { id: 'high', type: 'highshelf', frequency: 8000, gain: 0, q: 0.71, enabled: true },
+  { id: 'lowpass', type: 'lowpass', frequency: 18000, gain: 0, q: 0.71, enabled: false }
+];
+
+// Gains of the low, low-mid, mid, high-mid and high bands, in dB
+const withGains = (gains: [number, number, number, number, number]): EqBand[] =>
+  DEFAULT_EQ_BANDS.map(band => {
+    const index = ['low', 'low-mid', 'mid', 'high-mid', 'high'].indexOf(band.id);
+    return index === -1 ? { ...band } : { ...band, gain: gains[index] };
+  });
+
+export const BUILT_IN_EQ_PRESETS: EqPreset[] = [
+  { id: 'flat', name: 'Flat', bands: withGains([0, 0, 0, 0, 0]) },
+  { id: 'bass-boost', name: 'Bass boost', bands: withGains([6, 2, 0, 0, 0]) },
+  { id: 'loudness', name: 'Loudness', bands: withGains([5, 1, -2, 1, 4]) },
+  { id: 'vocal', name: 'Vocal presence', bands: withGains([-2, -1, 2, 4, 1]) },
+  { id: 'treble-cut', name: 'Treble cut', bands: withGains([0, 0, 0, -3, -6]) },
+  {
+    id: 'telephone',
+    name: 'Telephone',
+    bands: DEFAULT_EQ_BANDS.map(band => {
+      if (band.id === 'highpass') return { ...band, frequency: 300, enabled: true };
+      if (band.id === 'lowpass') return { ...band, frequency: 3400, enabled: true };
+      if (band.id === 'mid') return { ...band, gain: 4 };
+      return { ...band };
+    })
+  }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Keeps a band's values in the ranges the controls offer
+ */
+export function clampBand(band: EqBand): EqBand {
+  return {
+    ...band,
+    frequency: clamp(band.frequency, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY),
+    gain: clamp(band.gain, -EQ_GAIN_RANGE, EQ_GAIN_RANGE),
+    q: clamp(band.q, EQ_MIN_Q, EQ_MAX_Q)
+  };
+}
+
+/**
+ * Position of a frequency on the log axis, 0 at EQ_MIN_FREQUENCY and 1 at EQ_MAX_FREQUENCY
+ */
+export function frequencyToPosition(frequency: number): number {
+  return Math.log(frequency / EQ_MIN_FREQUENCY) / Math.log(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY);
+}
+
+export function positionToFrequency(position: number): number {
+  return EQ_MIN_FREQUENCY * (EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY) ** position;
+}
+
+/**
+ * Magnitude response of a set of bands, read from biquad filters set to them
+ * @param context Any audio context; the filters are never connected
+ * @param bands Bands of the chain; disabled ones are skipped
+ * @param frequencies Frequencies in Hz
+ * @returns Gain in dB at each frequency
+ */
+export function getEqResponse(
+  context: BaseAudioContext,
+  bands: EqBand[],
+  frequencies: Float32Array
+): Float32Array {
+  const response = new Float32Array(frequencies.length);
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+
+  bands.forEach(band => {
+    if (!band.enabled) return;
+    const { type, frequency, gain, q } = clampBand(band);
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.gain.value = bandHasGain(type) ? gain : 0;
+    filter.Q.value = q;
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let i = 0; i < frequencies.length; i++) {
+      response[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    }
+  });
+  return response;
+}
+
+/**
+ * Chain of biquad filters between an input and an output node. Disabled
+ * bands are left out of the chain, and bypassing connects input to output.
+ * @param context Context the nodes belong to
+ */
+export function createEqualizer(context: BaseAudioContext) {
+  const input = context.createGain();
+  const output = context.createGain();
+  let filters: Array<{ band: EqBand; node: BiquadFilterNode }> = [];
+  let bypassed = false;
+  // Nodes from input to output as currently connected. Only these links are
+  // undone when rewiring, so taps other code hangs off the input or output
+  // stay in place.
+  let wiring: AudioNode[] = [];
+
+  const unwire = () => {
+    wiring.slice(0, -1).forEach((node, i) => node.disconnect(wiring[i + 1]));
+    wiring = [];
+  };
+
+  const wire = () => {
+    unwire();
+    const chain = bypassed ? [] : filters.filter(({ band }) => band.enabled).map(({ node }) => node);
+    wiring = [input, ...chain, output];
+    wiring.slice(0, -1).forEach((node, i) => node.connect(wiring[i + 1]));
+  };
+
+  const apply = (node: BiquadFilterNode, band: EqBand) => {
+    const { type, frequency, gain, q } = clampBand(band);
+    node.type = type;
+    // Ramps avoid zipper noise while a handle is dragged
+    node.frequency.setTargetAtTime(frequency, context.currentTime, 0.01);
+    node.gain.setTargetAtTime(bandHasGain(type) ? gain : 0, context.currentTime, 0.01);
+    node.Q.setTargetAtTime(q, context.currentTime, 0.01);
+  };
+
+  wire();
+
+  return {
+    input: input as AudioNode,
+    output: output as AudioNode,
+
+    /**
+     * Updates the filters to match the bands, adding or removing nodes when
+     * the number of bands changes
+     */
+    setBands(bands: EqBand[]): void {
+      const rewire = bands.length !== filters.length
+        || bands.some((band, i) => band.enabled !== filters[i].band.enabled);
+
+      if (bands.length !== filters.length) {
+        unwire();
+        filters = bands.map(band => ({ band, node: context.createBiquadFilter() }));
+      }
+      filters = filters.map(({ node }, i) => {
+        apply(node, bands[i]);
+        return { band: bands[i], node };
+      });
+      if (rewire) wire();
+    },
+
+    setBypass(bypass: boolean): void {
+      if (bypass === bypassed) return;
+      bypassed = bypass;
+      wire();
+    },
+
+    dispose(): void {
+      input.disconnect();
+      output.disconnect();
+      filters.forEach(({ node }) => node.disconnect());
+      filters = [];
+      wiring = [];
+    }
+  };
+}
+
+export type Equalizer = ReturnType<typeof createEqualizer>;
+
+/**
+ * Copies bands into a new custom preset
+ * @returns Preset with a fresh id
+ */
+export function createEqPreset(name: string, bands: EqBand[]): EqPreset {
+  return {
+    id: `custom-eq-${Date.now()}-${presetCounter++}`,
+    name,
+    bands: bands.map(band => ({ ...band }))
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+function validateBand(value: unknown): EqBand | null {
+  if (!isRecord(value)) return null;
+  const { id, type, frequency, gain, q, enabled } = value;
+  if (
+    typeof id !== 'string' ||
+    !EQ_BAND_TYPES.some(option => option.id === type) ||
+    typeof frequency !== 'number' || typeof gain !== 'number' || typeof q !== 'number' ||
+    typeof enabled !== 'boolean'
+  ) {
+    return null;
+  }
+  return clampBand({ id, type: type as EqBandType, frequency, gain, q, enabled });
+}
+
+/**
+ * Reads saved custom presets, skipping any that no longer validate
+ * @returns Saved presets
+ */
+export function loadEqPresets(): EqPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(entry => {
+      if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string') return [];
+      if (!Array.isArray(entry.bands)) return [];
+      const bands = entry.bands.map(validateBand);
+      if (!bands.length || bands.some(band => !band)) return [];
+      return [{ id: entry.id, name: entry.name, bands: bands as EqBand[] }];
+    });
+  } catch (error) {
+    console.error('Could not load EQ presets:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves custom presets in this browser
+ * @param presets Presets to save
+ */
+export function saveEqPresets(presets: EqPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Could not save EQ presets:', error);
+  }
+}
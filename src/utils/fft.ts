@@ -0,0 +1,129 @@
+/**
+ * In-place radix-2 FFT
+ * @param real Real parts, length must be a power of two
+ * @param imag Imaginary parts, same length as real
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + half;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
+
+/**
+ * Builds a Blackman window, the window AnalyserNode applies
+ * @param size Window length
+ * @returns Window coefficients
+ */
+export function createBlackmanWindow(size: number): Float32Array {
+  const coefficients = new Float32Array(size);
+  const alpha = 0.16;
+  const a0 = (1 - alpha) / 2;
+  const a1 = 0.5;
+  const a2 = alpha / 2;
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    coefficients[i] = a0 - a1 * Math.cos(phase) + a2 * Math.cos(2 * phase);
+  }
+  return coefficients;
+}
+
+/**
+ * Settings matching the AnalyserNode properties of the same names
+ */
+export interface SpectrumOptions {
+  fftSize: number;
+  smoothingTimeConstant: number;
+  minDecibels: number;
+  maxDecibels: number;
+}
+
+export const DEFAULT_SPECTRUM_OPTIONS: SpectrumOptions = {
+  fftSize: 1024,
+  smoothingTimeConstant: 0.8,
+  minDecibels: -100,
+  maxDecibels: -30
+};
+
+/**
+ * Deterministic stand-in for AnalyserNode: produces the same byte frequency
+ * and time-domain data from decoded samples, so offline analysis doesn't
+ * depend on the browser or on how fast frames are requested
+ * @param options Analyser settings
+ */
+export function createSpectrumAnalyzer(options: SpectrumOptions = DEFAULT_SPECTRUM_OPTIONS) {
+  const { fftSize, smoothingTimeConstant, minDecibels, maxDecibels } = options;
+  const binCount = fftSize / 2;
+  const blackman = createBlackmanWindow(fftSize);
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const smoothed = new Float32Array(binCount);
+  const range = maxDecibels - minDecibels;
+
+  return {
+    frequencyBinCount: binCount,
+
+    /**
+     * Analyses the fftSize samples that end at endIndex
+     * @param samples Mono samples
+     * @param endIndex Index one past the newest sample
+     * @param frequencyData Output, frequencyBinCount bytes
+     * @param timeData Output, fftSize bytes
+     */
+    analyse(samples: Float32Array, endIndex: number, frequencyData: Uint8Array, timeData: Uint8Array): void {
+      const start = endIndex - fftSize;
+
+      for (let i = 0; i < fftSize; i++) {
+        const index = start + i;
+        const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+        timeData[i] = Math.max(0, Math.min(255, Math.floor(128 * (sample + 1))));
+        real[i] = sample * blackman[i];
+        imag[i] = 0;
+      }
+
+      fft(real, imag);
+
+      for (let k = 0; k < binCount; k++) {
+        const magnitude = Math.hypot(real[k], imag[k]) / fftSize;
+        smoothed[k] = smoothingTimeConstant * smoothed[k] + (1 - smoothingTimeConstant) * magnitude;
+        const decibels = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : -Infinity;
+        frequencyData[k] = Math.max(0, Math.min(255, Math.floor((255 / range) * (decibels - minDecibels))));
+      }
+    },
+
+    reset(): void {
+      smoothed.fill(0);
+    }
+  };
+}
+
+export type SpectrumAnalyzer = ReturnType<typeof createSpectrumAnalyzer>;
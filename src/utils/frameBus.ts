@@ -0,0 +1,74 @@
+import { type BeatState, EMPTY_BEAT_STATE } from '@/utils/beatDetection';
+import { type ChromaState, EMPTY_CHROMA_STATE } from '@/utils/chroma';
+import { type StereoState, EMPTY_STEREO_STATE } from '@/utils/stereoAnalysis';
+
+/**
+ * Everything the analysers produce for one animation frame. The arrays are
+ * the analyser's own buffers and are overwritten by the next frame, so copy
+ * anything that needs to outlive the callback or render loop reading it.
+ */
+export interface AnalyserFrame {
+  frequencyData: Uint8Array;
+  timeData: Uint8Array;
+  beat: BeatState;
+  chroma: ChromaState;
+  stereo: StereoState;
+  // Playback position of the file source, in seconds
+  playbackTime: number;
+  // Counts published frames, so readers can tell when there's a new one
+  sequence: number;
+}
+
+export type FrameListener = (frame: AnalyserFrame) => void;
+
+export const EMPTY_ANALYSER_FRAME: AnalyserFrame = {
+  frequencyData: new Uint8Array(),
+  timeData: new Uint8Array(),
+  beat: EMPTY_BEAT_STATE,
+  chroma: EMPTY_CHROMA_STATE,
+  stereo: EMPTY_STEREO_STATE,
+  playbackTime: 0,
+  sequence: 0
+};
+
+/**
+ * Hands analyser frames to whoever draws them without going through React
+ * state. The latest frame can be read at any time, e.g. from a render loop,
+ * and subscribers are called as each frame is published.
+ */
+export function createFrameBus() {
+  const frame: AnalyserFrame = { ...EMPTY_ANALYSER_FRAME };
+  const listeners = new Set<FrameListener>();
+
+  return {
+    /**
+     * The latest frame. The same object is updated in place by every publish.
+     */
+    getFrame(): AnalyserFrame {
+      return frame;
+    },
+
+    /**
+     * Updates the frame and notifies subscribers
+     * @param update Fields that changed since the previous frame
+     */
+    publish(update: Partial<Omit<AnalyserFrame, 'sequence'>>): void {
+      Object.assign(frame, update);
+      frame.sequence++;
+      listeners.forEach(listener => listener(frame));
+    },
+
+    /**
+     * Calls the listener on every published frame
+     * @returns Function that unsubscribes
+     */
+    subscribe(listener: FrameListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+export type FrameBus = ReturnType<typeof createFrameBus>;
@@ -0,0 +1,297 @@
+import { type BeatBand, type BeatEvent, type BeatState, BEAT_BANDS } from '@/utils/beatDetection';
+import { type ChromaState, type KeyMode, PITCH_CLASSES } from '@/utils/chroma';
+import { type ChannelLevel } from '@/utils/stereoAnalysis';
+import { type AnalyserFrame } from '@/utils/frameBus';
+
+// Ways of getting analyser frames from the main thread to a rendering worker
+export type FrameTransport = 'shared' | 'transfer';
+
+// Largest fftSize an AnalyserNode accepts
+export const MAX_RING_FFT_SIZE = 32768;
+
+// Triple buffering: the writer fills one slot while the reader copies another
+const SLOT_COUNT = 3;
+const HEADER_BYTES = 8;
+const SEQUENCE = 0;
+
+const BAND_NAMES = Object.keys(BEAT_BANDS) as BeatBand[];
+const KEY_MODES: KeyMode[] = ['major', 'minor'];
+// Onsets kept per frame; a frame rarely has more than one per band
+const MAX_EVENTS = 8;
+
+// Offsets into each slot's Float64 header
+const META_PLAYBACK_TIME = 0;
+const META_FREQUENCY_LENGTH = 1;
+const META_TIME_LENGTH = 2;
+const META_STEREO_FREQUENCY_LENGTH = 3;
+const META_STEREO_TIME_LENGTH = 4;
+const META_BEAT = 5;
+const META_BANDS = META_BEAT + 5;
+const META_EVENT_COUNT = META_BANDS + BAND_NAMES.length * 4;
+const META_EVENTS = META_EVENT_COUNT + 1;
+const META_CHROMA = META_EVENTS + MAX_EVENTS * 3;
+const META_TUNING = META_CHROMA + 12;
+const META_KEY = META_TUNING + 1;
+const META_LEVELS = META_KEY + 3;
+const META_LENGTH = META_LEVELS + 8;
+
+/**
+ * Whether frames can go through shared memory. SharedArrayBuffer is only
+ * available on cross-origin isolated pages.
+ */
+export function isSharedFrameRingSupported(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined'
+    && typeof Atomics !== 'undefined'
+    && (typeof crossOriginIsolated === 'undefined' || crossOriginIsolated);
+}
+
+const slotLayout = (maxFftSize: number) => {
+  const maxBins = maxFftSize / 2;
+  const metaBytes = META_LENGTH * Float64Array.BYTES_PER_ELEMENT;
+  const floatBytes = 2 * maxFftSize * Float32Array.BYTES_PER_ELEMENT;
+  const byteBytes = 4 * maxBins;
+  // Keep every slot 8-byte aligned for the Float64 header
+  const slotBytes = Math.ceil((metaBytes + floatBytes + byteBytes) / 8) * 8;
+  return { maxBins, metaBytes, floatBytes, slotBytes };
+};
+
+/**
+ * Ring of analyser frames in a SharedArrayBuffer. The main thread writes
+ * frames as the analysers produce them and the rendering worker reads the
+ * latest whenever it draws, without any messages per frame.
+ * @param source Buffer of an existing ring to attach to, or the capacity in
+ * fftSize of a new one
+ */
+export function createFrameRing(source: SharedArrayBuffer | number = MAX_RING_FFT_SIZE) {
+  const maxFftSize = typeof source === 'number'
+    ? source
+    : new Int32Array(source, 0, 2)[1];
+  const { maxBins, metaBytes, floatBytes, slotBytes } = slotLayout(maxFftSize);
+  const buffer = typeof source === 'number'
+    ? new SharedArrayBuffer(HEADER_BYTES + SLOT_COUNT * slotBytes)
+    : source;
+  const header = new Int32Array(buffer, 0, 2);
+  if (typeof source === 'number') header[1] = maxFftSize;
+
+  const slots = Array.from({ length: SLOT_COUNT }, (_, index) => {
+    const offset = HEADER_BYTES + index * slotBytes;
+    const floats = offset + metaBytes;
+    const bytes = floats + floatBytes;
+    return {
+      meta: new Float64Array(buffer, offset, META_LENGTH),
+      leftTime: new Float32Array(buffer, floats, maxFftSize),
+      rightTime: new Float32Array(buffer, floats + maxFftSize * 4, maxFftSize),
+      frequencyData: new Uint8Array(buffer, bytes, maxBins),
+      timeData: new Uint8Array(buffer, bytes + maxBins, maxBins),
+      leftFrequency: new Uint8Array(buffer, bytes + 2 * maxBins, maxBins),
+      rightFrequency: new Uint8Array(buffer, bytes + 3 * maxBins, maxBins)
+    };
+  });
+
+  let lastRead = 0;
+  // Reader-side copies, reused while the sizes stay the same
+  let frequencyData = new Uint8Array(0);
+  let timeData = new Uint8Array(0);
+  let leftFrequency = new Uint8Array(0);
+  let rightFrequency = new Uint8Array(0);
+  let leftTime = new Float32Array(0);
+  let rightTime = new Float32Array(0);
+  const chromaValues = new Float32Array(12);
+
+  return {
+    buffer,
+
+    /**
+     * Copies a frame into the next slot and publishes it
+     * @returns False when the frame is larger than the ring holds
+     */
+    write(frame: AnalyserFrame): boolean {
+      const { frequencyData, timeData, beat, chroma, stereo } = frame;
+      if (
+        frequencyData.length > maxBins || timeData.length > maxBins ||
+        stereo.leftFrequency.length > maxBins || stereo.leftTime.length > maxFftSize
+      ) {
+        return false;
+      }
+
+      const sequence = Atomics.load(header, SEQUENCE) + 1;
+      const slot = slots[sequence % SLOT_COUNT];
+      const { meta } = slot;
+
+      slot.frequencyData.set(frequencyData);
+      slot.timeData.set(timeData);
+      slot.leftFrequency.set(stereo.leftFrequency);
+      slot.rightFrequency.set(stereo.rightFrequency.subarray(0, stereo.leftFrequency.length));
+      slot.leftTime.set(stereo.leftTime);
+      slot.rightTime.set(stereo.rightTime.subarray(0, stereo.leftTime.length));
+
+      meta[META_PLAYBACK_TIME] = frame.playbackTime;
+      meta[META_FREQUENCY_LENGTH] = frequencyData.length;
+      meta[META_TIME_LENGTH] = timeData.length;
+      meta[META_STEREO_FREQUENCY_LENGTH] = stereo.leftFrequency.length;
+      meta[META_STEREO_TIME_LENGTH] = stereo.leftTime.length;
+
+      meta[META_BEAT] = beat.time;
+      meta[META_BEAT + 1] = beat.isBeat ? 1 : 0;
+      meta[META_BEAT + 2] = beat.pulse;
+      meta[META_BEAT + 3] = beat.phase;
+      meta[META_BEAT + 4] = beat.bpm ?? NaN;
+      BAND_NAMES.forEach((name, index) => {
+        const band = beat.bands[name];
+        const at = META_BANDS + index * 4;
+        meta[at] = band.onset ? 1 : 0;
+        meta[at + 1] = band.flux;
+        meta[at + 2] = band.threshold;
+        meta[at + 3] = band.pulse;
+      });
+      const eventCount = Math.min(beat.events.length, MAX_EVENTS);
+      meta[META_EVENT_COUNT] = eventCount;
+      for (let i = 0; i < eventCount; i++) {
+        const event = beat.events[i];
+        const at = META_EVENTS + i * 3;
+        meta[at] = event.time;
+        meta[at + 1] = BAND_NAMES.indexOf(event.band);
+        meta[at + 2] = event.strength;
+      }
+
+      meta.set(chroma.chroma.subarray(0, 12), META_CHROMA);
+      meta[META_TUNING] = chroma.tuning;
+      meta[META_KEY] = chroma.key ? chroma.key.tonic : -1;
+      meta[META_KEY + 1] = chroma.key ? KEY_MODES.indexOf(chroma.key.mode) : 0;
+      meta[META_KEY + 2] = chroma.key ? chroma.key.correlation : 0;
+
+      const { left, right, correlation, width } = stereo.levels;
+      meta[META_LEVELS] = left.rms;
+      meta[META_LEVELS + 1] = left.peak;
+      meta[META_LEVELS + 2] = left.heldPeak;
+      meta[META_LEVELS + 3] = right.rms;
+      meta[META_LEVELS + 4] = right.peak;
+      meta[META_LEVELS + 5] = right.heldPeak;
+      meta[META_LEVELS + 6] = correlation;
+      meta[META_LEVELS + 7] = width;
+
+      Atomics.store(header, SEQUENCE, sequence);
+      return true;
+    },
+
+    /**
+     * Copies the latest frame into the target. The target's arrays belong to
+     * the ring and are overwritten by the next read.
+     * @returns False when there's no new frame, or it was overwritten while
+     * being copied
+     */
+    read(target: AnalyserFrame): boolean {
+      const sequence = Atomics.load(header, SEQUENCE);
+      if (sequence === lastRead) return false;
+
+      const slot = slots[sequence % SLOT_COUNT];
+      const { meta } = slot;
+      const frequencyLength = meta[META_FREQUENCY_LENGTH];
+      const timeLength = meta[META_TIME_LENGTH];
+      const stereoFrequencyLength = meta[META_STEREO_FREQUENCY_LENGTH];
+      const stereoTimeLength = meta[META_STEREO_TIME_LENGTH];
+
+      const copyBytes = (from: Uint8Array, to: Uint8Array, length: number) => {
+        const result = to.length === length ? to : new Uint8Array(length);
+        result.set(from.subarray(0, length));
+        return result;
+      };
+      const copyFloats = (from: Float32Array, to: Float32Array, length: number) => {
+        const result = to.length === length ? to : new Float32Array(length);
+        result.set(from.subarray(0, length));
+        return result;
+      };
+
+      frequencyData = copyBytes(slot.frequencyData, frequencyData, frequencyLength);
+      timeData = copyBytes(slot.timeData, timeData, timeLength);
+      leftFrequency = copyBytes(slot.leftFrequency, leftFrequency, stereoFrequencyLength);
+      rightFrequency = copyBytes(slot.rightFrequency, rightFrequency, stereoFrequencyLength);
+      leftTime = copyFloats(slot.leftTime, leftTime, stereoTimeLength);
+      rightTime = copyFloats(slot.rightTime, rightTime, stereoTimeLength);
+      chromaValues.set(meta.subarray(META_CHROMA, META_CHROMA + 12));
+
+      const bands = {} as BeatState['bands'];
+      BAND_NAMES.forEach((name, index) => {
+        const at = META_BANDS + index * 4;
+        bands[name] = { onset: meta[at] === 1, flux: meta[at + 1], threshold: meta[at + 2], pulse: meta[at + 3] };
+      });
+      const events: BeatEvent[] = [];
+      for (let i = 0; i < meta[META_EVENT_COUNT]; i++) {
+        const at = META_EVENTS + i * 3;
+        events.push({ time: meta[at], band: BAND_NAMES[meta[at + 1]], strength: meta[at + 2] });
+      }
+      const bpm = meta[META_BEAT + 4];
+
+      const tonic = meta[META_KEY];
+      const mode = KEY_MODES[meta[META_KEY + 1]];
+      const key: ChromaState['key'] = tonic >= 0
+        ? { tonic, mode, name: `${PITCH_CLASSES[tonic]} ${mode}`, correlation: meta[META_KEY + 2] }
+        : null;
+
+      const level = (at: number): ChannelLevel => ({ rms: meta[at], peak: meta[at + 1], heldPeak: meta[at + 2] });
+      const levels = {
+        left: level(META_LEVELS),
+        right: level(META_LEVELS + 3),
+        correlation: meta[META_LEVELS + 6],
+        width: meta[META_LEVELS + 7]
+      };
+      const playbackTime = meta[META_PLAYBACK_TIME];
+      const beat: BeatState = {
+        time: meta[META_BEAT],
+        bands,
+        events,
+        isBeat: meta[META_BEAT + 1] === 1,
+        pulse: meta[META_BEAT + 2],
+        phase: meta[META_BEAT + 3],
+        bpm: Number.isNaN(bpm) ? null : bpm
+      };
+
+      // The writer starts on this slot again two frames later
+      if (Atomics.load(header, SEQUENCE) - sequence >= SLOT_COUNT - 1) return false;
+
+      target.frequencyData = frequencyData;
+      target.timeData = timeData;
+      target.beat = beat;
+      target.chroma = { chroma: chromaValues, tuning: meta[META_TUNING], key };
+      target.stereo = { leftFrequency, rightFrequency, leftTime, rightTime, levels };
+      target.playbackTime = playbackTime;
+      target.sequence = sequence;
+      lastRead = sequence;
+      return true;
+    }
+  };
+}
+
+export type FrameRing = ReturnType<typeof createFrameRing>;
+
+/**
+ * Copies a frame into fresh buffers that can be transferred to a worker, for
+ * pages where SharedArrayBuffer isn't available
+ * @returns The copy and the buffers to list as transferables
+ */
+export function copyFrameForTransfer(frame: AnalyserFrame): { frame: AnalyserFrame; transfer: ArrayBuffer[] } {
+  const { stereo } = frame;
+  const copy: AnalyserFrame = {
+    ...frame,
+    frequencyData: frame.frequencyData.slice(),
+    timeData: frame.timeData.slice(),
+    chroma: { ...frame.chroma, chroma: frame.chroma.chroma.slice() },
+    stereo: {
+      ...stereo,
+      leftFrequency: stereo.leftFrequency.slice(),
+      rightFrequency: stereo.rightFrequency.slice(),
+      leftTime: stereo.leftTime.slice(),
+      rightTime: stereo.rightTime.slice()
+    }
+  };
+  const transfer = [
+    copy.frequencyData.buffer,
+    copy.timeData.buffer,
+    copy.chroma.chroma.buffer,
+    copy.stereo.leftFrequency.buffer,
+    copy.stereo.rightFrequency.buffer,
+    copy.stereo.leftTime.buffer,
+    copy.stereo.rightTime.buffer
+  ] as ArrayBuffer[];
+  return { frame: copy, transfer };
+}
@@ -0,0 +1,252 @@
+export type FrequencyScaleType = 'linear' | 'log' | 'mel' | 'bark' | 'third-octave';
+
+/**
+ * How frequency bins are spread across a visualization
+ */
+export interface FrequencyScale {
+  type: FrequencyScaleType;
+  minHz: number;
+  maxHz: number;
+}
+
+/**
+ * A frequency scale together with the sample rate of the audio it's applied
+ * to, which fixes where each analyser bin sits
+ */
+export interface FrequencyLayout {
+  scale: FrequencyScale;
+  sampleRate: number;
+}
+
+export const FREQUENCY_SCALE_OPTIONS: Array<{ id: FrequencyScaleType; label: string }> = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'log', label: 'Logarithmic' },
+  { id: 'mel', label: 'Mel' },
+  { id: 'bark', label: 'Bark' },
+  { id: 'third-octave', label: '1/3 octave' }
+];
+
+// Lowest frequency the range can be set to; below this an analyser only sees DC
+export const MIN_FREQUENCY = 10;
+
+export const DEFAULT_FREQUENCY_SCALE: FrequencyScale = {
+  type: 'log',
+  minHz: 20,
+  maxHz: 20000
+};
+
+// ISO 266 third-octave bands are centred on 1kHz * 2^(n/3), 25Hz to 20kHz
+const THIRD_OCTAVE_BANDS = Array.from({ length: 30 }, (_, index) => 1000 * 2 ** ((index - 16) / 3));
+
+const NICE_TICKS = [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+/**
+ * Maps a frequency onto the scale's axis. Only differences matter, so the
+ * unit is whatever suits the scale.
+ */
+function warp(type: FrequencyScaleType, hz: number): number {
+  switch (type) {
+    case 'linear':
+      return hz;
+    case 'mel':
+      return 2595 * Math.log10(1 + hz / 700);
+    case 'bark':
+      // Traunmüller's approximation
+      return (26.81 * hz) / (1960 + hz) - 0.53;
+    default:
+      return Math.log2(hz);
+  }
+}
+
+function unwarp(type: FrequencyScaleType, value: number): number {
+  switch (type) {
+    case 'linear':
+      return value;
+    case 'mel':
+      return 700 * (10 ** (value / 2595) - 1);
+    case 'bark':
+      return (1960 * (value + 0.53)) / (26.28 - value);
+    default:
+      return 2 ** value;
+  }
+}
+
+/**
+ * Limits a scale's range to what the sample rate can represent
+ * @param scale Requested scale
+ * @param sampleRate Sample rate of the analysed audio
+ * @returns Scale with MIN_FREQUENCY <= minHz < maxHz <= Nyquist
+ */
+export function clampFrequencyScale(scale: FrequencyScale, sampleRate: number): FrequencyScale {
+  const nyquist = sampleRate / 2;
+  const maxHz = Math.min(Math.max(scale.maxHz, MIN_FREQUENCY * 2), nyquist);
+  const minHz = Math.min(Math.max(scale.minHz, MIN_FREQUENCY), maxHz / 2);
+  return { type: scale.type, minHz, maxHz };
+}
+
+/**
+ * Position of a frequency along the scale
+ * @returns 0 at minHz to 1 at maxHz
+ */
+export function frequencyToPosition(scale: FrequencyScale, hz: number): number {
+  const start = warp(scale.type, scale.minHz);
+  const end = warp(scale.type, scale.maxHz);
+  return (warp(scale.type, hz) - start) / (end - start);
+}
+
+/**
+ * Frequency at a position along the scale
+ * @param position 0 at minHz to 1 at maxHz
+ */
+export function positionToFrequency(scale: FrequencyScale, position: number): number {
+  const start = warp(scale.type, scale.minHz);
+  const end = warp(scale.type, scale.maxHz);
+  return unwarp(scale.type, start + (end - start) * position);
+}
+
+/**
+ * Centres of the ISO third-octave bands that overlap the scale's range
+ */
+function getThirdOctaveCenters(scale: FrequencyScale): number[] {
+  const centers = THIRD_OCTAVE_BANDS.filter(
+    center => center * 2 ** (1 / 6) > scale.minHz && center * 2 ** (-1 / 6) < scale.maxHz
+  );
+  return centers.length ? centers : [Math.sqrt(scale.minHz * scale.maxHz)];
+}
+
+/**
+ * Number of bands a scale is drawn with: third-octave scales have one per ISO
+ * band in range, the others as many as requested
+ */
+export function getBandCount(scale: FrequencyScale, requested: number): number {
+  return scale.type === 'third-octave' ? getThirdOctaveCenters(scale).length : requested;
+}
+
+/**
+ * Lower and upper edge of each band, in Hz
+ */
+function getBandEdges(scale: FrequencyScale, count: number): Array<[number, number]> {
+  if (scale.type === 'third-octave') {
+    const bands = getThirdOctaveCenters(scale).map(center => [center * 2 ** (-1 / 6), center * 2 ** (1 / 6)] as [number, number]);
+    // Other band counts (e.g. points round a circle) step through the ISO bands
+    return Array.from({ length: count }, (_, i) => bands[Math.floor((i * bands.length) / count)]);
+  }
+
+  return Array.from({ length: count }, (_, i) => [
+    positionToFrequency(scale, i / count),
+    positionToFrequency(scale, (i + 1) / count)
+  ]);
+}
+
+/**
+ * Which bins feed each band: either a run of whole bins to average, or, for
+ * bands narrower than a bin, a point to interpolate at
+ */
+interface BandMapping {
+  start: Int32Array;
+  end: Int32Array;
+  // Fractional bin to interpolate at, or -1 to average start..end
+  point: Float32Array;
+}
+
+const mappingCache = new Map<string, BandMapping>();
+
+function getBandMapping(scale: FrequencyScale, sampleRate: number, binCount: number, count: number): BandMapping {
+  const key = `${scale.type}:${scale.minHz}:${scale.maxHz}:${sampleRate}:${binCount}:${count}`;
+  const cached = mappingCache.get(key);
+  if (cached) return cached;
+
+  const binWidth = sampleRate / 2 / binCount;
+  const edges = getBandEdges(scale, count);
+  const mapping: BandMapping = {
+    start: new Int32Array(count),
+    end: new Int32Array(count),
+    point: new Float32Array(count)
+  };
+
+  edges.forEach(([low, high], i) => {
+    const start = Math.ceil(low / binWidth);
+    const end = Math.min(binCount - 1, Math.floor(high / binWidth));
+    mapping.start[i] = start;
+    mapping.end[i] = end;
+    mapping.point[i] = end >= start ? -1 : Math.min(binCount - 1, (low + high) / 2 / binWidth);
+  });
+
+  // Settings change rarely, so a small cache is plenty
+  if (mappingCache.size > 32) mappingCache.clear();
+  mappingCache.set(key, mapping);
+  return mapping;
+}
+
+/**
+ * Resamples analyser bins onto a frequency scale
+ * @param frequencyData Byte frequency data
+ * @param scale Frequency scale
+ * @param sampleRate Sample rate of the analysed audio
+ * @param count Number of bands to produce
+ * @returns Level of each band, 0-1, from lowest to highest frequency
+ */
+export function getBandValues(
+  frequencyData: Uint8Array,
+  scale: FrequencyScale,
+  sampleRate: number,
+  count: number
+): Float32Array {
+  const mapping = getBandMapping(clampFrequencyScale(scale, sampleRate), sampleRate, frequencyData.length, count);
+  const values = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const point = mapping.point[i];
+    if (point >= 0) {
+      const lower = Math.floor(point);
+      const upper = Math.min(frequencyData.length - 1, lower + 1);
+      const fraction = point - lower;
+      values[i] = (frequencyData[lower] * (1 - fraction) + frequencyData[upper] * fraction) / 255;
+    } else {
+      let sum = 0;
+      for (let bin = mapping.start[i]; bin <= mapping.end[i]; bin++) sum += frequencyData[bin];
+      values[i] = sum / (mapping.end[i] - mapping.start[i] + 1) / 255;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Formats a frequency for an axis label, e.g. 500 or 2k
+ */
+export function formatFrequency(hz: number): string {
+  if (hz >= 1000) {
+    const khz = hz / 1000;
+    return `${Number.isInteger(khz) ? khz : khz.toFixed(1)}k`;
+  }
+  return String(Math.round(hz));
+}
+
+/**
+ * Labelled frequencies for an axis along the scale
+ * @returns Ticks with their position, 0-1, along the scale
+ */
+export function getFrequencyTicks(scale: FrequencyScale): Array<{ hz: number; label: string; position: number }> {
+  let frequencies = NICE_TICKS;
+
+  if (scale.type === 'linear') {
+    const span = scale.maxHz - scale.minHz;
+    const step = [100, 200, 500, 1000, 2000, 5000, 10000].find(candidate => span / candidate <= 8) || 10000;
+    frequencies = [];
+    for (let hz = Math.ceil(scale.minHz / step) * step; hz <= scale.maxHz; hz += step) {
+      frequencies.push(hz);
+    }
+  }
+
+  // Third-octave bands are drawn as equal slots, centred on their nominal frequencies
+  const centers = scale.type === 'third-octave' ? getThirdOctaveCenters(scale) : null;
+  const positionOf = (hz: number) => centers
+    ? (Math.log2(hz / centers[0]) * 3 + 0.5) / centers.length
+    : frequencyToPosition(scale, hz);
+
+  return frequencies
+    .filter(hz => hz >= scale.minHz && hz <= scale.maxHz)
+    .map(hz => ({ hz, label: formatFrequency(hz), position: positionOf(hz) }))
+    .filter(tick => tick.position >= 0 && tick.position <= 1);
+}
@@ -0,0 +1,239 @@
+/**
+ * Metadata stored for every track in the local library. The audio itself
+ * lives in a separate object store so listing the library never has to
+ * read the blobs.
+ */
+export interface LibraryTrack {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  title: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  trackNumber?: number;
+  duration?: number;
+  addedAt: number;
+  lastPlayedAt?: number;
+}
+
+interface LibraryBlobRecord {
+  id: string;
+  blob: Blob;
+}
+
+const DB_NAME = 'harmonic-library';
+const DB_VERSION = 1;
+const TRACK_STORE = 'tracks';
+const BLOB_STORE = 'blobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * Checks whether IndexedDB is available (it isn't in some private browsing modes)
+ * @returns True when the library can be used
+ */
+export function isLibrarySupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Opens (and on first use creates) the library database
+ * @returns The shared database connection
+ */
+export function openLibraryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRACK_STORE)) {
+          const trackStore = db.createObjectStore(TRACK_STORE, { keyPath: 'id' });
+          trackStore.createIndex('addedAt', 'addedAt');
+          trackStore.createIndex('lastPlayedAt', 'lastPlayedAt');
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Builds a stable library id for a file so importing the same file twice
+ * doesn't store it twice
+ * @param file Imported file
+ * @returns Library id
+ */
+export function getLibraryTrackId(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Stores a track's metadata and audio blob
+ * @param track Track metadata
+ * @param blob Audio data
+ */
+export async function putLibraryTrack(track: LibraryTrack, blob: Blob): Promise<void> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction([TRACK_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TRACK_STORE).put(track);
+  transaction.objectStore(BLOB_STORE).put({ id: track.id, blob } satisfies LibraryBlobRecord);
+  await transactionDone(transaction);
+}
+
+/**
+ * Updates fields of an existing track's metadata
+ * @param id Library id
+ * @param changes Fields to overwrite
+ * @returns The updated track, or null if it doesn't exist
+ */
+export async function updateLibraryTrack(
+  id: string,
+  changes: Partial<Omit<LibraryTrack, 'id'>>
+): Promise<LibraryTrack | null> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(TRACK_STORE, 'readwrite');
+  const store = transaction.objectStore(TRACK_STORE);
+  const existing = await promisifyRequest<LibraryTrack | undefined>(store.get(id));
+
+  if (!existing) {
+    transaction.abort();
+    return null;
+  }
+
+  const updated = { ...existing, ...changes };
+  store.put(updated);
+  await transactionDone(transaction);
+  return updated;
+}
+
+/**
+ * Lists the metadata of every track in the library
+ * @returns All library tracks, unordered
+ */
+export async function getLibraryTracks(): Promise<LibraryTrack[]> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(TRACK_STORE, 'readonly');
+  return promisifyRequest<LibraryTrack[]>(transaction.objectStore(TRACK_STORE).getAll());
+}
+
+/**
+ * Reads a stored track back as a File
+ * @param track Track metadata
+ * @returns The audio file, or null if its blob is missing
+ */
+export async function getLibraryFile(track: LibraryTrack): Promise<File | null> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(BLOB_STORE, 'readonly');
+  const record = await promisifyRequest<LibraryBlobRecord | undefined>(
+    transaction.objectStore(BLOB_STORE).get(track.id)
+  );
+
+  if (!record) return null;
+
+  // Keep name and lastModified so getLibraryTrackId() maps back to the same entry
+  return new File([record.blob], track.name, {
+    type: track.type,
+    lastModified: track.lastModified
+  });
+}
+
+/**
+ * Removes tracks and their audio from the library
+ * @param ids Library ids to delete
+ */
+export async function deleteLibraryTracks(ids: string[]): Promise<void> {
+  if (!ids.length) return;
+
+  const db = await openLibraryDb();
+  const transaction = db.transaction([TRACK_STORE, BLOB_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(TRACK_STORE).delete(id);
+    transaction.objectStore(BLOB_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+}
+
+/**
+ * Removes everything from the library
+ */
+export async function clearLibrary(): Promise<void> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction([TRACK_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TRACK_STORE).clear();
+  transaction.objectStore(BLOB_STORE).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * Storage usage for this origin
+ */
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+/**
+ * Reads the browser's storage estimate for this origin
+ * @returns Usage and quota in bytes, and whether storage is persistent
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  if (!navigator.storage?.estimate) {
+    return { usage: 0, quota: 0, persisted: false };
+  }
+
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+  ]);
+
+  return {
+    usage: estimate.usage || 0,
+    quota: estimate.quota || 0,
+    persisted
+  };
+}
+
+/**
+ * Asks the browser not to evict the library under storage pressure
+ * @returns Whether storage is now persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
@@ -0,0 +1,377 @@
+// Loudness measurement to ITU-R BS.1770-4 and EBU R128 / Tech 3341-3342.
+// Everything here is plain arithmetic on sample blocks, so the same meter runs
+// in the audio worklet for live input and in a worker for whole files.
+
+// Gating blocks are built from 100ms sub-blocks
+const SUB_BLOCK_SECONDS = 0.1;
+// Momentary loudness spans 400ms, short-term 3s
+const MOMENTARY_SUB_BLOCKS = 4;
+const SHORT_TERM_SUB_BLOCKS = 30;
+// Blocks quieter than this are ignored by every gated measurement
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+// Gated measurements bin block loudness at 0.1 LU, from the absolute gate up to +10 LUFS
+const HISTOGRAM_RESOLUTION = 10;
+const HISTOGRAM_BINS = (10 - ABSOLUTE_GATE) * HISTOGRAM_RESOLUTION;
+// Length of each phase of the true-peak interpolation filter, as in Annex 2
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+/**
+ * Loudness readings. Levels are in LUFS and dBTP, and are -Infinity until
+ * there's enough signal to measure.
+ */
+export interface LoudnessReadings {
+  momentary: number;
+  shortTerm: number;
+  integrated: number;
+  // Loudness range in LU
+  loudnessRange: number;
+  truePeak: number;
+  maxMomentary: number;
+  maxShortTerm: number;
+}
+
+export const EMPTY_LOUDNESS_READINGS: LoudnessReadings = {
+  momentary: -Infinity,
+  shortTerm: -Infinity,
+  integrated: -Infinity,
+  loudnessRange: 0,
+  truePeak: -Infinity,
+  maxMomentary: -Infinity,
+  maxShortTerm: -Infinity
+};
+
+// Common loudness targets, for reference lines on the meters
+export const LOUDNESS_TARGETS = [
+  { id: 'ebu', label: 'EBU R128', integrated: -23, truePeak: -1 },
+  { id: 'streaming', label: 'Streaming', integrated: -14, truePeak: -1 },
+  { id: 'podcast', label: 'Podcast', integrated: -16, truePeak: -1 }
+];
+
+/**
+ * Loudness of a mean-square power, per BS.1770
+ */
+export function powerToLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages, a high shelf for the head and an RLB high pass,
+ * recalculated for the sample rate from their analogue prototypes
+ */
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Channel weights for the Web Audio channel order. Surrounds count 1.5 dB
+ * louder and the LFE channel isn't measured.
+ */
+function getChannelWeights(channelCount: number): number[] {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+}
+
+/**
+ * Polyphase interpolation filter: windowed sinc, one coefficient set per
+ * output phase
+ */
+function createOversamplingPhases(factor: number): Float32Array[] {
+  const length = factor * TRUE_PEAK_TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: factor }, () => new Float32Array(TRUE_PEAK_TAPS_PER_PHASE));
+
+  for (let n = 0; n < length; n++) {
+    const x = (n - center) / factor;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const taper = 0.42 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length)
+      + 0.08 * Math.cos((4 * Math.PI * (n + 0.5)) / length);
+    phases[n % factor][Math.floor(n / factor)] = sinc * taper;
+  }
+
+  // Each phase passes DC unchanged
+  phases.forEach(phase => {
+    const sum = phase.reduce((total, value) => total + value, 0);
+    phase.forEach((value, i) => { phase[i] = value / sum; });
+  });
+  return phases;
+}
+
+/**
+ * Counts of gating blocks binned by loudness, with their summed power, so the
+ * relative gates never need every block kept around
+ */
+function createGateHistogram() {
+  const counts = new Uint32Array(HISTOGRAM_BINS);
+  const powers = new Float64Array(HISTOGRAM_BINS);
+  let totalCount = 0;
+  let totalPower = 0;
+
+  const binOf = (loudness: number) =>
+    Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((loudness - ABSOLUTE_GATE) * HISTOGRAM_RESOLUTION)));
+  const loudnessOf = (bin: number) => ABSOLUTE_GATE + (bin + 0.5) / HISTOGRAM_RESOLUTION;
+
+  return {
+    add(power: number): void {
+      const loudness = powerToLoudness(power);
+      if (loudness < ABSOLUTE_GATE) return;
+      const bin = binOf(loudness);
+      counts[bin]++;
+      powers[bin] += power;
+      totalCount++;
+      totalPower += power;
+    },
+
+    /**
+     * First bin at or above the relative gate, or -1 with nothing measured yet
+     */
+    gateBin(relativeGate: number): number {
+      if (!totalCount) return -1;
+      return binOf(powerToLoudness(totalPower / totalCount) + relativeGate);
+    },
+
+    /**
+     * Loudness of the blocks that pass both gates
+     */
+    gatedLoudness(relativeGate: number): number {
+      const start = this.gateBin(relativeGate);
+      if (start < 0) return -Infinity;
+      let count = 0;
+      let power = 0;
+      for (let bin = start; bin < HISTOGRAM_BINS; bin++) {
+        count += counts[bin];
+        power += powers[bin];
+      }
+      return count ? powerToLoudness(power / count) : -Infinity;
+    },
+
+    /**
+     * Spread between the 10th and 95th percentile of the gated blocks
+     */
+    range(relativeGate: number): number {
+      const start = this.gateBin(relativeGate);
+      if (start < 0) return 0;
+      let count = 0;
+      for (let bin = start; bin < HISTOGRAM_BINS; bin++) count += counts[bin];
+      if (!count) return 0;
+
+      const percentile = (fraction: number) => {
+        const target = fraction * (count - 1);
+        let seen = 0;
+        for (let bin = start; bin < HISTOGRAM_BINS; bin++) {
+          seen += counts[bin];
+          if (seen > target) return loudnessOf(bin);
+        }
+        return loudnessOf(HISTOGRAM_BINS - 1);
+      };
+      return percentile(0.95) - percentile(0.1);
+    },
+
+    reset(): void {
+      counts.fill(0);
+      powers.fill(0);
+      totalCount = 0;
+      totalPower = 0;
+    }
+  };
+}
+
+interface ChannelState {
+  // K-weighting filter state, two per stage
+  filter: Float64Array;
+  // Recent input for the oversampling filter, newest first
+  history: Float32Array;
+}
+
+/**
+ * Meters loudness, loudness range and true peak over a stream of sample blocks
+ * @param sampleRate Sample rate of the audio
+ */
+export function createLoudnessMeter(sampleRate: number) {
+  const stages = createKWeighting(sampleRate);
+  const subBlockLength = Math.round(sampleRate * SUB_BLOCK_SECONDS);
+  // True peak is read at 4x below 96kHz and 2x below 192kHz
+  const oversampling = createOversamplingPhases(sampleRate < 96000 ? 4 : sampleRate < 192000 ? 2 : 1);
+  const integratedHistogram = createGateHistogram();
+  const rangeHistogram = createGateHistogram();
+  // Power of the last SHORT_TERM_SUB_BLOCKS sub-blocks, as a ring
+  const subBlocks = new Float64Array(SHORT_TERM_SUB_BLOCKS);
+
+  let channels: ChannelState[] = [];
+  let weights: number[] = [];
+  let subBlockSum = 0;
+  let subBlockFill = 0;
+  let subBlockCount = 0;
+  let peak = 0;
+  let maxMomentary = -Infinity;
+  let maxShortTerm = -Infinity;
+
+  const ensureChannels = (count: number) => {
+    if (channels.length === count) return;
+    channels = Array.from({ length: count }, () => ({
+      filter: new Float64Array(4),
+      history: new Float32Array(TRUE_PEAK_TAPS_PER_PHASE)
+    }));
+    weights = getChannelWeights(count);
+  };
+
+  // Mean power of the newest `count` sub-blocks; missing ones count as silence
+  const windowPower = (count: number) => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(count, subBlockCount); i++) {
+      sum += subBlocks[(subBlockCount - 1 - i) % SHORT_TERM_SUB_BLOCKS];
+    }
+    return sum / count;
+  };
+
+  const finishSubBlock = () => {
+    subBlocks[subBlockCount % SHORT_TERM_SUB_BLOCKS] = subBlockSum / subBlockLength;
+    subBlockCount++;
+    subBlockSum = 0;
+    subBlockFill = 0;
+
+    // Gating blocks overlap by 75%, and short-term readings come at 10Hz
+    if (subBlockCount >= MOMENTARY_SUB_BLOCKS) {
+      const power = windowPower(MOMENTARY_SUB_BLOCKS);
+      integratedHistogram.add(power);
+      maxMomentary = Math.max(maxMomentary, powerToLoudness(power));
+    }
+    if (subBlockCount >= SHORT_TERM_SUB_BLOCKS) {
+      const power = windowPower(SHORT_TERM_SUB_BLOCKS);
+      rangeHistogram.add(power);
+      maxShortTerm = Math.max(maxShortTerm, powerToLoudness(power));
+    }
+  };
+
+  return {
+    /**
+     * Adds a block of samples
+     * @param input One array per channel, all the same length
+     */
+    process(input: Float32Array[]): void {
+      if (!input.length) return;
+      ensureChannels(input.length);
+      const length = input[0].length;
+      const [shelf, highPass] = stages;
+
+      for (let i = 0; i < length; i++) {
+        let weighted = 0;
+
+        for (let c = 0; c < input.length; c++) {
+          const x = input[c][i];
+          const { filter, history } = channels[c];
+
+          // Transposed direct form II, one stage after the other
+          const y1 = shelf.b0 * x + filter[0];
+          filter[0] = shelf.b1 * x - shelf.a1 * y1 + filter[1];
+          filter[1] = shelf.b2 * x - shelf.a2 * y1;
+          const y2 = highPass.b0 * y1 + filter[2];
+          filter[2] = highPass.b1 * y1 - highPass.a1 * y2 + filter[3];
+          filter[3] = highPass.b2 * y1 - highPass.a2 * y2;
+          weighted += weights[c] * y2 * y2;
+
+          history.copyWithin(1, 0);
+          history[0] = x;
+          for (const phase of oversampling) {
+            let sample = 0;
+            for (let k = 0; k < TRUE_PEAK_TAPS_PER_PHASE; k++) sample += phase[k] * history[k];
+            peak = Math.max(peak, Math.abs(sample));
+          }
+          peak = Math.max(peak, Math.abs(x));
+        }
+
+        subBlockSum += weighted;
+        if (++subBlockFill === subBlockLength) finishSubBlock();
+      }
+    },
+
+    /**
+     * Current readings
+     */
+    getReadings(): LoudnessReadings {
+      return {
+        momentary: powerToLoudness(windowPower(MOMENTARY_SUB_BLOCKS)),
+        shortTerm: powerToLoudness(windowPower(SHORT_TERM_SUB_BLOCKS)),
+        integrated: integratedHistogram.gatedLoudness(INTEGRATED_RELATIVE_GATE),
+        loudnessRange: rangeHistogram.range(RANGE_RELATIVE_GATE),
+        truePeak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+        maxMomentary,
+        maxShortTerm
+      };
+    },
+
+    /**
+     * Starts a new measurement
+     */
+    reset(): void {
+      channels = [];
+      subBlocks.fill(0);
+      subBlockSum = 0;
+      subBlockFill = 0;
+      subBlockCount = 0;
+      peak = 0;
+      maxMomentary = -Infinity;
+      maxShortTerm = -Infinity;
+      integratedHistogram.reset();
+      rangeHistogram.reset();
+    }
+  };
+}
+
+export type LoudnessMeter = ReturnType<typeof createLoudnessMeter>;
+
+/**
+ * Measures a whole programme
+ * @param channels Samples, one array per channel
+ * @param sampleRate Sample rate of the samples
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessReadings {
+  const meter = createLoudnessMeter(sampleRate);
+  // Feeding it in blocks keeps the per-channel views small
+  const blockLength = 65536;
+  const length = channels[0]?.length ?? 0;
+  for (let start = 0; start < length; start += blockLength) {
+    meter.process(channels.map(channel => channel.subarray(start, start + blockLength)));
+  }
+  return meter.getReadings();
+}
+
+/**
+ * Formats a loudness or peak level with one decimal, or a dash when there's none
+ */
+export function formatLoudness(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(1) : '–';
+}
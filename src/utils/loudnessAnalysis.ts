@@ -0,0 +1,39 @@
+import { type LoudnessReadings, measureLoudness } from '@/utils/loudness';
+import { getDecodedAudio } from '@/utils/offlineAudio';
+
+/**
+ * Runs the measurement in a worker so long files don't stall the visualizer
+ * @param channels Channel samples, handed over to the worker
+ */
+function measureInWorker(channels: Float32Array[], sampleRate: number): Promise<LoudnessReadings> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(measureLoudness(channels, sampleRate));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/loudness.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LoudnessReadings>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Loudness worker failed'));
+    };
+    worker.postMessage({ channels, sampleRate }, channels.map(channel => channel.buffer));
+  });
+}
+
+/**
+ * Decodes a whole file and measures its integrated loudness, loudness range
+ * and true peak. Files are measured at the fixed offline sample rate, so the
+ * true peak of other rates can differ by a few hundredths of a dB.
+ * @param file Audio file
+ * @returns Whole-file readings; momentary and short-term are those of the last moments
+ */
+export async function analyzeLoudness(file: Blob): Promise<LoudnessReadings> {
+  // The decode is shared with the other analyses, so the worker gets copies
+  const decoded = await getDecodedAudio(file);
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i).slice());
+  return measureInWorker(channels, decoded.sampleRate);
+}
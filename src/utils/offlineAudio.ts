@@ -0,0 +1,78 @@
+// Decoding at a fixed rate keeps offline analysis identical on every machine,
+// whatever the output device's sample rate is
+export const OFFLINE_SAMPLE_RATE = 44100;
+
+/**
+ * Decodes an audio file at a fixed sample rate
+ * @param file Audio file
+ * @param sampleRate Rate to resample to
+ * @returns Decoded audio
+ */
+export async function decodeAudioFile(file: Blob, sampleRate = OFFLINE_SAMPLE_RATE): Promise<AudioBuffer> {
+  // decodeAudioData resamples to the context's rate; the context itself is never rendered
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+/**
+ * Mixes decoded audio down to one channel using the Web Audio down-mix rules
+ * @param buffer Decoded audio
+ * @returns Mono samples at the buffer's sample rate
+ */
+export async function renderMono(buffer: AudioBuffer): Promise<Float32Array> {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+
+  const context = new OfflineAudioContext(1, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+// Loading a track runs several whole-file analyses, which all share one
+// decode. Only the latest file is kept: that's the one they all ask for
+// together, and decoded audio takes far more memory than the file.
+let latestDecode: {
+  file: Blob;
+  decoded: Promise<AudioBuffer>;
+  mono: Promise<Float32Array> | null;
+} | null = null;
+
+function getLatestDecode(file: Blob) {
+  if (latestDecode?.file !== file) {
+    const decoded = decodeAudioFile(file);
+    latestDecode = { file, decoded, mono: null };
+    // A failed decode is tried again next time it's asked for
+    decoded.catch(() => {
+      if (latestDecode?.decoded === decoded) latestDecode = null;
+    });
+  }
+  return latestDecode;
+}
+
+/**
+ * Decodes a file at the offline sample rate, sharing the decode with every
+ * other caller asking for the same file
+ * @param file Audio file
+ * @returns Decoded audio; its channel data is shared, so copy before changing
+ * or transferring it
+ */
+export function getDecodedAudio(file: Blob): Promise<AudioBuffer> {
+  return getLatestDecode(file).decoded;
+}
+
+/**
+ * Mono mix of a file at the offline sample rate, shared like getDecodedAudio()
+ * @param file Audio file
+ * @returns Shared mono samples; copy before changing or transferring them
+ */
+export function getMonoAudio(file: Blob): Promise<Float32Array> {
+  const entry = getLatestDecode(file);
+  entry.mono ??= entry.decoded.then(renderMono);
+  return entry.mono;
+}
@@ -0,0 +1,277 @@
+import { type ThemeBackground, type ThemePalette } from '@/utils/visualizerHelpers';
+import { type Canvas2DContext, BLOB_ROTATION_PER_SECOND, BLOB_ROTATION_PER_BEAT } from '@/utils/visualizerDrawing';
+import {
+  type VisualizationMode,
+  type VisualizerSettingValue,
+  DEFAULT_VISUALIZER,
+  drawVisualizerFrame,
+  getVisualizer,
+  resolveVisualizerSettings
+} from '@/utils/visualizerPlugins';
+import { type RecordingResolution, drawBackground } from '@/utils/videoRecording';
+import { DEFAULT_SPECTRUM_OPTIONS, createSpectrumAnalyzer } from '@/utils/fft';
+import { OFFLINE_SAMPLE_RATE, getDecodedAudio, getMonoAudio } from '@/utils/offlineAudio';
+import { getTrackAnalysis } from '@/utils/trackAnalysis';
+import { createZipWriter } from '@/utils/zip';
+import { createBeatDetector } from '@/utils/beatDetection';
+import { getBeatPosition } from '@/utils/tempoAnalysis';
+import { createChromagram } from '@/utils/chroma';
+import { type FrequencyScale } from '@/utils/frequencyScale';
+import { type StereoState, EMPTY_STEREO_STATE, createStereoMeter } from '@/utils/stereoAnalysis';
+import '@/visualizers';
+
+export const OFFLINE_FRAME_RATES = [24, 30, 60];
+
+// Frames are laid out as if the visualizer were 720 CSS pixels on its short
+// side, so every resolution shows the same amount of detail
+const REFERENCE_SIZE = 720;
+
+export interface OfflineRenderOptions {
+  fps: number;
+  resolution: RecordingResolution;
+  mode: VisualizationMode;
+  palette: ThemePalette;
+  background: ThemeBackground | null;
+  sensitivity: number;
+  volume: number;
+  frequencyScale?: FrequencyScale;
+  showFrequencyAxis?: boolean;
+  // Values for the visualizer's settings; missing ones use the defaults
+  modeSettings?: Partial<Record<string, VisualizerSettingValue>>;
+  signal?: AbortSignal;
+  onProgress?: (progress: OfflineRenderProgress) => void;
+}
+
+export type OfflineRenderPhase = 'decoding' | 'analyzing' | 'rendering' | 'packaging';
+
+export interface OfflineRenderProgress {
+  phase: OfflineRenderPhase;
+  frame: number;
+  frameCount: number;
+}
+
+/**
+ * One entry of the frame manifest
+ */
+export interface FrameManifestEntry {
+  index: number;
+  file: string;
+  time: number;
+  sample: number;
+  beat: boolean;
+}
+
+/**
+ * Canvas to render into: OffscreenCanvas where available, so frames never
+ * touch the page
+ */
+function createRenderCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function encodePng(canvas: OffscreenCanvas | HTMLCanvasElement): Promise<Blob> {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode frame'))), 'image/png');
+    });
+  }
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+/**
+ * Per-channel spectra, samples and levels of decoded audio; mono audio is
+ * treated as both channels
+ */
+function createOfflineStereoAnalysis(buffer: AudioBuffer) {
+  const left = buffer.getChannelData(0);
+  const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : left;
+  const { fftSize } = DEFAULT_SPECTRUM_OPTIONS;
+  const analyzers = [createSpectrumAnalyzer(DEFAULT_SPECTRUM_OPTIONS), createSpectrumAnalyzer(DEFAULT_SPECTRUM_OPTIONS)];
+  const byteTime = new Uint8Array(fftSize);
+  const meter = createStereoMeter();
+
+  // The fftSize samples ending at endIndex, zero-padded past either end
+  const sliceFrame = (samples: Float32Array, endIndex: number) => {
+    const frame = new Float32Array(fftSize);
+    const start = endIndex - fftSize;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      frame[i] = index >= 0 && index < samples.length ? samples[index] : 0;
+    }
+    return frame;
+  };
+
+  return {
+    analyse(endIndex: number, time: number): StereoState {
+      const [leftFrequency, rightFrequency] = [left, right].map((samples, channel) => {
+        const frequencyData = new Uint8Array(analyzers[channel].frequencyBinCount);
+        analyzers[channel].analyse(samples, endIndex, frequencyData, byteTime);
+        return frequencyData;
+      });
+      const leftTime = sliceFrame(left, endIndex);
+      const rightTime = sliceFrame(right, endIndex);
+      return { leftFrequency, rightFrequency, leftTime, rightTime, levels: meter.process(leftTime, rightTime, time) };
+    }
+  };
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Render cancelled', 'AbortError');
+  }
+}
+
+/**
+ * Renders a whole track frame by frame at a fixed frame rate. Audio analysis
+ * runs on decoded samples rather than a live AnalyserNode, so the output is
+ * identical on every machine and doesn't depend on playback keeping up.
+ * @param file Audio file to render
+ * @param options Frame rate, size, look, and progress and cancel hooks
+ * @returns Zip with a PNG per frame and a manifest.json describing them
+ */
+export async function renderTrackOffline(file: File, options: OfflineRenderOptions): Promise<Blob> {
+  const {
+    fps,
+    resolution,
+    mode,
+    palette,
+    background,
+    sensitivity,
+    volume,
+    frequencyScale,
+    showFrequencyAxis,
+    modeSettings,
+    signal,
+    onProgress
+  } = options;
+
+  const definition = getVisualizer(mode) ?? getVisualizer(DEFAULT_VISUALIZER);
+  if (!definition) {
+    throw new Error(`No visualizer is registered for "${mode}"`);
+  }
+  const settings = resolveVisualizerSettings(definition, modeSettings);
+
+  onProgress?.({ phase: 'decoding', frame: 0, frameCount: 0 });
+  // The loaded track has usually been decoded and analysed already, and the
+  // analysis runs in a worker when it hasn't
+  const decoded = await getDecodedAudio(file);
+  const samples = await getMonoAudio(file);
+  throwIfAborted(signal);
+
+  onProgress?.({ phase: 'analyzing', frame: 0, frameCount: 0 });
+  const { tempo, key: keyAnalysis } = await getTrackAnalysis(file);
+  throwIfAborted(signal);
+
+  const frameCount = Math.ceil(decoded.duration * fps);
+  const digits = Math.max(6, String(frameCount).length);
+  const analyzer = createSpectrumAnalyzer(DEFAULT_SPECTRUM_OPTIONS);
+  const frequencyData = new Uint8Array(analyzer.frequencyBinCount);
+  const timeData = new Uint8Array(DEFAULT_SPECTRUM_OPTIONS.fftSize);
+  const beatDetector = createBeatDetector(OFFLINE_SAMPLE_RATE, DEFAULT_SPECTRUM_OPTIONS.fftSize);
+  const chromagram = createChromagram(OFFLINE_SAMPLE_RATE, DEFAULT_SPECTRUM_OPTIONS.fftSize);
+  // Per-channel analysis is only worth running for visualizers that draw it
+  const stereoAnalysis = definition.usesStereo ? createOfflineStereoAnalysis(decoded) : undefined;
+
+  const canvas = createRenderCanvas(resolution.width, resolution.height);
+  const ctx = canvas.getContext('2d') as Canvas2DContext | null;
+  if (!ctx) {
+    throw new Error('Could not create a canvas to render into');
+  }
+
+  const scale = Math.min(resolution.width, resolution.height) / REFERENCE_SIZE;
+  const dimensions = { width: resolution.width / scale, height: resolution.height / scale };
+  const zip = createZipWriter();
+  const frames: FrameManifestEntry[] = [];
+  const plugin = definition.create();
+  plugin.init?.(dimensions);
+
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      throwIfAborted(signal);
+
+      const time = index / fps;
+      const sample = Math.round(time * OFFLINE_SAMPLE_RATE);
+      analyzer.analyse(samples, sample, frequencyData, timeData);
+      const beat = beatDetector.process(frequencyData, time);
+      const chroma = chromagram.process(frequencyData, time);
+      const beatPosition = getBeatPosition(tempo, time) ?? undefined;
+      const angle = beatPosition === undefined ? time * BLOB_ROTATION_PER_SECOND : beatPosition * BLOB_ROTATION_PER_BEAT;
+      const stereo = stereoAnalysis?.analyse(sample, time) ?? EMPTY_STEREO_STATE;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, resolution.width, resolution.height);
+      if (background) {
+        drawBackground(ctx, background);
+      }
+      ctx.scale(scale, scale);
+      drawVisualizerFrame(ctx, plugin, {
+        frequencyData,
+        timeData,
+        dimensions,
+        sensitivity,
+        volume,
+        palette,
+        clock: { time, angle, beatPosition },
+        beat,
+        harmony: { ...chroma, key: keyAnalysis.key, tuning: keyAnalysis.tuning },
+        frequencyLayout: frequencyScale && { scale: frequencyScale, sampleRate: OFFLINE_SAMPLE_RATE },
+        showFrequencyAxis,
+        stereo
+      }, settings);
+
+      const name = `frames/frame_${String(index).padStart(digits, '0')}.png`;
+      await zip.addFile(name, await encodePng(canvas));
+      frames.push({ index, file: name, time, sample, beat: beat.isBeat });
+
+      onProgress?.({ phase: 'rendering', frame: index + 1, frameCount });
+
+      // Let the page repaint the progress now and then
+      if (index % 5 === 4) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  } finally {
+    plugin.dispose?.();
+  }
+
+  onProgress?.({ phase: 'packaging', frame: frameCount, frameCount });
+
+  const manifest = {
+    version: 1,
+    source: {
+      name: file.name,
+      size: file.size,
+      duration: decoded.duration
+    },
+    sampleRate: OFFLINE_SAMPLE_RATE,
+    fps,
+    frameCount,
+    width: resolution.width,
+    height: resolution.height,
+    mode,
+    theme: palette.name,
+    transparent: !background,
+    sensitivity,
+    volume,
+    frequencyScale: frequencyScale ?? null,
+    analyser: DEFAULT_SPECTRUM_OPTIONS,
+    tempo: {
+      bpm: tempo.bpm,
+      tempoMap: tempo.tempoMap,
+      beats: tempo.beats,
+      downbeats: tempo.downbeats
+    },
+    key: keyAnalysis.key?.name ?? null,
+    tuning: keyAnalysis.tuning,
+    frames
+  };
+  await zip.addFile('manifest.json', new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+
+  return zip.finish();
+}
@@ -0,0 +1,166 @@
+// Pitch shifting that keeps the duration, by WSOLA-style overlap-add. Each
+// grain is read from the input at the pitch ratio, so it sounds higher or
+// lower, while grains still advance through the input in real time. Where a
+// grain starts is nudged to line up with how the previous one continues,
+// which keeps the joins free of phase cancellation. This is plain arithmetic
+// on sample blocks, run in the audio worklet.
+
+export const MAX_PITCH_SHIFT = 12;
+
+// Grains overlap by half, and Hann windows at that overlap sum to one
+const GRAIN_LENGTH = 2048;
+const HOP = GRAIN_LENGTH / 2;
+// How far a grain's start may move to line up with the previous grain
+const TOLERANCE = 256;
+// Grains are read up to twice as fast as the input arrives, so they start
+// far enough back for the whole grain to have been written
+const MAX_RATIO = 2 ** (MAX_PITCH_SHIFT / 12);
+const LATENCY = TOLERANCE + Math.ceil(GRAIN_LENGTH * MAX_RATIO) + 2;
+const RING_SIZE = 16384;
+const RING_MASK = RING_SIZE - 1;
+// Alignment is searched, and compared, on a coarse grid to save work
+const SEARCH_STEP = 4;
+const COMPARE_STEP = 8;
+
+const WINDOW = Float32Array.from(
+  { length: GRAIN_LENGTH },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / GRAIN_LENGTH)
+);
+
+/**
+ * Pitch ratio of a shift in semitones, within the supported range
+ */
+export function semitonesToRatio(semitones: number): number {
+  const clamped = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, semitones));
+  return 2 ** (clamped / 12);
+}
+
+/**
+ * Streaming pitch shifter. Unshifted audio passes straight through; shifted
+ * audio comes out LATENCY samples late.
+ * @param channelCount Number of channels processed
+ */
+export function createPitchShifter(channelCount: number) {
+  const input = Array.from({ length: channelCount }, () => new Float32Array(RING_SIZE));
+  const output = Array.from({ length: channelCount }, () => new Float32Array(RING_SIZE));
+  // Sum of the channels, which grains are lined up on so the channels move together
+  const mix = new Float32Array(RING_SIZE);
+  let written = 0;
+  let emitted = 0;
+  let nextGrain = 0;
+  let previousStart: number | null = null;
+  let active = false;
+
+  const read = (ring: Float32Array, position: number) => {
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = ring[index & RING_MASK];
+    return a + (ring[(index + 1) & RING_MASK] - a) * fraction;
+  };
+
+  // Picks the start within the tolerance whose opening best matches how the
+  // previous grain would have continued
+  const alignGrain = (nominal: number, ratio: number) => {
+    if (previousStart === null) return nominal;
+    const continuation = previousStart + HOP * ratio;
+
+    let bestStart = nominal;
+    let bestScore = -Infinity;
+    for (let offset = -TOLERANCE; offset <= TOLERANCE; offset += SEARCH_STEP) {
+      const start = nominal + offset;
+      let correlation = 0;
+      let energy = 1e-9;
+      for (let i = 0; i < HOP; i += COMPARE_STEP) {
+        const candidate = mix[Math.round(start + i * ratio) & RING_MASK];
+        correlation += candidate * mix[Math.round(continuation + i * ratio) & RING_MASK];
+        energy += candidate * candidate;
+      }
+      const score = correlation / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        bestStart = start;
+      }
+    }
+    return bestStart;
+  };
+
+  const addGrain = (ratio: number) => {
+    const start = alignGrain(nextGrain - LATENCY, ratio);
+    for (let channel = 0; channel < channelCount; channel++) {
+      const source = input[channel];
+      const target = output[channel];
+      for (let i = 0; i < GRAIN_LENGTH; i++) {
+        target[(nextGrain + i) & RING_MASK] += WINDOW[i] * read(source, start + i * ratio);
+      }
+    }
+    previousStart = start;
+    nextGrain += HOP;
+  };
+
+  return {
+    latency: LATENCY,
+
+    /**
+     * Shifts one block
+     * @param inputs Channels of the input block; missing channels repeat the last one
+     * @param outputs Channels to write, all the same length as the input block
+     * @param semitones Shift for this block
+     */
+    process(inputs: Float32Array[], outputs: Float32Array[], semitones: number): void {
+      const frames = outputs[0]?.length ?? 0;
+      const ratio = semitonesToRatio(semitones);
+
+      for (let i = 0; i < frames; i++) {
+        const index = (written + i) & RING_MASK;
+        let sum = 0;
+        for (let channel = 0; channel < channelCount; channel++) {
+          const source = inputs[Math.min(channel, inputs.length - 1)];
+          const sample = source ? source[i] : 0;
+          input[channel][index] = sample;
+          sum += sample;
+        }
+        mix[index] = sum;
+      }
+      written += frames;
+
+      if (ratio === 1) {
+        active = false;
+        outputs.forEach((target, channel) => {
+          const source = inputs[Math.min(channel, inputs.length - 1)];
+          if (source) target.set(source);
+          else target.fill(0);
+        });
+        return;
+      }
+
+      // Starting afresh lines the output up with the input again
+      if (!active) {
+        active = true;
+        emitted = written - frames;
+        nextGrain = emitted;
+        previousStart = null;
+        output.forEach(ring => ring.fill(0));
+      }
+
+      while (nextGrain < emitted + frames) {
+        addGrain(ratio);
+      }
+
+      for (let channel = 0; channel < outputs.length; channel++) {
+        const source = output[Math.min(channel, channelCount - 1)];
+        const target = outputs[channel];
+        for (let i = 0; i < frames; i++) {
+          target[i] = source[(emitted + i) & RING_MASK];
+        }
+      }
+      output.forEach(ring => {
+        for (let i = 0; i < frames; i++) {
+          ring[(emitted + i) & RING_MASK] = 0;
+        }
+      });
+      emitted += frames;
+    }
+  };
+}
+
+export type PitchShifter = ReturnType<typeof createPitchShifter>;
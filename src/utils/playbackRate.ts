@@ -0,0 +1,18 @@
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 4;
+
+export const PLAYBACK_RATE_PRESETS = [0.25, 0.5, 0.75, 1, 1.5, 2, 4];
+
+/**
+ * Keeps a playback rate within what the player offers
+ */
+export function clampPlaybackRate(rate: number): number {
+  return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+}
+
+/**
+ * Formats a playback rate as e.g. "0.75x"
+ */
+export function formatPlaybackRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}x`;
+}
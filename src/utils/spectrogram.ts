@@ -0,0 +1,268 @@
+import { type ThemePalette } from '@/utils/visualizerHelpers';
+import { parseColor } from '@/utils/customThemes';
+import { DEFAULT_SPECTRUM_OPTIONS } from '@/utils/fft';
+import {
+  type FrequencyLayout,
+  type FrequencyScale,
+  clampFrequencyScale,
+  getFrequencyTicks,
+  positionToFrequency
+} from '@/utils/frequencyScale';
+import { type Canvas2DContext } from '@/utils/visualizerDrawing';
+
+export type SpectrogramColormap = 'magma' | 'viridis' | 'grayscale' | 'theme';
+
+export const SPECTROGRAM_COLORMAPS: Array<{ id: SpectrogramColormap; label: string }> = [
+  { id: 'magma', label: 'Magma' },
+  { id: 'viridis', label: 'Viridis' },
+  { id: 'grayscale', label: 'Grayscale' },
+  { id: 'theme', label: 'Current theme' }
+];
+
+/**
+ * How the spectrogram maps levels to colors
+ */
+export interface SpectrogramSettings {
+  colormap: SpectrogramColormap;
+  // Levels at or below minDecibels are the colormap's first color, at or above maxDecibels its last
+  minDecibels: number;
+  maxDecibels: number;
+}
+
+// The dB range can only be narrowed within the analyser's own range
+export const SPECTROGRAM_DECIBEL_RANGE: [number, number] = [
+  DEFAULT_SPECTRUM_OPTIONS.minDecibels,
+  DEFAULT_SPECTRUM_OPTIONS.maxDecibels
+];
+
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
+  colormap: 'magma',
+  minDecibels: DEFAULT_SPECTRUM_OPTIONS.minDecibels,
+  maxDecibels: DEFAULT_SPECTRUM_OPTIONS.maxDecibels
+};
+
+// Evenly spaced samples of matplotlib's perceptually uniform colormaps
+const COLORMAP_STOPS: Record<Exclude<SpectrogramColormap, 'theme'>, string[]> = {
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+  viridis: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+  grayscale: ['#000000', '#ffffff']
+};
+
+const LEGEND_WIDTH = 8;
+
+/**
+ * Interpolates color stops into a 256-entry RGBA lookup table
+ */
+function buildColormap(stops: string[]): Uint8ClampedArray {
+  const colors = stops.map(stop => parseColor(stop) || { r: 0, g: 0, b: 0, a: 1 });
+  const table = new Uint8ClampedArray(256 * 4);
+
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (colors.length - 1);
+    const index = Math.min(colors.length - 2, Math.floor(position));
+    const fraction = position - index;
+    const from = colors[index];
+    const to = colors[index + 1];
+    table[i * 4] = from.r + (to.r - from.r) * fraction;
+    table[i * 4 + 1] = from.g + (to.g - from.g) * fraction;
+    table[i * 4 + 2] = from.b + (to.b - from.b) * fraction;
+    table[i * 4 + 3] = 255;
+  }
+
+  return table;
+}
+
+/**
+ * Color stops for a colormap; the theme colormap fades from black through the
+ * theme's gradient to its highlight
+ */
+function getColormapStops(colormap: SpectrogramColormap, palette: ThemePalette): string[] {
+  if (colormap !== 'theme') return COLORMAP_STOPS[colormap];
+  // Theme colors are translucent; the table is opaque, so drop their alpha
+  const opaque = (color: string) => color.replace(/,\s*[\d.]+\)$/, ', 1)');
+  return ['#000000', opaque(palette.gradient[0]), opaque(palette.gradient[1]), opaque(palette.highlight)];
+}
+
+function createHistoryCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Options for drawing one spectrogram frame
+ */
+export interface SpectrogramDrawOptions {
+  dimensions: { width: number; height: number };
+  palette: ThemePalette;
+  settings: SpectrogramSettings;
+  frequencyLayout?: FrequencyLayout;
+  showFrequencyAxis?: boolean;
+}
+
+/**
+ * Draws a spectrogram that scrolls right to left. Past columns are kept in a
+ * history canvas that's shifted by one pixel per frame, so each frame only
+ * computes one new column however large the FFT is.
+ */
+export function createSpectrogramRenderer() {
+  let history: OffscreenCanvas | HTMLCanvasElement | null = null;
+  let historyCtx: Canvas2DContext | null = null;
+  let column: ImageData | null = null;
+  // Fractional analyser bin shown by each pixel row, top row first
+  let rowBins: Float32Array | null = null;
+  let rowKey = '';
+  let colormap: Uint8ClampedArray | null = null;
+  let colormapKey = '';
+
+  const ensureHistory = (width: number, height: number) => {
+    if (history && history.width === width && history.height === height) return;
+    history = createHistoryCanvas(width, height);
+    historyCtx = history.getContext('2d') as Canvas2DContext | null;
+    column = historyCtx?.createImageData(1, height) ?? null;
+    historyCtx?.fillRect(0, 0, width, height);
+  };
+
+  const ensureRowBins = (height: number, binCount: number, scale: FrequencyScale | null, sampleRate: number) => {
+    const key = `${height}:${binCount}:${scale ? `${scale.type}:${scale.minHz}:${scale.maxHz}:${sampleRate}` : 'bins'}`;
+    if (key === rowKey && rowBins) return;
+
+    rowBins = new Float32Array(height);
+    const binWidth = sampleRate / 2 / binCount;
+    for (let row = 0; row < height; row++) {
+      const position = 1 - (row + 0.5) / height;
+      rowBins[row] = scale
+        ? Math.min(binCount - 1, positionToFrequency(scale, position) / binWidth)
+        : position * (binCount - 1);
+    }
+    rowKey = key;
+  };
+
+  const ensureColormap = (settings: SpectrogramSettings, palette: ThemePalette) => {
+    const stops = getColormapStops(settings.colormap, palette);
+    const key = stops.join('|');
+    if (key === colormapKey && colormap) return;
+    colormap = buildColormap(stops);
+    colormapKey = key;
+  };
+
+  return {
+    /**
+     * Adds the current frame as a new column and draws the spectrogram
+     * @param ctx Target context, already scaled to CSS pixels
+     * @param frequencyData Byte frequency data
+     * @param options Size, colors, level range and frequency scale
+     */
+    draw(ctx: Canvas2DContext, frequencyData: Uint8Array, options: SpectrogramDrawOptions): void {
+      const { palette, settings, frequencyLayout, showFrequencyAxis = false } = options;
+      const width = Math.max(1, Math.round(options.dimensions.width));
+      const height = Math.max(1, Math.round(options.dimensions.height));
+
+      ensureHistory(width, height);
+      if (!history || !historyCtx || !column) return;
+
+      // Third-octave bands are a bar layout; rows follow the equivalent log scale
+      const scale = frequencyLayout && clampFrequencyScale(
+        frequencyLayout.scale.type === 'third-octave'
+          ? { ...frequencyLayout.scale, type: 'log' }
+          : frequencyLayout.scale,
+        frequencyLayout.sampleRate
+      );
+      ensureRowBins(height, frequencyData.length, scale ?? null, frequencyLayout?.sampleRate ?? 0);
+      ensureColormap(settings, palette);
+
+      // Bytes span the analyser's dB range; rescale them to the chosen one
+      const [analyserMin, analyserMax] = SPECTROGRAM_DECIBEL_RANGE;
+      const byteToDecibels = (analyserMax - analyserMin) / 255;
+      const range = Math.max(1, settings.maxDecibels - settings.minDecibels);
+      const pixels = column.data;
+
+      for (let row = 0; row < height; row++) {
+        const bin = rowBins[row];
+        const lower = Math.floor(bin);
+        const upper = Math.min(frequencyData.length - 1, lower + 1);
+        const fraction = bin - lower;
+        const byte = frequencyData[lower] * (1 - fraction) + frequencyData[upper] * fraction;
+        const decibels = analyserMin + byte * byteToDecibels;
+        const level = Math.round(Math.min(1, Math.max(0, (decibels - settings.minDecibels) / range)) * 255);
+
+        pixels[row * 4] = colormap[level * 4];
+        pixels[row * 4 + 1] = colormap[level * 4 + 1];
+        pixels[row * 4 + 2] = colormap[level * 4 + 2];
+        pixels[row * 4 + 3] = 255;
+      }
+
+      // Shift the history one column left and add the new column on the right
+      historyCtx.globalCompositeOperation = 'copy';
+      historyCtx.drawImage(history, -1, 0);
+      historyCtx.globalCompositeOperation = 'source-over';
+      historyCtx.putImageData(column, width - 1, 0);
+
+      ctx.drawImage(history, 0, 0, options.dimensions.width, options.dimensions.height);
+
+      if (showFrequencyAxis && scale) {
+        drawSpectrogramAxis(ctx, scale, options.dimensions, settings, colormap);
+      }
+    },
+
+    /**
+     * Clears the history, e.g. when the source changes
+     */
+    reset(): void {
+      if (history && historyCtx) {
+        historyCtx.fillStyle = '#000';
+        historyCtx.fillRect(0, 0, history.width, history.height);
+      }
+    }
+  };
+}
+
+export type SpectrogramRenderer = ReturnType<typeof createSpectrogramRenderer>;
+
+/**
+ * Frequency labels down the left edge and a level legend down the right
+ */
+function drawSpectrogramAxis(
+  ctx: Canvas2DContext,
+  scale: FrequencyScale,
+  { width, height }: { width: number; height: number },
+  settings: SpectrogramSettings,
+  colormap: Uint8ClampedArray
+): void {
+  ctx.save();
+  ctx.font = '10px sans-serif';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.lineWidth = 1;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  getFrequencyTicks(scale).forEach(({ label, position }) => {
+    const y = Math.min(height - 6, Math.max(6, height * (1 - position)));
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(4, y);
+    ctx.stroke();
+    ctx.fillText(label, 6, y);
+  });
+
+  // Level legend: the colormap from bottom (quiet) to top (loud)
+  const legendX = width - LEGEND_WIDTH - 4;
+  const legendTop = height * 0.2;
+  const legendHeight = height * 0.6;
+  for (let i = 0; i < legendHeight; i++) {
+    const level = Math.round((1 - i / legendHeight) * 255);
+    ctx.fillStyle = `rgb(${colormap[level * 4]}, ${colormap[level * 4 + 1]}, ${colormap[level * 4 + 2]})`;
+    ctx.fillRect(legendX, legendTop + i, LEGEND_WIDTH, 1);
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.textAlign = 'right';
+  ctx.fillText(`${settings.maxDecibels} dB`, legendX - 4, legendTop);
+  ctx.fillText(`${settings.minDecibels} dB`, legendX - 4, legendTop + legendHeight);
+  ctx.restore();
+}
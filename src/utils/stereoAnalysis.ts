@@ -0,0 +1,159 @@
+// Level readings below this are shown as silence
+export const METER_FLOOR_DB = -60;
+// How fast the correlation and width readings settle, in seconds
+const READING_SMOOTHING = 0.3;
+// How long a level peak is held before it falls back, in seconds
+const PEAK_HOLD = 1.5;
+// How fast a held peak falls afterwards, in dB per second
+const PEAK_FALL = 20;
+// Width reading for material that's all side, e.g. one channel inverted
+const MAX_WIDTH = 2;
+
+/**
+ * Level of one channel
+ */
+export interface ChannelLevel {
+  rms: number;
+  peak: number;
+  // Highest recent peak, in dBFS, held for a moment and then falling
+  heldPeak: number;
+}
+
+/**
+ * Stereo image of the current frame
+ */
+export interface StereoLevels {
+  left: ChannelLevel;
+  right: ChannelLevel;
+  // Phase correlation, +1 mono, 0 unrelated, -1 out of phase
+  correlation: number;
+  // Side level relative to mid: 0 mono, 1 equally wide as centred
+  width: number;
+}
+
+/**
+ * Per-channel data for the stereo visualizations
+ */
+export interface StereoState {
+  leftFrequency: Uint8Array;
+  rightFrequency: Uint8Array;
+  // Samples, -1 to 1
+  leftTime: Float32Array;
+  rightTime: Float32Array;
+  levels: StereoLevels;
+}
+
+const silentChannel: ChannelLevel = { rms: 0, peak: 0, heldPeak: METER_FLOOR_DB };
+
+export const EMPTY_STEREO_STATE: StereoState = {
+  leftFrequency: new Uint8Array(),
+  rightFrequency: new Uint8Array(),
+  leftTime: new Float32Array(),
+  rightTime: new Float32Array(),
+  levels: { left: silentChannel, right: silentChannel, correlation: 0, width: 0 }
+};
+
+/**
+ * Converts a linear level to dBFS, clamped to the meter floor
+ */
+export function toDecibels(level: number): number {
+  return level > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(level)) : METER_FLOOR_DB;
+}
+
+/**
+ * Follows levels, phase correlation and stereo width across frames
+ */
+export function createStereoMeter() {
+  let correlation = 0;
+  let width = 0;
+  let lastTime: number | null = null;
+  const held = {
+    left: { level: METER_FLOOR_DB, time: -Infinity },
+    right: { level: METER_FLOOR_DB, time: -Infinity }
+  };
+
+  const holdPeak = (channel: 'left' | 'right', peak: number, time: number, elapsed: number) => {
+    const decibels = toDecibels(peak);
+    const hold = held[channel];
+    if (decibels >= hold.level) {
+      hold.level = decibels;
+      hold.time = time;
+    } else if (time - hold.time > PEAK_HOLD) {
+      hold.level = Math.max(decibels, hold.level - PEAK_FALL * elapsed);
+    }
+    return hold.level;
+  };
+
+  return {
+    /**
+     * Measures one frame of time-domain samples
+     * @param left Left channel samples
+     * @param right Right channel samples
+     * @param time Time of the frame in seconds
+     * @returns Levels for this frame
+     */
+    process(left: Float32Array, right: Float32Array, time: number): StereoLevels {
+      const elapsed = lastTime === null ? 0 : Math.max(0, time - lastTime);
+      lastTime = time;
+
+      const length = Math.min(left.length, right.length);
+      let leftSquares = 0;
+      let rightSquares = 0;
+      let product = 0;
+      let midSquares = 0;
+      let sideSquares = 0;
+      let leftPeak = 0;
+      let rightPeak = 0;
+
+      for (let i = 0; i < length; i++) {
+        const l = left[i];
+        const r = right[i];
+        leftSquares += l * l;
+        rightSquares += r * r;
+        product += l * r;
+        midSquares += (l + r) * (l + r);
+        sideSquares += (l - r) * (l - r);
+        leftPeak = Math.max(leftPeak, Math.abs(l));
+        rightPeak = Math.max(rightPeak, Math.abs(r));
+      }
+
+      // Silence has no phase; let the readings drift back to neutral
+      const energy = Math.sqrt(leftSquares * rightSquares);
+      const frameCorrelation = energy > 1e-10 ? product / energy : 0;
+      const frameWidth = midSquares > 1e-10
+        ? Math.min(MAX_WIDTH, Math.sqrt(sideSquares / midSquares))
+        : sideSquares > 1e-10 ? MAX_WIDTH : 0;
+      const smoothing = elapsed ? 1 - Math.exp(-elapsed / READING_SMOOTHING) : 1;
+      correlation += (frameCorrelation - correlation) * smoothing;
+      width += (frameWidth - width) * smoothing;
+
+      return {
+        left: {
+          rms: length ? Math.sqrt(leftSquares / length) : 0,
+          peak: leftPeak,
+          heldPeak: holdPeak('left', leftPeak, time, elapsed)
+        },
+        right: {
+          rms: length ? Math.sqrt(rightSquares / length) : 0,
+          peak: rightPeak,
+          heldPeak: holdPeak('right', rightPeak, time, elapsed)
+        },
+        correlation,
+        width
+      };
+    },
+
+    /**
+     * Forgets history, e.g. when the source changes
+     */
+    reset(): void {
+      correlation = 0;
+      width = 0;
+      lastTime = null;
+      held.left = { level: METER_FLOOR_DB, time: -Infinity };
+      held.right = { level: METER_FLOOR_DB, time: -Infinity };
+    }
+  };
+}
+
+export type StereoMeter = ReturnType<typeof createStereoMeter>;
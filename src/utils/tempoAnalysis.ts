@@ -0,0 +1,399 @@
+import { fft, createBlackmanWindow } from '@/utils/fft';
+
+/**
+ * A stretch of the track with a steady tempo
+ */
+export interface TempoSegment {
+  start: number;
+  end: number;
+  bpm: number;
+}
+
+/**
+ * Result of analysing a whole track
+ */
+export interface TempoAnalysis {
+  bpm: number;
+  // 0-1, how clearly the track has a single periodicity
+  confidence: number;
+  tempoMap: TempoSegment[];
+  // Beat and downbeat times in seconds
+  beats: number[];
+  downbeats: number[];
+  duration: number;
+}
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempo estimates are biased towards this, which resolves most half/double-time ambiguity
+const PRIOR_BPM = 120;
+// Local tempo is measured over windows this long
+const MAP_WINDOW_SECONDS = 10;
+const MAP_HOP_SECONDS = 5;
+// Windows whose tempo differs by less than this belong to the same segment
+const SEGMENT_TOLERANCE = 0.04;
+// How strongly beat tracking sticks to the expected period
+const TIGHTNESS = 100;
+// Frequencies below this carry the kick drum, which usually marks the downbeat
+const LOW_BAND_HZ = 200;
+const BEATS_PER_BAR = 4;
+
+/**
+ * Computes onset strength envelopes: log-magnitude spectral flux over the
+ * whole spectrum, and over the low band only
+ */
+function computeOnsetEnvelopes(samples: Float32Array, sampleRate: number) {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const binCount = FRAME_SIZE / 2;
+  const lowBins = Math.max(2, Math.ceil(LOW_BAND_HZ / (sampleRate / FRAME_SIZE)));
+  const blackman = createBlackmanWindow(FRAME_SIZE);
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(binCount);
+  let current = new Float32Array(binCount);
+  const onset = new Float32Array(frameCount);
+  const lowOnset = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * blackman[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let flux = 0;
+    let lowFlux = 0;
+    for (let bin = 1; bin < binCount; bin++) {
+      current[bin] = Math.log1p(100 * Math.hypot(real[bin], imag[bin]));
+      const diff = current[bin] - previous[bin];
+      if (diff > 0 && frame > 0) {
+        flux += diff;
+        if (bin < lowBins) lowFlux += diff;
+      }
+    }
+    onset[frame] = flux;
+    lowOnset[frame] = lowFlux;
+    [previous, current] = [current, previous];
+  }
+
+  return { onset: normalizeEnvelope(onset, sampleRate), lowOnset: normalizeEnvelope(lowOnset, sampleRate) };
+}
+
+/**
+ * Removes the local mean (so sustained loudness doesn't count as onsets),
+ * half-wave rectifies and scales to unit deviation
+ */
+function normalizeEnvelope(envelope: Float32Array, sampleRate: number): Float32Array {
+  const radius = Math.round((0.25 * sampleRate) / HOP_SIZE);
+  const result = new Float32Array(envelope.length);
+  let sum = 0;
+  let count = 0;
+  let start = 0;
+  let end = 0;
+
+  for (let i = 0; i < envelope.length; i++) {
+    while (end < envelope.length && end <= i + radius) {
+      sum += envelope[end++];
+      count++;
+    }
+    while (start < i - radius) {
+      sum -= envelope[start++];
+      count--;
+    }
+    result[i] = Math.max(0, envelope[i] - sum / count);
+  }
+
+  let squares = 0;
+  for (let i = 0; i < result.length; i++) squares += result[i] * result[i];
+  const deviation = Math.sqrt(squares / Math.max(1, result.length)) || 1;
+  for (let i = 0; i < result.length; i++) result[i] /= deviation;
+
+  return result;
+}
+
+/**
+ * Finds the strongest beat period in part of the envelope by autocorrelation
+ * @returns Period in envelope frames and a 0-1 confidence
+ */
+function estimatePeriod(
+  envelope: Float32Array,
+  frameRate: number,
+  start = 0,
+  end = envelope.length
+): { period: number; confidence: number } | null {
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  if (end - start <= maxLag * 2) return null;
+
+  const autocorrelation = new Float32Array(maxLag * 2 + 2);
+  for (let lag = minLag; lag < autocorrelation.length; lag++) {
+    let sum = 0;
+    for (let i = start; i + lag < end; i++) {
+      sum += envelope[i] * envelope[i + lag];
+    }
+    autocorrelation[lag] = sum / (end - start - lag);
+  }
+
+  // Weight by a log-normal prior around PRIOR_BPM, and reward lags whose
+  // double is also strong (a real beat repeats every bar)
+  let bestLag = -1;
+  let bestScore = -Infinity;
+  let total = 0;
+  const scores = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PRIOR_BPM) ** 2);
+    const score = (autocorrelation[lag] + 0.5 * autocorrelation[lag * 2]) * prior;
+    scores[lag] = score;
+    total += Math.max(0, score);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || bestScore <= 0) return null;
+
+  // Parabolic interpolation for a fractional period
+  let period = bestLag;
+  if (bestLag > minLag && bestLag < maxLag) {
+    const left = scores[bestLag - 1];
+    const right = scores[bestLag + 1];
+    const denominator = left - 2 * bestScore + right;
+    if (denominator < 0) {
+      period += (0.5 * (left - right)) / denominator;
+    }
+  }
+
+  const mean = total / (maxLag - minLag + 1);
+  return { period, confidence: Math.max(0, Math.min(1, 1 - mean / bestScore)) };
+}
+
+/**
+ * Picks the octave (half, same or double) of a local tempo closest to the global one
+ */
+function alignOctave(bpm: number, reference: number): number {
+  return [bpm / 2, bpm, bpm * 2].reduce((best, candidate) =>
+    Math.abs(Math.log2(candidate / reference)) < Math.abs(Math.log2(best / reference)) ? candidate : best
+  );
+}
+
+/**
+ * Splits the track into segments of steady tempo
+ */
+function buildTempoMap(
+  envelope: Float32Array,
+  frameRate: number,
+  globalBpm: number,
+  duration: number
+): TempoSegment[] {
+  const windowFrames = Math.round(MAP_WINDOW_SECONDS * frameRate);
+  const hopFrames = Math.round(MAP_HOP_SECONDS * frameRate);
+  const segments: TempoSegment[] = [];
+  let members: number[] = [];
+
+  for (let start = 0; start + windowFrames <= envelope.length; start += hopFrames) {
+    const estimate = estimatePeriod(envelope, frameRate, start, start + windowFrames);
+    if (!estimate) continue;
+
+    const bpm = alignOctave((60 * frameRate) / estimate.period, globalBpm);
+    const center = (start + windowFrames / 2) / frameRate;
+    const current = segments[segments.length - 1];
+
+    if (current && Math.abs(bpm - current.bpm) / current.bpm <= SEGMENT_TOLERANCE) {
+      members.push(bpm);
+      current.bpm = members.reduce((sum, value) => sum + value, 0) / members.length;
+      current.end = center;
+    } else {
+      if (current) current.end = center;
+      segments.push({ start: current ? center : 0, end: center, bpm });
+      members = [bpm];
+    }
+  }
+
+  if (!segments.length) {
+    return [{ start: 0, end: duration, bpm: globalBpm }];
+  }
+  segments[segments.length - 1].end = duration;
+  return segments;
+}
+
+/**
+ * Tracks beats with dynamic programming: each beat is placed on a strong onset
+ * about one (local) beat period after the previous one
+ * @returns Beat positions in envelope frames
+ */
+function trackBeats(envelope: Float32Array, frameRate: number, tempoMap: TempoSegment[]): number[] {
+  const length = envelope.length;
+  if (!length) return [];
+
+  const periodAt = (frame: number) => {
+    const time = frame / frameRate;
+    const segment = tempoMap.find(item => time < item.end) || tempoMap[tempoMap.length - 1];
+    return (60 * frameRate) / segment.bpm;
+  };
+
+  const score = new Float32Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+
+  for (let frame = 0; frame < length; frame++) {
+    const period = periodAt(frame);
+    const from = Math.max(0, Math.round(frame - 2 * period));
+    const to = frame - Math.round(period / 2);
+    let best = 0;
+    let bestFrame = -1;
+
+    for (let previous = from; previous <= to; previous++) {
+      const penalty = TIGHTNESS * Math.log((frame - previous) / period) ** 2;
+      const candidate = score[previous] - penalty;
+      if (bestFrame === -1 || candidate > best) {
+        best = candidate;
+        bestFrame = previous;
+      }
+    }
+
+    score[frame] = envelope[frame] + (bestFrame === -1 ? 0 : best);
+    backlink[frame] = bestFrame;
+  }
+
+  // Start from the best-scoring frame within the last beat period
+  const lastPeriod = Math.round(periodAt(length - 1));
+  let frame = length - 1;
+  for (let i = Math.max(0, length - lastPeriod); i < length; i++) {
+    if (score[i] > score[frame]) frame = i;
+  }
+
+  const beats: number[] = [];
+  while (frame >= 0) {
+    beats.push(frame);
+    frame = backlink[frame];
+  }
+  beats.reverse();
+
+  // The chain runs from the very start to the very end; drop beats in the
+  // intro and outro that don't land on an actual onset
+  const mean = beats.reduce((sum, beat) => sum + envelope[beat], 0) / beats.length;
+  let first = 0;
+  let last = beats.length - 1;
+  while (first < last && envelope[beats[first]] < mean * 0.5) first++;
+  while (last > first && envelope[beats[last]] < mean * 0.5) last--;
+  return beats.slice(first, last + 1);
+}
+
+/**
+ * Replaces each segment's tempo with the average spacing of the beats tracked
+ * in it, which is finer than the autocorrelation's lag resolution
+ */
+function refineTempoMap(tempoMap: TempoSegment[], beats: number[]): void {
+  tempoMap.forEach(segment => {
+    const inside = beats.filter(beat => beat >= segment.start && beat < segment.end);
+    if (inside.length >= 4) {
+      const bpm = (60 * (inside.length - 1)) / (inside[inside.length - 1] - inside[0]);
+      segment.bpm = Math.round(bpm * 10) / 10;
+    }
+  });
+}
+
+/**
+ * Estimates tempo, a tempo map, beats and downbeats for a whole track
+ * @param samples Mono samples
+ * @param sampleRate Sample rate of the samples
+ * @returns Tempo analysis, with bpm 0 when no beat was found
+ */
+export function analyzeTempo(samples: Float32Array, sampleRate: number): TempoAnalysis {
+  const duration = samples.length / sampleRate;
+  const frameRate = sampleRate / HOP_SIZE;
+  const { onset, lowOnset } = computeOnsetEnvelopes(samples, sampleRate);
+  const estimate = estimatePeriod(onset, frameRate);
+
+  if (!estimate) {
+    return { bpm: 0, confidence: 0, tempoMap: [], beats: [], downbeats: [], duration };
+  }
+
+  const tempoMap = buildTempoMap(onset, frameRate, (60 * frameRate) / estimate.period, duration);
+  const beatFrames = trackBeats(onset, frameRate, tempoMap);
+  const beats = beatFrames.map(frame => (frame * HOP_SIZE + FRAME_SIZE / 2) / sampleRate);
+  refineTempoMap(tempoMap, beats);
+
+  // The track's tempo is the one it spends the most time at
+  const bpm = tempoMap.reduce((longest, segment) =>
+    segment.end - segment.start > longest.end - longest.start ? segment : longest
+  ).bpm;
+
+  // Assume 4/4 and pick the bar position whose beats have the most low-end attack
+  let bestOffset = 0;
+  let bestStrength = -Infinity;
+  for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+    let strength = 0;
+    let count = 0;
+    for (let i = offset; i < beatFrames.length; i += BEATS_PER_BAR) {
+      strength += lowOnset[beatFrames[i]] + 0.5 * onset[beatFrames[i]];
+      count++;
+    }
+    if (count && strength / count > bestStrength) {
+      bestStrength = strength / count;
+      bestOffset = offset;
+    }
+  }
+  const downbeats = beats.filter((_, index) => index % BEATS_PER_BAR === bestOffset);
+
+  return { bpm, confidence: estimate.confidence, tempoMap, beats, downbeats, duration };
+}
+
+/**
+ * Local tempo at a point in the track
+ * @param analysis Tempo analysis of the track
+ * @param time Playback position in seconds
+ * @returns Tempo in BPM, or null when the track has no beat
+ */
+export function getTempoAt(analysis: TempoAnalysis, time: number): number | null {
+  if (!analysis.bpm) return null;
+  const segment = analysis.tempoMap.find(item => time < item.end) || analysis.tempoMap[analysis.tempoMap.length - 1];
+  return segment ? segment.bpm : analysis.bpm;
+}
+
+/**
+ * Number of beats since the first one, with the fraction giving the position
+ * within the current beat. Before the first and after the last tracked beat
+ * the position is extrapolated at the global tempo, so it never stalls.
+ * @param analysis Tempo analysis of the track
+ * @param time Playback position in seconds
+ * @returns Beat position, or null when the track has no beat
+ */
+export function getBeatPosition(analysis: TempoAnalysis, time: number): number | null {
+  const { beats, bpm } = analysis;
+  if (!bpm || beats.length < 2) return null;
+
+  const period = 60 / bpm;
+  if (time < beats[0]) return (time - beats[0]) / period;
+  if (time >= beats[beats.length - 1]) return beats.length - 1 + (time - beats[beats.length - 1]) / period;
+
+  // Binary search for the beat at or before time
+  let low = 0;
+  let high = beats.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (beats[middle] <= time) low = middle;
+    else high = middle;
+  }
+  return low + (time - beats[low]) / (beats[high] - beats[low]);
+}
+
+/**
+ * Bar and beat-in-bar at a point in the track, both counted from 1
+ * @param analysis Tempo analysis of the track
+ * @param time Playback position in seconds
+ * @returns Bar position, or null before the first downbeat
+ */
+export function getBarPosition(analysis: TempoAnalysis, time: number): { bar: number; beat: number } | null {
+  const { beats, downbeats } = analysis;
+  const bar = downbeats.filter(downbeat => downbeat <= time).length;
+  if (!bar) return null;
+
+  const barStart = downbeats[bar - 1];
+  const beat = beats.filter(beatTime => beatTime >= barStart && beatTime <= time).length;
+  return { bar, beat: Math.min(BEATS_PER_BAR, Math.max(1, beat)) };
+}
@@ -0,0 +1,76 @@
+import { type TempoAnalysis, analyzeTempo } from '@/utils/tempoAnalysis';
+import { type KeyAnalysis, analyzeKey } from '@/utils/chroma';
+import { OFFLINE_SAMPLE_RATE, getMonoAudio } from '@/utils/offlineAudio';
+
+/**
+ * Everything that's estimated from a whole track rather than frame by frame
+ */
+export interface TrackAnalysis {
+  tempo: TempoAnalysis;
+  key: KeyAnalysis;
+}
+
+/**
+ * Analyses decoded samples
+ * @param samples Mono samples
+ * @param sampleRate Sample rate of the samples
+ */
+export function analyzeTrackSamples(samples: Float32Array, sampleRate: number): TrackAnalysis {
+  return {
+    tempo: analyzeTempo(samples, sampleRate),
+    key: analyzeKey(samples, sampleRate)
+  };
+}
+
+/**
+ * Runs the analysis in a worker so long tracks don't stall the visualizer
+ * @param samples Mono samples, handed over to the worker
+ */
+function analyzeInWorker(samples: Float32Array, sampleRate: number): Promise<TrackAnalysis> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(analyzeTrackSamples(samples, sampleRate));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TrackAnalysis>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+    worker.postMessage({ samples, sampleRate }, [samples.buffer]);
+  });
+}
+
+/**
+ * Decodes a whole file and estimates its tempo, beat grid, tuning and key
+ * @param file Audio file
+ * @returns Track analysis
+ */
+export async function analyzeTrack(file: Blob): Promise<TrackAnalysis> {
+  // The decode is shared with the other analyses, so the worker gets a copy
+  const samples = (await getMonoAudio(file)).slice();
+  return analyzeInWorker(samples, OFFLINE_SAMPLE_RATE);
+}
+
+// Analyses are kept per file so going back to a track doesn't decode it again
+const analysisCache = new WeakMap<Blob, Promise<TrackAnalysis>>();
+
+/**
+ * Analyses a file once, sharing the result with every later caller
+ * @param file Audio file
+ * @returns Track analysis
+ */
+export function getTrackAnalysis(file: Blob): Promise<TrackAnalysis> {
+  let analysis = analysisCache.get(file);
+  if (!analysis) {
+    analysis = analyzeTrack(file);
+    analysisCache.set(file, analysis);
+    // Let a failed analysis be retried
+    analysis.catch(() => analysisCache.delete(file));
+  }
+  return analysis;
+}
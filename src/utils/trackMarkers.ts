@@ -0,0 +1,258 @@
+/**
+ * A named point in a track
+ */
+export interface CueMarker {
+  id: string;
+  name: string;
+  // Position in seconds
+  time: number;
+}
+
+/**
+ * The A–B loop of a track, in seconds. Either end can be set on its own.
+ */
+export interface LoopRegion {
+  start: number | null;
+  end: number | null;
+  enabled: boolean;
+}
+
+export interface TrackMarkers {
+  loop: LoopRegion;
+  // Sorted by time
+  cues: CueMarker[];
+}
+
+export const EMPTY_TRACK_MARKERS: TrackMarkers = {
+  loop: { start: null, end: null, enabled: false },
+  cues: []
+};
+
+// A loop has to be at least this long, in seconds
+export const MIN_LOOP_LENGTH = 0.05;
+// Jumping back from just after a cue goes to the one before it, like the
+// previous track button does
+const PREVIOUS_CUE_GRACE = 1;
+
+const STORAGE_KEY = 'harmonic-track-markers';
+
+let cueCounter = 0;
+
+/**
+ * The loop's start and end, once both are set and in order
+ * @returns Bounds in seconds, or null when the loop is incomplete
+ */
+export function getLoopBounds(loop: LoopRegion): { start: number; end: number } | null {
+  if (loop.start === null || loop.end === null) return null;
+  if (loop.end - loop.start < MIN_LOOP_LENGTH) return null;
+  return { start: loop.start, end: loop.end };
+}
+
+/**
+ * Sets point A. An end before the new start is dropped.
+ * @param markers Current markers
+ * @param time Position in seconds
+ */
+export function setLoopStart(markers: TrackMarkers, time: number): TrackMarkers {
+  const end = markers.loop.end !== null && markers.loop.end - time >= MIN_LOOP_LENGTH ? markers.loop.end : null;
+  return { ...markers, loop: { start: time, end, enabled: end !== null && markers.loop.enabled } };
+}
+
+/**
+ * Sets point B, and turns the loop on once both points are set. A start
+ * after the new end is dropped.
+ * @param markers Current markers
+ * @param time Position in seconds
+ */
+export function setLoopEnd(markers: TrackMarkers, time: number): TrackMarkers {
+  const start = markers.loop.start !== null && time - markers.loop.start >= MIN_LOOP_LENGTH ? markers.loop.start : null;
+  return { ...markers, loop: { start, end: time, enabled: start !== null } };
+}
+
+export function toggleLoop(markers: TrackMarkers): TrackMarkers {
+  if (!getLoopBounds(markers.loop)) return markers;
+  return { ...markers, loop: { ...markers.loop, enabled: !markers.loop.enabled } };
+}
+
+export function clearLoop(markers: TrackMarkers): TrackMarkers {
+  return { ...markers, loop: EMPTY_TRACK_MARKERS.loop };
+}
+
+/**
+ * Adds a cue, named after its number unless a name is given
+ * @param markers Current markers
+ * @param time Position in seconds
+ * @param name Name of the cue
+ */
+export function addCue(markers: TrackMarkers, time: number, name?: string): TrackMarkers {
+  const cue: CueMarker = {
+    id: `cue-${Date.now()}-${cueCounter++}`,
+    name: name || `Cue ${markers.cues.length + 1}`,
+    time
+  };
+  return { ...markers, cues: [...markers.cues, cue].sort((a, b) => a.time - b.time) };
+}
+
+export function renameCue(markers: TrackMarkers, id: string, name: string): TrackMarkers {
+  return { ...markers, cues: markers.cues.map(cue => (cue.id === id ? { ...cue, name } : cue)) };
+}
+
+export function removeCue(markers: TrackMarkers, id: string): TrackMarkers {
+  return { ...markers, cues: markers.cues.filter(cue => cue.id !== id) };
+}
+
+/**
+ * Finds the cue to jump to from a position
+ * @param cues Cues sorted by time
+ * @param time Current position in seconds
+ * @param direction 1 for the next cue, -1 for the previous one
+ * @returns The cue, or null when there's none that way
+ */
+export function findAdjacentCue(cues: CueMarker[], time: number, direction: 1 | -1): CueMarker | null {
+  if (direction === 1) {
+    return cues.find(cue => cue.time > time + 0.01) ?? null;
+  }
+  const earlier = cues.filter(cue => cue.time < time - PREVIOUS_CUE_GRACE);
+  return earlier[earlier.length - 1] ?? null;
+}
+
+/**
+ * Keeps an audio element inside the loop. Timeupdate only fires a few times
+ * a second, so a timer is also set for the moment playback should reach the
+ * end, and rearmed whenever the position or rate changes.
+ * @param audio Element to keep in the loop
+ */
+export function createLoopEnforcer(audio: HTMLMediaElement) {
+  let bounds: { start: number; end: number } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Position at the last check. Playback wraps when it runs from before the
+  // end to past it; seeking past the end leaves the loop instead.
+  let lastTime = audio.currentTime;
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const check = () => {
+    const time = audio.currentTime;
+    if (bounds && lastTime < bounds.end && time >= bounds.end) {
+      audio.currentTime = bounds.start;
+      lastTime = bounds.start;
+    } else {
+      lastTime = time;
+    }
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (!bounds || audio.paused) return;
+    const remaining = (bounds.end - audio.currentTime) / (audio.playbackRate || 1);
+    if (remaining < 0) return;
+    timer = setTimeout(() => {
+      timer = null;
+      check();
+      schedule();
+    }, remaining * 1000);
+  };
+
+  const handleProgress = () => {
+    check();
+    schedule();
+  };
+  const handleSeeked = () => {
+    lastTime = audio.currentTime;
+    schedule();
+  };
+  const progressEvents = ['timeupdate', 'play', 'ratechange'] as const;
+  progressEvents.forEach(event => audio.addEventListener(event, handleProgress));
+  // 'timeupdate' also fires while seeking, with the new position
+  audio.addEventListener('seeking', handleSeeked);
+  audio.addEventListener('seeked', handleSeeked);
+  audio.addEventListener('pause', clearTimer);
+
+  return {
+    /**
+     * Sets the loop to keep to
+     * @param loop Loop, or null to stop looping
+     */
+    setLoop(loop: LoopRegion | null): void {
+      bounds = loop?.enabled ? getLoopBounds(loop) : null;
+      lastTime = audio.currentTime;
+      schedule();
+    },
+
+    dispose(): void {
+      clearTimer();
+      progressEvents.forEach(event => audio.removeEventListener(event, handleProgress));
+      audio.removeEventListener('seeking', handleSeeked);
+      audio.removeEventListener('seeked', handleSeeked);
+      audio.removeEventListener('pause', clearTimer);
+    }
+  };
+}
+
+export type LoopEnforcer = ReturnType<typeof createLoopEnforcer>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+function validateMarkers(value: unknown): TrackMarkers | null {
+  if (!isRecord(value) || !isRecord(value.loop) || !Array.isArray(value.cues)) return null;
+  const { start, end, enabled } = value.loop;
+  const cues = value.cues.flatMap(cue =>
+    isRecord(cue) && typeof cue.id === 'string' && typeof cue.name === 'string' && isTime(cue.time)
+      ? [{ id: cue.id, name: cue.name, time: cue.time }]
+      : []
+  );
+  return {
+    loop: {
+      start: isTime(start) ? start : null,
+      end: isTime(end) ? end : null,
+      enabled: enabled === true
+    },
+    cues: cues.sort((a, b) => a.time - b.time)
+  };
+}
+
+function readAllMarkers(): Record<string, unknown> {
+  const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  return isRecord(stored) ? stored : {};
+}
+
+/**
+ * Reads the saved markers of a track
+ * @param trackKey Key of the track, as from getLibraryTrackId()
+ * @returns Saved markers, or none
+ */
+export function loadTrackMarkers(trackKey: string): TrackMarkers {
+  try {
+    return validateMarkers(readAllMarkers()[trackKey]) ?? EMPTY_TRACK_MARKERS;
+  } catch (error) {
+    console.error('Could not load track markers:', error);
+    return EMPTY_TRACK_MARKERS;
+  }
+}
+
+/**
+ * Saves the markers of a track in this browser. Tracks without markers are
+ * dropped from storage.
+ * @param trackKey Key of the track, as from getLibraryTrackId()
+ * @param markers Markers to save
+ */
+export function saveTrackMarkers(trackKey: string, markers: TrackMarkers): void {
+  try {
+    const all = readAllMarkers();
+    const isEmpty = !markers.cues.length && markers.loop.start === null && markers.loop.end === null;
+    if (isEmpty) {
+      delete all[trackKey];
+    } else {
+      all[trackKey] = markers;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Could not save track markers:', error);
+  }
+}
@@ -0,0 +1,93 @@
+import { type ThemeBackground } from '@/utils/visualizerHelpers';
+import { type Canvas2DContext } from '@/utils/visualizerDrawing';
+
+/**
+ * Output frame size for recordings
+ */
+export interface RecordingResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RECORDING_RESOLUTIONS: RecordingResolution[] = [
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+  { id: 'square', label: '1080 × 1080 (square)', width: 1080, height: 1080 },
+  { id: 'vertical', label: '1080 × 1920 (vertical)', width: 1080, height: 1920 }
+];
+
+export const RECORDING_BITRATES = [2_500_000, 5_000_000, 8_000_000, 12_000_000];
+
+export const RECORDING_FRAME_RATE = 60;
+
+// Preferred first; the browser picks the first one it can encode
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+/**
+ * Checks whether this browser can record a canvas to video
+ * @returns True when captureStream and MediaRecorder are available
+ */
+export function isRecordingSupported(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Picks the best WebM format this browser's MediaRecorder supports
+ * @returns MIME type, or null if WebM can't be recorded
+ */
+export function getRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+}
+
+/**
+ * Fills a canvas with the theme's background gradient, as the page shows it
+ * behind the visualizer
+ * @param ctx Target context
+ * @param background Background colors of the current theme
+ */
+export function drawBackground(ctx: Canvas2DContext, background: ThemeBackground): void {
+  const { width, height } = ctx.canvas;
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, background.gradientFrom);
+  gradient.addColorStop(1, background.gradientTo);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * Paints one recording frame: the page background, then the visualizer
+ * canvas scaled to fit and centered. The frame keeps the shape the canvas is
+ * laid out at, which its drawing buffer only matches once a renderer has
+ * sized it.
+ * @param ctx Recording canvas context
+ * @param source Visualizer canvas, rendered on the main thread
+ * @param background Background colors of the current theme
+ */
+export function drawRecordingFrame(
+  ctx: CanvasRenderingContext2D,
+  source: HTMLCanvasElement,
+  background: ThemeBackground
+): void {
+  const { width, height } = ctx.canvas;
+  drawBackground(ctx, background);
+
+  const sourceWidth = source.clientWidth;
+  const sourceHeight = source.clientHeight;
+  if (!sourceWidth || !sourceHeight || !source.width || !source.height) return;
+
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
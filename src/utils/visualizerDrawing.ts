@@ -0,0 +1,892 @@
+import {
+  generateWaveform,
+  generateCircular,
+  getThemeColor,
+  getRainbowHue,
+  type ThemePalette
+} from '@/utils/visualizerHelpers';
+import { type BeatState, EMPTY_BEAT_STATE } from '@/utils/beatDetection';
+import { type ChromaState, PITCH_CLASSES } from '@/utils/chroma';
+import { type FrequencyLayout, clampFrequencyScale, getBandCount, getFrequencyTicks } from '@/utils/frequencyScale';
+import {
+  type ChannelLevel,
+  type StereoState,
+  METER_FLOOR_DB,
+  toDecibels
+} from '@/utils/stereoAnalysis';
+
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Animation clock for a frame. Live drawing uses wall-clock time; offline
+ * renders derive both values from the frame index so output is repeatable.
+ */
+export interface FrameClock {
+  // Seconds, only used as the phase of periodic motion
+  time: number;
+  // Rotation of the blob in radians
+  angle: number;
+  // Beats since the start of the track when its tempo is known; the fraction
+  // is the position within the current beat
+  beatPosition?: number;
+}
+
+// The blob turns 0.01 rad per frame at 60fps
+export const BLOB_ROTATION_PER_SECOND = 0.6;
+// With a known tempo the blob turns per beat instead, matching the speed above at 120 BPM
+export const BLOB_ROTATION_PER_BEAT = 0.3;
+
+/**
+ * Options shared by every visualization
+ */
+export interface DrawOptions {
+  dimensions: { width: number; height: number };
+  sensitivity: number;
+  volume: number;
+  palette: ThemePalette;
+  clock: FrameClock;
+  beat?: BeatState;
+  harmony?: ChromaState;
+  // Frequency scale for spectrum-based modes; bins are spread linearly without one
+  frequencyLayout?: FrequencyLayout;
+  showFrequencyAxis?: boolean;
+  // Per-channel data for the stereo modes
+  stereo?: StereoState;
+}
+
+const AXIS_COLOR = 'rgba(255, 255, 255, 0.45)';
+const GUIDE_COLOR = 'rgba(255, 255, 255, 0.12)';
+// Out-of-phase material cancels in mono, so the meter flags it
+const OUT_OF_PHASE_COLOR = 'rgba(255, 90, 90, 0.85)';
+
+/**
+ * Clamps the layout's range to what its sample rate can represent
+ */
+export function resolveLayout(layout?: FrequencyLayout): FrequencyLayout | undefined {
+  return layout && { scale: clampFrequencyScale(layout.scale, layout.sampleRate), sampleRate: layout.sampleRate };
+}
+
+/**
+ * Labels frequencies along a horizontal span, just above its bottom edge
+ */
+export function drawHorizontalFrequencyAxis(
+  ctx: Canvas2DContext,
+  layout: FrequencyLayout,
+  left: number,
+  span: number,
+  bottom: number
+): void {
+  ctx.save();
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.strokeStyle = AXIS_COLOR;
+  ctx.lineWidth = 1;
+
+  getFrequencyTicks(layout.scale).forEach(({ label, position }) => {
+    const x = left + position * span;
+    ctx.beginPath();
+    ctx.moveTo(x, bottom);
+    ctx.lineTo(x, bottom - 4);
+    ctx.stroke();
+    ctx.fillText(label, Math.min(Math.max(x, 12), left + span - 12), bottom - 6);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Labels frequencies round a circle, starting at 3 o'clock and going clockwise
+ */
+export function drawRadialFrequencyAxis(
+  ctx: Canvas2DContext,
+  layout: FrequencyLayout,
+  centerX: number,
+  centerY: number,
+  radius: number
+): void {
+  ctx.save();
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = AXIS_COLOR;
+
+  getFrequencyTicks(layout.scale).forEach(({ label, position }) => {
+    // The last tick would land on top of the first
+    if (position >= 0.99) return;
+    const angle = position * Math.PI * 2;
+    ctx.fillText(label, centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Placement of the bar visualizer's bars, shared by every renderer
+ */
+export interface BarGeometry {
+  bars: Array<{ x: number; height: number; value: number; position: number }>;
+  barWidth: number;
+  // Horizontal extent of all the bars
+  left: number;
+  span: number;
+  layout?: FrequencyLayout;
+}
+
+export function getBarGeometry(
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout
+): BarGeometry {
+  const { width, height } = dimensions;
+  const layout = resolveLayout(frequencyLayout);
+  const maxBars = Math.min(128, Math.floor(width / 8));
+  const numBars = layout ? Math.min(maxBars, getBandCount(layout.scale, maxBars)) : maxBars;
+  const values = generateWaveform(data, numBars, sensitivity, layout);
+  const barWidth = Math.max(2, (width / numBars) - 2);
+  const span = numBars * (barWidth + 2) - 2;
+  const left = (width - span) / 2;
+  // Bars jump on each beat and ease back as the pulse decays
+  const beatBoost = 1 + beat.pulse * 0.2;
+
+  const bars = values.map((value, i) => {
+    const position = i / numBars;
+    const positionEffect = 0.7 + Math.sin(position * Math.PI) * 0.6;
+    return {
+      x: left + i * (barWidth + 2),
+      height: Math.max(4, value * height * 0.8 * volume * positionEffect * beatBoost),
+      value,
+      position
+    };
+  });
+
+  return { bars, barWidth, left, span, layout };
+}
+
+export function drawBarVisualizer(
+  ctx: Canvas2DContext,
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout,
+  showAxis = false
+): void {
+  const { height } = dimensions;
+  const { bars, barWidth, left, span, layout } = getBarGeometry(
+    data, dimensions, sensitivity, volume, beat, frequencyLayout
+  );
+
+  ctx.shadowColor = theme.glow;
+  ctx.shadowBlur = 10;
+
+  bars.forEach(({ x, height: barHeight, value, position }) => {
+    ctx.shadowBlur = 10 * value + beat.bands.hihat.pulse * 6;
+
+    ctx.beginPath();
+    ctx.moveTo(x, height);
+    ctx.lineTo(x, height - barHeight + barWidth / 2);
+    ctx.arcTo(x, height - barHeight, x + barWidth / 2, height - barHeight, barWidth / 2);
+    ctx.arcTo(x + barWidth, height - barHeight, x + barWidth, height - barHeight + barWidth / 2, barWidth / 2);
+    ctx.lineTo(x + barWidth, height);
+    ctx.closePath();
+
+    ctx.fillStyle = getThemeColor(position, value, theme);
+    ctx.fill();
+
+    if (value > 0.1) {
+      ctx.beginPath();
+      ctx.arc(x + barWidth / 2, height - barHeight, barWidth / 2, 0, Math.PI * 2);
+      ctx.fillStyle = theme.highlight;
+      ctx.fill();
+    }
+  });
+
+  ctx.shadowBlur = 0;
+
+  if (showAxis && layout) {
+    drawHorizontalFrequencyAxis(ctx, layout, left, span, height);
+  }
+}
+
+/**
+ * Placement of the circular visualizer's core and spokes, shared by every renderer
+ */
+export interface CircularGeometry {
+  centerX: number;
+  centerY: number;
+  baseRadius: number;
+  coreRadius: number;
+  points: Array<{ x: number; y: number; value: number; angle: number }>;
+  layout?: FrequencyLayout;
+}
+
+export function getCircularGeometry(
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  clock: FrameClock,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout
+): CircularGeometry {
+  const { width, height } = dimensions;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const baseRadius = Math.min(width, height) * 0.35 * (1 + beat.pulse * 0.08);
+  const numPoints = 180;
+  const layout = resolveLayout(frequencyLayout);
+  const values = generateCircular(data, numPoints, sensitivity, layout);
+  const { time, beatPosition } = clock;
+  // The core breathes once per beat when the tempo is known, peaking on the beat
+  const pulseFactor = beatPosition === undefined
+    ? 0.1 + Math.sin(time) * 0.05
+    : 0.1 + Math.cos(beatPosition * Math.PI * 2) * 0.05;
+
+  const points = values.map((value, i) => {
+    const angle = (i / numPoints) * Math.PI * 2;
+    const waveEffect = 0.2 * Math.sin(angle * 3 + time * 2);
+    const distance = baseRadius + ((value + waveEffect) * baseRadius * 0.8 * volume);
+    return {
+      x: centerX + Math.cos(angle) * distance,
+      y: centerY + Math.sin(angle) * distance,
+      value,
+      angle
+    };
+  });
+
+  return { centerX, centerY, baseRadius, coreRadius: baseRadius * (0.1 + pulseFactor), points, layout };
+}
+
+export function drawCircularVisualizer(
+  ctx: Canvas2DContext,
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  clock: FrameClock,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout,
+  showAxis = false
+): void {
+  const { centerX, centerY, baseRadius, coreRadius, points, layout } = getCircularGeometry(
+    data, dimensions, sensitivity, volume, clock, beat, frequencyLayout
+  );
+
+  const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, baseRadius * 0.5);
+  gradient.addColorStop(0, theme.highlight);
+  gradient.addColorStop(0.5, theme.gradient[1]);
+  gradient.addColorStop(1, 'rgba(137, 207, 240, 0.1)');
+
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, coreRadius, 0, Math.PI * 2);
+  ctx.fillStyle = gradient;
+  ctx.shadowColor = theme.glow;
+  ctx.shadowBlur = 20;
+  ctx.fill();
+
+  ctx.shadowBlur = 0;
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+
+    const cpX = (current.x + next.x) / 2;
+    const cpY = (current.y + next.y) / 2;
+
+    ctx.quadraticCurveTo(current.x, current.y, cpX, cpY);
+  }
+
+  ctx.closePath();
+  ctx.strokeStyle = theme.gradient[0];
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.strokeStyle = theme.gradient[1];
+  ctx.lineWidth = 4;
+  ctx.globalAlpha = 0.5;
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  points.forEach(({ x, y, value, angle }) => {
+    const opacity = 0.1 + value * 0.9;
+    const lineWidth = 0.5 + value * 2;
+
+    ctx.beginPath();
+    ctx.moveTo(centerX, centerY);
+    ctx.lineTo(x, y);
+
+    const position = angle / (Math.PI * 2);
+    ctx.strokeStyle = getThemeColor(position, value, theme);
+    ctx.globalAlpha = opacity;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  });
+
+  ctx.globalAlpha = 1;
+
+  if (showAxis && layout) {
+    drawRadialFrequencyAxis(ctx, layout, centerX, centerY, baseRadius * 0.85);
+  }
+}
+
+export function drawWaveVisualizer(
+  ctx: Canvas2DContext,
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  beat: BeatState = EMPTY_BEAT_STATE
+): void {
+  const { width, height } = dimensions;
+  const centerY = height / 2;
+
+  if (!data.length) return;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, 0);
+  gradient.addColorStop(0, theme.gradient[0]);
+  gradient.addColorStop(0.5, theme.gradient[1]);
+  gradient.addColorStop(1, theme.gradient[2]);
+
+  ctx.lineWidth = 3 + beat.bands.snare.pulse * 2;
+  ctx.strokeStyle = gradient;
+  ctx.shadowColor = theme.glow;
+  ctx.shadowBlur = 10;
+
+  ctx.beginPath();
+
+  const sliceWidth = width / data.length;
+  let x = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const v = (data[i] / 128.0) - 1;
+    const y = centerY + v * centerY * sensitivity * volume;
+
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+
+    x += sliceWidth;
+  }
+
+  ctx.stroke();
+
+  ctx.beginPath();
+  x = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const v = (data[i] / 128.0) - 1;
+    const y = centerY - v * centerY * sensitivity * volume;
+
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+
+    x += sliceWidth;
+  }
+
+  ctx.strokeStyle = `${theme.gradient[0].replace('0.8', '0.4')}`;
+  ctx.stroke();
+
+  ctx.shadowBlur = 0;
+}
+
+export function drawBlobVisualizer(
+  ctx: Canvas2DContext,
+  data: Uint8Array,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  clock: FrameClock,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout
+): void {
+  const { width, height } = dimensions;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const baseRadius = Math.min(width, height) * 0.25 * (1 + beat.pulse * 0.15);
+  const numPoints = 64;
+  const values = generateWaveform(data, numPoints, sensitivity, resolveLayout(frequencyLayout));
+
+  const { time, angle: rotation } = clock;
+
+  ctx.save();
+
+  ctx.beginPath();
+
+  for (let i = 0; i <= numPoints; i++) {
+    const index = i % numPoints;
+    const angle = (index / numPoints) * Math.PI * 2;
+    const position = index / numPoints;
+
+    const blobFactor = values[index] * 0.8 * volume;
+    const dynamicRadius = baseRadius * (1 + 
+      blobFactor * Math.sin(angle * 3 + time * 1.5) +
+      blobFactor * 0.5 * Math.cos(angle * 5 + time * 2) +
+      blobFactor * 0.3 * Math.sin(angle * 7 + time * 2.5)
+    );
+
+    const xShift = Math.cos(rotation) * 0.1;
+    const yShift = Math.sin(rotation) * 0.1;
+    const x = centerX + Math.cos(angle + xShift) * dynamicRadius;
+    const y = centerY + Math.sin(angle + yShift) * dynamicRadius * 0.9;
+
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      const prevIndex = (index - 1 + numPoints) % numPoints;
+      const prevAngle = (prevIndex / numPoints) * Math.PI * 2;
+      const prevBlobFactor = values[prevIndex] * 0.8 * volume;
+      const prevDynamicRadius = baseRadius * (1 + 
+        prevBlobFactor * Math.sin(prevAngle * 3 + time * 1.5) +
+        prevBlobFactor * 0.5 * Math.cos(prevAngle * 5 + time * 2) +
+        prevBlobFactor * 0.3 * Math.sin(prevAngle * 7 + time * 2.5)
+      );
+
+      const prevX = centerX + Math.cos(prevAngle + xShift) * prevDynamicRadius;
+      const prevY = centerY + Math.sin(prevAngle + yShift) * prevDynamicRadius * 0.9;
+
+      const cpX = (prevX + x) / 2;
+      const cpY = (prevY + y) / 2;
+
+      ctx.quadraticCurveTo(prevX, prevY, cpX, cpY);
+    }
+  }
+
+  ctx.closePath();
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+  ctx.shadowBlur = 20;
+  ctx.shadowOffsetX = baseRadius * 0.1;
+  ctx.shadowOffsetY = baseRadius * 0.1;
+
+  const gradientShiftX = Math.cos(rotation) * 0.2 * baseRadius;
+  const gradientShiftY = Math.sin(rotation) * 0.2 * baseRadius;
+  const gradient = ctx.createRadialGradient(
+    centerX - gradientShiftX, centerY - gradientShiftY, baseRadius * 0.1,
+    centerX, centerY, baseRadius * 1.5
+  );
+
+  if (theme.isRainbow) {
+    const hueOffset = (time * 20 % 360) / 360;
+    const hueAt = (offset: number) => getRainbowHue((hueOffset + offset) % 1, theme.rainbowHueRange);
+    gradient.addColorStop(0, `hsla(${hueAt(0)}, 100%, 75%, 0.9)`);
+    gradient.addColorStop(0.5, `hsla(${hueAt(1 / 3)}, 100%, 60%, 0.8)`);
+    gradient.addColorStop(1, `hsla(${hueAt(2 / 3)}, 100%, 50%, 0.7)`);
+  } else {
+    gradient.addColorStop(0, theme.highlight);
+    gradient.addColorStop(0.5, theme.gradient[1]);
+    gradient.addColorStop(1, theme.gradient[0]);
+  }
+
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+
+  ctx.beginPath();
+  const highlightAngle = rotation + Math.PI * 0.25;
+  const highlightX = centerX - Math.cos(highlightAngle) * baseRadius * 0.5;
+  const highlightY = centerY - Math.sin(highlightAngle) * baseRadius * 0.5;
+  const highlightGradient = ctx.createRadialGradient(
+    highlightX, highlightY, 0,
+    highlightX, highlightY, baseRadius * 0.8
+  );
+  highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.6)');
+  highlightGradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.1)');
+  highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+  ctx.arc(highlightX, highlightY, baseRadius * 0.8, 0, Math.PI * 2);
+  ctx.fillStyle = highlightGradient;
+  ctx.fill();
+
+  ctx.restore();
+}
+
+export function drawChromaWheelVisualizer(
+  ctx: Canvas2DContext,
+  harmony: ChromaState,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  beat: BeatState = EMPTY_BEAT_STATE
+): void {
+  const { width, height } = dimensions;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) * 0.36;
+  const innerRadius = radius * 0.3;
+  const wedgeAngle = (Math.PI * 2) / 12;
+  const { chroma, key, tuning } = harmony;
+
+  ctx.save();
+  ctx.font = `${Math.max(10, Math.round(radius * 0.09))}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Pitch classes go round the circle of fifths, so related keys sit together
+  for (let step = 0; step < 12; step++) {
+    const pitchClass = (step * 7) % 12;
+    const value = Math.min(1, chroma[pitchClass] ** 2 * (sensitivity / 1.5));
+    const start = -Math.PI / 2 + (step - 0.5) * wedgeAngle;
+    const end = start + wedgeAngle;
+    const outer = innerRadius + (radius - innerRadius) * Math.max(0.05, value * volume) * (1 + beat.pulse * 0.1);
+    const isTonic = key?.tonic === pitchClass;
+
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, start + 0.02, end - 0.02);
+    ctx.arc(centerX, centerY, innerRadius, end - 0.02, start + 0.02, true);
+    ctx.closePath();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.04)';
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, outer, start + 0.02, end - 0.02);
+    ctx.arc(centerX, centerY, innerRadius, end - 0.02, start + 0.02, true);
+    ctx.closePath();
+    ctx.shadowColor = theme.glow;
+    ctx.shadowBlur = 15 * value;
+    ctx.fillStyle = getThemeColor(step / 12, value, theme);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    if (isTonic) {
+      ctx.strokeStyle = theme.highlight;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    const labelAngle = start + wedgeAngle / 2;
+    ctx.fillStyle = isTonic ? theme.highlight : `rgba(255, 255, 255, ${0.4 + value * 0.5})`;
+    ctx.fillText(
+      PITCH_CLASSES[pitchClass],
+      centerX + Math.cos(labelAngle) * radius * 1.12,
+      centerY + Math.sin(labelAngle) * radius * 1.12
+    );
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillText(key ? key.name : '–', centerX, centerY - innerRadius * 0.15);
+  ctx.font = `${Math.max(9, Math.round(radius * 0.06))}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.fillText(`A4 = ${(440 * 2 ** (tuning / 1200)).toFixed(1)} Hz`, centerX, centerY + innerRadius * 0.3);
+  ctx.restore();
+}
+
+/**
+ * Left channel spectrum rising above the centre line, right channel hanging below it
+ */
+export function drawStereoSpectrumVisualizer(
+  ctx: Canvas2DContext,
+  stereo: StereoState,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  beat: BeatState = EMPTY_BEAT_STATE,
+  frequencyLayout?: FrequencyLayout,
+  showAxis = false
+): void {
+  const { width, height } = dimensions;
+  const centerY = height / 2;
+  const layout = resolveLayout(frequencyLayout);
+  const maxBars = Math.min(128, Math.floor(width / 6));
+  const numBars = layout ? Math.min(maxBars, getBandCount(layout.scale, maxBars)) : maxBars;
+  const barWidth = Math.max(2, (width / numBars) - 2);
+  const left = (width - (numBars * (barWidth + 2) - 2)) / 2;
+  const beatBoost = 1 + beat.pulse * 0.15;
+
+  ctx.save();
+  ctx.shadowColor = theme.glow;
+
+  ([
+    [stereo.leftFrequency, -1],
+    [stereo.rightFrequency, 1]
+  ] as const).forEach(([data, direction]) => {
+    if (!data.length) return;
+    const values = generateWaveform(data, numBars, sensitivity, layout);
+    values.forEach((value, i) => {
+      const barHeight = Math.max(2, value * centerY * 0.9 * volume * beatBoost);
+      ctx.shadowBlur = 8 * value;
+      ctx.fillStyle = getThemeColor(i / numBars, value, theme);
+      ctx.fillRect(left + i * (barWidth + 2), centerY, barWidth, barHeight * direction);
+    });
+  });
+
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = GUIDE_COLOR;
+  ctx.fillRect(0, centerY - 0.5, width, 1);
+
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.textBaseline = 'top';
+  ctx.fillText('L', 8, 8);
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('R', 8, height - (showAxis ? 20 : 8));
+  ctx.restore();
+
+  if (showAxis && layout) {
+    const span = numBars * (barWidth + 2) - 2;
+    drawHorizontalFrequencyAxis(ctx, layout, left, span, height);
+  }
+}
+
+/**
+ * Horizontal correlation scale from -1 to +1 with a marker at the reading
+ */
+function drawCorrelationBar(
+  ctx: Canvas2DContext,
+  correlation: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  theme: ThemePalette
+): void {
+  const centerX = x + width / 2;
+  const value = Math.max(-1, Math.min(1, correlation));
+  const markerX = centerX + value * width / 2;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+  ctx.fillRect(x, y, width, height);
+
+  ctx.fillStyle = value < 0 ? OUT_OF_PHASE_COLOR : getThemeColor(0.5 + value / 2, 0.5 + value / 2, theme);
+  ctx.fillRect(Math.min(centerX, markerX), y, Math.abs(markerX - centerX), height);
+
+  ctx.fillStyle = theme.highlight;
+  ctx.fillRect(markerX - 1.5, y - 3, 3, height + 6);
+
+  ctx.fillStyle = GUIDE_COLOR;
+  ctx.fillRect(centerX - 0.5, y, 1, height);
+
+  ctx.font = '10px sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.textAlign = 'left';
+  ctx.fillText('-1', x, y + height + 4);
+  ctx.textAlign = 'center';
+  ctx.fillText(value.toFixed(2), centerX, y + height + 4);
+  ctx.textAlign = 'right';
+  ctx.fillText('+1', x + width, y + height + 4);
+  ctx.restore();
+}
+
+/**
+ * Horizontal level meter in dBFS: RMS as the bar, the frame peak as a thin
+ * extension and the held peak as a tick
+ */
+function drawLevelMeter(
+  ctx: Canvas2DContext,
+  label: string,
+  level: ChannelLevel,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  theme: ThemePalette
+): void {
+  const toX = (decibels: number) => x + (1 - decibels / METER_FLOOR_DB) * width;
+  const rmsX = toX(toDecibels(level.rms));
+  const peakX = toX(toDecibels(level.peak));
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+  ctx.fillRect(x, y, width, height);
+
+  const gradient = ctx.createLinearGradient(x, 0, x + width, 0);
+  gradient.addColorStop(0, theme.gradient[0]);
+  gradient.addColorStop(0.7, theme.gradient[1]);
+  gradient.addColorStop(1, theme.gradient[2]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(x, y, rmsX - x, height);
+  ctx.globalAlpha = 0.4;
+  ctx.fillRect(rmsX, y, Math.max(0, peakX - rmsX), height);
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = level.heldPeak >= -0.1 ? OUT_OF_PHASE_COLOR : theme.highlight;
+  ctx.fillRect(toX(level.heldPeak) - 1, y, 2, height);
+
+  ctx.font = '10px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.textAlign = 'right';
+  ctx.fillText(label, x - 6, y + height / 2);
+  ctx.textAlign = 'left';
+  ctx.fillText(
+    level.heldPeak > METER_FLOOR_DB ? `${level.heldPeak.toFixed(1)} dB` : '-∞ dB',
+    x + width + 6,
+    y + height / 2
+  );
+  ctx.restore();
+}
+
+/**
+ * Lissajous vectorscope: each sample pair is a point, rotated 45° so mono
+ * material stands upright and out-of-phase material lies flat
+ */
+export function drawGoniometerVisualizer(
+  ctx: Canvas2DContext,
+  stereo: StereoState,
+  dimensions: { width: number; height: number },
+  sensitivity: number,
+  volume: number,
+  theme: ThemePalette,
+  beat: BeatState = EMPTY_BEAT_STATE
+): void {
+  const { width, height } = dimensions;
+  const meterSpace = 48;
+  const radius = Math.max(10, Math.min(width, height - meterSpace) * 0.42);
+  const centerX = width / 2;
+  const centerY = (height - meterSpace) / 2 + 8;
+  const { leftTime, rightTime, levels } = stereo;
+  const length = Math.min(leftTime.length, rightTime.length);
+  const gain = radius * Math.SQRT1_2 * sensitivity * volume;
+
+  ctx.save();
+
+  // Guides: the diamond of full scale, with the L, R, mid and side axes
+  ctx.strokeStyle = GUIDE_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(centerX, centerY - radius);
+  ctx.lineTo(centerX + radius, centerY);
+  ctx.lineTo(centerX, centerY + radius);
+  ctx.lineTo(centerX - radius, centerY);
+  ctx.closePath();
+  ctx.moveTo(centerX, centerY - radius);
+  ctx.lineTo(centerX, centerY + radius);
+  ctx.moveTo(centerX - radius, centerY);
+  ctx.lineTo(centerX + radius, centerY);
+  const diagonal = radius * Math.SQRT1_2;
+  ctx.moveTo(centerX - diagonal, centerY - diagonal);
+  ctx.lineTo(centerX + diagonal, centerY + diagonal);
+  ctx.moveTo(centerX + diagonal, centerY - diagonal);
+  ctx.lineTo(centerX - diagonal, centerY + diagonal);
+  ctx.stroke();
+
+  ctx.font = '11px sans-serif';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('M', centerX, centerY - radius - 4);
+  ctx.fillText('L', centerX - diagonal - 8, centerY - diagonal - 4);
+  ctx.fillText('R', centerX + diagonal + 8, centerY - diagonal - 4);
+
+  if (length) {
+    // Long frames would be thousands of segments; every few samples is plenty
+    const stride = Math.max(1, Math.floor(length / 2048));
+    ctx.strokeStyle = theme.gradient[1];
+    ctx.shadowColor = theme.glow;
+    ctx.shadowBlur = 6 + beat.pulse * 6;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = 0.7;
+    ctx.beginPath();
+    for (let i = 0; i < length; i += stride) {
+      const mid = leftTime[i] + rightTime[i];
+      const side = rightTime[i] - leftTime[i];
+      const x = centerX + Math.max(-radius, Math.min(radius, side * gain));
+      const y = centerY - Math.max(-radius, Math.min(radius, mid * gain));
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+  }
+
+  ctx.restore();
+
+  const barWidth = Math.min(width * 0.6, radius * 2);
+  drawCorrelationBar(ctx, levels.correlation, centerX - barWidth / 2, height - meterSpace + 10, barWidth, 6, theme);
+}
+
+/**
+ * Phase-correlation meter with per-channel levels and the stereo width
+ */
+export function drawCorrelationMeterVisualizer(
+  ctx: Canvas2DContext,
+  stereo: StereoState,
+  dimensions: { width: number; height: number },
+  theme: ThemePalette
+): void {
+  const { width, height } = dimensions;
+  const { levels } = stereo;
+  const meterWidth = Math.min(width - 120, 560);
+  const x = (width - meterWidth) / 2;
+  const top = height / 2 - 70;
+
+  ctx.save();
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.fillText('Phase correlation', width / 2, top - 8);
+  ctx.restore();
+
+  drawCorrelationBar(ctx, levels.correlation, x, top, meterWidth, 18, theme);
+  drawLevelMeter(ctx, 'L', levels.left, x, top + 60, meterWidth, 10, theme);
+  drawLevelMeter(ctx, 'R', levels.right, x, top + 80, meterWidth, 10, theme);
+
+  ctx.save();
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.fillText(`Width ${Math.round(levels.width * 100)}%`, width / 2, top + 110);
+  ctx.restore();
+}
+
+export function drawPlaceholderVisualizer(
+  ctx: Canvas2DContext,
+  dimensions: { width: number; height: number },
+  theme: ThemePalette,
+  clock: FrameClock
+): void {
+  const { width, height } = dimensions;
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  const { time } = clock;
+  const pulseSize = 0.5 + Math.sin(time * 2) * 0.1;
+
+  const gradient = ctx.createRadialGradient(
+    centerX, centerY, 0,
+    centerX, centerY, width * 0.25 * pulseSize
+  );
+  gradient.addColorStop(0, theme.highlight.replace('0.8', '0.2'));
+  gradient.addColorStop(0.7, theme.gradient[1].replace('0.9', '0.1'));
+  gradient.addColorStop(1, theme.gradient[0].replace('0.8', '0'));
+
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, width * 0.25 * pulseSize, 0, Math.PI * 2);
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  ctx.font = '14px sans-serif';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.textAlign = 'center';
+  ctx.fillText('Upload an audio file to begin', centerX, centerY + 40);
+}
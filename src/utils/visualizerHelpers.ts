@@ -1,31 +1,57 @@
+import { type FrequencyLayout, getBandValues } from '@/utils/frequencyScale';
+
+/**
+ * Averages frequency data into buckets, spread linearly over the bins or
+ * along a frequency scale
+ * @param frequencyData The frequency data from audio analyser
+ * @param count Number of buckets
+ * @param layout Frequency scale to follow; linear over all bins when omitted
+ * @returns Level of each bucket, 0-1
+ */
+function getBucketLevels(frequencyData: Uint8Array, count: number, layout?: FrequencyLayout): ArrayLike<number> {
+  if (layout) {
+    return getBandValues(frequencyData, layout.scale, layout.sampleRate, count);
+  }
+
+  const sampleSize = Math.floor(frequencyData.length / count);
+  const output: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let sum = 0;
+    for (let j = 0; j < sampleSize; j++) {
+      const index = i * sampleSize + j;
+      if (index < frequencyData.length) {
+        sum += frequencyData[index];
+      }
+    }
+    output.push(sum / sampleSize / 255);
+  }
+
+  return output;
+}
+
 /**
  * Generates a smooth waveform effect that responds to audio input
  * @param frequencyData The frequency data from audio analyser
  * @param numBars Number of bars to display in the visualizer
  * @param sensitivity How sensitive the visualizer is to audio changes
+ * @param layout Frequency scale the bars follow
  * @returns Array of normalized values for visualization
  */
 export function generateWaveform(
   frequencyData: Uint8Array,
   numBars: number = 64,
-  sensitivity: number = 1.5
+  sensitivity: number = 1.5,
+  layout?: FrequencyLayout
 ): number[] {
   if (!frequencyData.length) return Array(numBars).fill(0);
   
-  const sampleSize = Math.floor(frequencyData.length / numBars);
+  const levels = getBucketLevels(frequencyData, numBars, layout);
   const output: number[] = [];
   
   for (let i = 0; i < numBars; i++) {
-    let sum = 0;
-    for (let j = 0; j < sampleSize; j++) {
-      const index = i * sampleSize + j;
-      if (index < frequencyData.length) {
-        sum += frequencyData[index];
-      }
-    }
-    const average = sum / sampleSize / 255;
     const positionMultiplier = 0.7 + (i / numBars) * 0.6;
-    output.push(Math.min(1, average * sensitivity * positionMultiplier));
+    output.push(Math.min(1, levels[i] * sensitivity * positionMultiplier));
   }
   
   return smoothArray(output, 0.5);
@@ -36,32 +62,25 @@ export function generateWaveform(
  * @param frequencyData The frequency data from audio analyser
  * @param numPoints Number of points around the circle
  * @param sensitivity How sensitive the visualizer is to audio changes
+ * @param layout Frequency scale the points follow
  * @returns Array of normalized values for circular visualization
  */
 export function generateCircular(
   frequencyData: Uint8Array,
   numPoints: number = 64,
-  sensitivity: number = 1.2
+  sensitivity: number = 1.2,
+  layout?: FrequencyLayout
 ): number[] {
   if (!frequencyData.length) return Array(numPoints).fill(0);
   
+  const levels = getBucketLevels(frequencyData, numPoints, layout);
   const output: number[] = [];
-  const sampleSize = Math.floor(frequencyData.length / numPoints);
   
   for (let i = 0; i < numPoints; i++) {
-    let sum = 0;
-    for (let j = 0; j < sampleSize; j++) {
-      const index = i * sampleSize + j;
-      if (index < frequencyData.length) {
-        sum += frequencyData[index];
-      }
-    }
-    
-    const average = sum / sampleSize / 255;
     const angle = (i / numPoints) * Math.PI * 2;
     const variationFactor = 1 + 0.2 * Math.sin(angle * 3);
     
-    output.push(Math.min(1, average * sensitivity * variationFactor));
+    output.push(Math.min(1, levels[i] * sensitivity * variationFactor));
   }
   
   return smoothArray(output, 0.6); 
@@ -98,6 +117,21 @@ export function formatTime(seconds: number): string {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Formats a byte count for display
+ * @param bytes Size in bytes
+ * @returns Formatted size string, e.g. "4.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (!isFinite(bytes) || bytes <= 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  const value = bytes / Math.pow(1024, exponent);
+
+  return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+}
+
 /**
  * Get luminance value for a volume level (for visualizer brightness)
  * @param volume Volume level (0-1)
@@ -107,6 +141,38 @@ export function getVolumeLuminance(volume: number): number {
   return 0.3 + (volume * 0.7);
 }
 
+/**
+ * Colors of the AnimatedBackground behind the visualizer
+ */
+export interface ThemeBackground {
+  gradientFrom: string;
+  gradientTo: string;
+  accents: string[];
+}
+
+/**
+ * Colors used to draw a visualization
+ */
+export interface ThemePalette {
+  name: string;
+  gradient: string[];
+  highlight: string;
+  glow: string;
+  isRainbow: boolean;
+  // Hue range in degrees used by rainbow themes, defaults to the full wheel
+  rainbowHueRange?: [number, number];
+  background?: ThemeBackground;
+}
+
+/**
+ * Background colors used when a theme doesn't define its own
+ */
+export const defaultBackground: ThemeBackground = {
+  gradientFrom: '#0e1a2d',
+  gradientTo: '#090a14',
+  accents: ['#1e88e5', '#651fff', '#00bfa5']
+};
+
 /**
  * Color theme definitions for the visualizer
  */
@@ -152,14 +218,45 @@ export const colorThemes = {
     highlight: 'rgba(255, 255, 255, 0.8)',
     glow: 'rgba(255, 255, 255, 0.6)',
     isRainbow: true
+  },
+  // Colors are derived from the current track's cover art at runtime;
+  // these blue values are the fallback when there's no artwork
+  auto: {
+    name: 'Auto from artwork',
+    gradient: ['rgba(137, 207, 240, 0.8)', 'rgba(190, 227, 248, 0.9)', 'rgba(137, 207, 240, 0.8)'],
+    highlight: 'rgba(255, 255, 255, 0.8)',
+    glow: 'rgba(255, 255, 255, 0.6)',
+    isRainbow: false
   }
-};
+} satisfies Record<string, ThemePalette>;
 
 /**
  * Color theme type
  */
 export type ColorTheme = keyof typeof colorThemes;
 
+/**
+ * Checks whether a theme id refers to one of the built-in themes
+ * @param id Theme id
+ * @returns True for built-in theme keys
+ */
+export function isColorTheme(id: string): id is ColorTheme {
+  return Object.prototype.hasOwnProperty.call(colorThemes, id);
+}
+
+/**
+ * Resolves a theme key to the palette that should be drawn
+ * @param theme Selected color theme
+ * @param artworkPalette Palette extracted from the current cover art, if any
+ * @returns Palette to draw with
+ */
+export function resolveThemePalette(theme: ColorTheme, artworkPalette?: ThemePalette | null): ThemePalette {
+  if (theme === 'auto' && artworkPalette) {
+    return artworkPalette;
+  }
+  return colorThemes[theme] || colorThemes.blue;
+}
+
 /**
  * Generates a dynamic color based on frequency intensity
  * @param value Intensity value (0-1)
@@ -178,31 +275,90 @@ export function getDynamicColor(
   return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
 }
 
+/**
+ * Maps a position onto a rainbow hue range
+ * @param position Position value (0-1)
+ * @param hueRange Start and end hue in degrees
+ * @returns Hue in degrees
+ */
+export function getRainbowHue(position: number, hueRange: [number, number] = [0, 360]): number {
+  return hueRange[0] + (hueRange[1] - hueRange[0]) * position;
+}
+
 /**
  * Generates a rainbow color at a specific position
  * @param position Position value (0-1)
  * @param value Intensity value for brightness adjustment
+ * @param hueRange Start and end hue in degrees
  * @returns CSS color string
  */
-export function getRainbowColor(position: number, value: number = 1): string {
-  const hue = position * 360;
+export function getRainbowColor(position: number, value: number = 1, hueRange?: [number, number]): string {
+  const hue = getRainbowHue(position, hueRange);
   const saturation = 70 + (30 * value);
   const lightness = 50 + (20 * value);
   return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
 }
 
+/**
+ * Converts an HSL color to RGB
+ * @param hue Hue in degrees
+ * @param saturation Saturation in percent
+ * @param lightness Lightness in percent
+ * @returns Channels from 0 to 255
+ */
+export function hslToRgb(hue: number, saturation: number, lightness: number): { r: number; g: number; b: number } {
+  const s = Math.min(100, saturation) / 100;
+  const l = Math.min(100, lightness) / 100;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => 255 * (l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1)));
+  return { r: channel(0), g: channel(8), b: channel(4) };
+}
+
+/**
+ * The color getThemeColor describes, as channels for renderers that don't take CSS colors
+ * @param position Position (0-1)
+ * @param value Intensity value (0-1)
+ * @param theme Color theme, or a resolved palette, to use
+ * @returns Channels from 0 to 255 and alpha from 0 to 1
+ */
+export function getThemeColorComponents(
+  position: number,
+  value: number,
+  theme: ColorTheme | ThemePalette = 'blue'
+): { r: number; g: number; b: number; a: number } {
+  const selectedTheme: ThemePalette = typeof theme === 'string' ? colorThemes[theme] : theme;
+
+  if (selectedTheme.isRainbow) {
+    const hue = getRainbowHue(position, selectedTheme.rainbowHueRange);
+    return { ...hslToRgb(hue, 70 + (30 * value), 50 + (20 * value)), a: 1 };
+  }
+
+  const matches = selectedTheme.gradient[0].match(/rgba\((\d+),\s*(\d+),\s*(\d+)/);
+  if (!matches) return { r: 255, g: 255, b: 255, a: 1 };
+
+  const intensity = 0.7 + value * 0.3;
+  const positionVariance = 0.7 + (position * 0.6);
+  return {
+    r: Math.min(255, parseInt(matches[1]) * positionVariance),
+    g: Math.min(255, parseInt(matches[2]) * intensity),
+    b: Math.min(255, parseInt(matches[3]) * intensity),
+    a: 0.7 + value * 0.3
+  };
+}
+
 /**
  * Generates a color gradient for a position on the visualizer
  * @param position Position (0-1)
  * @param value Intensity value (0-1)
- * @param theme Color theme to use
+ * @param theme Color theme, or a resolved palette, to use
  * @returns CSS color string
  */
-export function getThemeColor(position: number, value: number, theme: ColorTheme = 'blue'): string {
-  const selectedTheme = colorThemes[theme];
+export function getThemeColor(position: number, value: number, theme: ColorTheme | ThemePalette = 'blue'): string {
+  const selectedTheme: ThemePalette = typeof theme === 'string' ? colorThemes[theme] : theme;
   
   if (selectedTheme.isRainbow) {
-    return getRainbowColor(position, value);
+    return getRainbowColor(position, value, selectedTheme.rainbowHueRange);
   }
   
   const hueShift = value * 20;
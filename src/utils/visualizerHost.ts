@@ -0,0 +1,213 @@
+import {
+  type RendererBackend,
+  type RendererPreference,
+  createVisualizerRenderer
+} from '@/utils/visualizerRenderer';
+import { type VisualizerSettings, createVisualizerScene } from '@/utils/visualizerScene';
+import { type AnalyserFrame, type FrameBus, EMPTY_ANALYSER_FRAME } from '@/utils/frameBus';
+import {
+  type FrameTransport,
+  copyFrameForTransfer,
+  createFrameRing,
+  isSharedFrameRingSupported
+} from '@/utils/frameTransport';
+
+// Where the visualizer's render loop runs
+export type RenderThread = 'worker' | 'main';
+
+/**
+ * Messages the visualizer worker accepts
+ */
+export type VisualizerWorkerRequest =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      preference: RendererPreference;
+      settings: VisualizerSettings;
+      pixelRatio: number;
+      // Shared frame ring, when frames come through shared memory
+      ring: SharedArrayBuffer | null;
+    }
+  | { type: 'resize'; dimensions: { width: number; height: number }; pixelRatio: number }
+  | { type: 'settings'; settings: VisualizerSettings }
+  | { type: 'frame'; frame: AnalyserFrame };
+
+/**
+ * Messages the visualizer worker sends back
+ */
+export type VisualizerWorkerResponse =
+  | { type: 'ready'; backend: RendererBackend }
+  // No renderer could be created on the canvas
+  | { type: 'failed' };
+
+/**
+ * Runs the render loop of one visualizer canvas
+ */
+export interface VisualizerHost {
+  readonly thread: RenderThread;
+  /**
+   * Sizes the drawing buffer
+   * @param dimensions Size in CSS pixels
+   * @param pixelRatio Device pixels per CSS pixel
+   */
+  resize(dimensions: { width: number; height: number }, pixelRatio: number): void;
+  /**
+   * Replaces the settings frames are drawn with
+   */
+  update(settings: VisualizerSettings): void;
+  /**
+   * Stops rendering and frees the renderer
+   */
+  dispose(): void;
+}
+
+export interface VisualizerHostCallbacks {
+  // Called once the renderer is drawing
+  onReady: (backend: RendererBackend) => void;
+  // Called when no renderer could be set up for the preference
+  onFailed: () => void;
+}
+
+/**
+ * Whether canvases can be handed to a worker for rendering
+ */
+export function isOffscreenRenderingSupported(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+/**
+ * Renders on the main thread, reading the latest frame from the bus on
+ * every animation frame
+ * @param canvas Canvas no context has been taken from yet
+ * @returns Host, or null when the canvas gives no renderer for the preference
+ */
+export function createMainThreadHost(
+  canvas: HTMLCanvasElement,
+  preference: RendererPreference,
+  bus: FrameBus | undefined,
+  initialSettings: VisualizerSettings,
+  callbacks: VisualizerHostCallbacks
+): VisualizerHost | null {
+  const renderer = createVisualizerRenderer(canvas, preference);
+  if (!renderer) {
+    callbacks.onFailed();
+    return null;
+  }
+
+  const scene = createVisualizerScene(renderer);
+  let settings = initialSettings;
+  let request = 0;
+
+  const animate = () => {
+    scene.render(bus?.getFrame() ?? EMPTY_ANALYSER_FRAME, settings);
+    request = requestAnimationFrame(animate);
+  };
+  request = requestAnimationFrame(animate);
+  callbacks.onReady(renderer.backend);
+
+  return {
+    thread: 'main',
+
+    resize(dimensions, pixelRatio) {
+      renderer.resize(dimensions, pixelRatio);
+      settings = { ...settings, dimensions };
+    },
+
+    update(next) {
+      settings = next;
+    },
+
+    dispose() {
+      cancelAnimationFrame(request);
+      scene.dispose();
+      renderer.dispose();
+    }
+  };
+}
+
+/**
+ * Renders in a worker that owns the canvas, so work on the main thread
+ * never delays a frame. Frames go through a shared ring where the page is
+ * cross-origin isolated, and are otherwise posted as transferred copies.
+ * @param canvas Canvas no context has been taken from yet
+ * @returns Host, or null when the canvas can't be handed to a worker
+ */
+export function createWorkerHost(
+  canvas: HTMLCanvasElement,
+  preference: RendererPreference,
+  bus: FrameBus | undefined,
+  initialSettings: VisualizerSettings,
+  pixelRatio: number,
+  callbacks: VisualizerHostCallbacks
+): VisualizerHost | null {
+  if (!isOffscreenRenderingSupported()) return null;
+
+  let offscreen: OffscreenCanvas;
+  try {
+    offscreen = canvas.transferControlToOffscreen();
+  } catch (error) {
+    console.error('Could not hand the canvas to a worker:', error);
+    return null;
+  }
+
+  const worker = new Worker(new URL('../workers/visualizer.worker.ts', import.meta.url), { type: 'module' });
+  const post = (message: VisualizerWorkerRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+
+  const transport: FrameTransport = isSharedFrameRingSupported() ? 'shared' : 'transfer';
+  const ring = transport === 'shared' ? createFrameRing() : null;
+
+  worker.onmessage = (event: MessageEvent<VisualizerWorkerResponse>) => {
+    if (event.data.type === 'ready') {
+      callbacks.onReady(event.data.backend);
+    } else {
+      callbacks.onFailed();
+    }
+  };
+  // The canvas can't be drawn on from here any more, so the caller has to
+  // start over on a new one
+  worker.onerror = (event) => {
+    console.error('Visualizer worker failed:', event.message);
+    worker.onmessage = null;
+    worker.terminate();
+    callbacks.onFailed();
+  };
+
+  post({
+    type: 'init',
+    canvas: offscreen,
+    preference,
+    settings: initialSettings,
+    pixelRatio,
+    ring: ring ? ring.buffer : null
+  }, [offscreen]);
+
+  const unsubscribe = bus?.subscribe(frame => {
+    // Frames too large for the ring still get through as copies
+    if (ring?.write(frame)) return;
+    const copy = copyFrameForTransfer(frame);
+    post({ type: 'frame', frame: copy.frame }, copy.transfer);
+  });
+
+  return {
+    thread: 'worker',
+
+    resize(dimensions, ratio) {
+      post({ type: 'resize', dimensions, pixelRatio: ratio });
+    },
+
+    update(settings) {
+      post({ type: 'settings', settings });
+    },
+
+    dispose() {
+      unsubscribe?.();
+      worker.onmessage = null;
+      worker.terminate();
+    }
+  };
+}
@@ -0,0 +1,166 @@
+import { type Canvas2DContext, type DrawOptions, drawPlaceholderVisualizer } from '@/utils/visualizerDrawing';
+import { type BeatState } from '@/utils/beatDetection';
+import { type ChromaState } from '@/utils/chroma';
+import { type StereoState } from '@/utils/stereoAnalysis';
+
+// Id of a registered visualizer
+export type VisualizationMode = string;
+
+/**
+ * One user-facing setting of a visualizer. The settings panel is generated
+ * from these, so every setting needs a label and a default.
+ */
+export type VisualizerSetting =
+  | { type: 'number'; label: string; default: number; min: number; max: number; step?: number; unit?: string }
+  | { type: 'boolean'; label: string; default: boolean }
+  | { type: 'select'; label: string; default: string; options: ReadonlyArray<{ value: string; label: string }> };
+
+export type VisualizerSettingsSchema = Record<string, VisualizerSetting>;
+
+export type VisualizerSettingValue = number | boolean | string;
+
+/**
+ * Values for every setting of a schema
+ */
+export type VisualizerSettingsValues<T extends VisualizerSettingsSchema = VisualizerSettingsSchema> = {
+  [K in keyof T]: T[K]['default'];
+};
+
+/**
+ * What a visualizer draws from: the analyser data of the frame plus the look
+ * shared by all visualizers
+ */
+export interface VisualizerFrame extends DrawOptions {
+  frequencyData: Uint8Array;
+  timeData: Uint8Array;
+  beat: BeatState;
+  harmony: ChromaState;
+  stereo: StereoState;
+}
+
+/**
+ * A running visualizer. Each canvas creates its own, so state kept between
+ * frames (like a scrolling history) belongs here.
+ */
+export interface VisualizerPlugin<T extends VisualizerSettingsSchema = VisualizerSettingsSchema> {
+  /**
+   * Called once before the first frame
+   * @param dimensions Size in CSS pixels
+   */
+  init?(dimensions: { width: number; height: number }): void;
+  /**
+   * Called when the size changes between frames
+   * @param dimensions Size in CSS pixels
+   */
+  resize?(dimensions: { width: number; height: number }): void;
+  /**
+   * Draws one frame
+   * @param frame Analyser data, size, colors and clock
+   * @param ctx Target context, already cleared and scaled to CSS pixels
+   * @param settings Values for the visualizer's settings
+   */
+  render(frame: VisualizerFrame, ctx: Canvas2DContext, settings: VisualizerSettingsValues<T>): void;
+  /**
+   * Frees whatever the visualizer holds on to
+   */
+  dispose?(): void;
+}
+
+/**
+ * A visualizer that can be registered and picked in the UI
+ */
+export interface VisualizerDefinition<T extends VisualizerSettingsSchema = VisualizerSettingsSchema> {
+  id: VisualizationMode;
+  label: string;
+  settingsSchema: T;
+  // Draws from the per-channel analysers, so offline renders need the decoded channels
+  usesStereo?: boolean;
+  // Live analyser size the visualizer wants, when the default is too coarse
+  fftSize?: number;
+  /**
+   * Keeps related settings consistent after one of them changes
+   * @param settings Values including the change
+   * @param changed Setting that changed
+   */
+  normalizeSettings?(settings: VisualizerSettingsValues<T>, changed: keyof T): VisualizerSettingsValues<T>;
+  /**
+   * Creates a running instance
+   */
+  create(): VisualizerPlugin<T>;
+}
+
+export const DEFAULT_VISUALIZER: VisualizationMode = 'bars';
+
+const registry = new Map<VisualizationMode, VisualizerDefinition>();
+
+/**
+ * Infers a definition's settings types from its schema
+ */
+export function defineVisualizer<T extends VisualizerSettingsSchema>(
+  definition: VisualizerDefinition<T>
+): VisualizerDefinition<T> {
+  return definition;
+}
+
+/**
+ * Adds a visualizer to the registry. Visualizers are listed in the order
+ * they were registered.
+ * @throws When another visualizer already has the same id
+ */
+export function registerVisualizer<T extends VisualizerSettingsSchema>(definition: VisualizerDefinition<T>): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`A visualizer with the id "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition as unknown as VisualizerDefinition);
+}
+
+export function getVisualizer(id: VisualizationMode): VisualizerDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listVisualizers(): VisualizerDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Fills in defaults for missing settings and drops values that don't fit
+ * the schema, e.g. from an older version of the visualizer
+ * @param definition Visualizer the settings are for
+ * @param values Stored values, possibly incomplete
+ */
+export function resolveVisualizerSettings(
+  definition: VisualizerDefinition,
+  values: Partial<Record<string, VisualizerSettingValue>> = {}
+): VisualizerSettingsValues {
+  const resolved: VisualizerSettingsValues = {};
+  Object.entries(definition.settingsSchema).forEach(([key, setting]) => {
+    const value = values[key];
+    if (setting.type === 'number') {
+      resolved[key] = typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(setting.max, Math.max(setting.min, value))
+        : setting.default;
+    } else if (setting.type === 'boolean') {
+      resolved[key] = typeof value === 'boolean' ? value : setting.default;
+    } else {
+      resolved[key] = setting.options.some(option => option.value === value) ? value as string : setting.default;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Draws one frame of a visualizer, or the placeholder when there's no data
+ * @param ctx Target context, already cleared and scaled to CSS pixels
+ */
+export function drawVisualizerFrame(
+  ctx: Canvas2DContext,
+  plugin: VisualizerPlugin,
+  frame: VisualizerFrame,
+  settings: VisualizerSettingsValues
+): void {
+  if (!frame.frequencyData.length) {
+    drawPlaceholderVisualizer(ctx, frame.dimensions, frame.palette, frame.clock);
+    return;
+  }
+  plugin.render(frame, ctx, settings);
+}
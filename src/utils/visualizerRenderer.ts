@@ -0,0 +1,108 @@
+import { type Canvas2DContext } from '@/utils/visualizerDrawing';
+import { type VisualizationMode, type VisualizerFrame } from '@/utils/visualizerPlugins';
+import { createWebGL2Renderer } from '@/utils/webglRenderer';
+
+export type RendererBackend = 'canvas2d' | 'webgl2';
+// 'auto' picks WebGL2 where it's available
+export type RendererPreference = 'auto' | RendererBackend;
+
+export const RENDERER_OPTIONS: Array<{ id: RendererPreference; label: string }> = [
+  { id: 'auto', label: 'Automatic' },
+  { id: 'webgl2', label: 'WebGL2' },
+  { id: 'canvas2d', label: 'Canvas 2D' }
+];
+
+/**
+ * Draws visualizations into a canvas. A canvas is tied to the first kind of
+ * context taken from it, so switching backends needs a new canvas.
+ */
+export interface VisualizerRenderer {
+  readonly backend: RendererBackend;
+  /**
+   * Sizes the drawing buffer
+   * @param dimensions Size in CSS pixels
+   * @param pixelRatio Device pixels per CSS pixel
+   */
+  resize(dimensions: { width: number; height: number }, pixelRatio: number): void;
+  /**
+   * Draws one frame
+   * @param mode Visualizer being drawn; backends can draw known ones natively
+   * @param frame Data and look of the frame
+   * @param draw Draws the frame with Canvas 2D, into a context already
+   * cleared and scaled to CSS pixels
+   */
+  render(mode: VisualizationMode, frame: VisualizerFrame, draw: (ctx: Canvas2DContext) => void): void;
+  /**
+   * Frees GPU resources
+   */
+  dispose(): void;
+}
+
+type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+let webGL2Support: boolean | null = null;
+
+/**
+ * Whether this browser can create a WebGL2 context
+ */
+export function isWebGL2Supported(): boolean {
+  if (webGL2Support === null) {
+    try {
+      const canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(1, 1)
+        : document.createElement('canvas');
+      const gl = canvas.getContext('webgl2') as WebGL2RenderingContext | null;
+      webGL2Support = !!gl;
+      gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    } catch {
+      webGL2Support = false;
+    }
+  }
+  return webGL2Support;
+}
+
+/**
+ * Renderer that uses the Canvas 2D drawing functions directly
+ */
+export function createCanvas2DRenderer(canvas: RenderCanvas): VisualizerRenderer | null {
+  const ctx = canvas.getContext('2d') as Canvas2DContext | null;
+  if (!ctx) return null;
+  let pixelRatio = 1;
+
+  return {
+    backend: 'canvas2d',
+
+    resize({ width, height }, ratio) {
+      pixelRatio = ratio;
+      canvas.width = Math.max(1, Math.round(width * ratio));
+      canvas.height = Math.max(1, Math.round(height * ratio));
+    },
+
+    render(_mode, _frame, draw) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      draw(ctx);
+    },
+
+    dispose() {}
+  };
+}
+
+/**
+ * Creates a renderer for the preferred backend, falling back to Canvas 2D
+ * when WebGL2 isn't available
+ * @param canvas Canvas no context has been taken from yet
+ * @param preference Backend to try first
+ * @returns Renderer, or null when the canvas gives no context at all
+ */
+export function createVisualizerRenderer(
+  canvas: RenderCanvas,
+  preference: RendererPreference = 'auto'
+): VisualizerRenderer | null {
+  if (preference !== 'canvas2d' && isWebGL2Supported()) {
+    const renderer = createWebGL2Renderer(canvas);
+    if (renderer) return renderer;
+  }
+  return createCanvas2DRenderer(canvas);
+}
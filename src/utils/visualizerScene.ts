@@ -0,0 +1,135 @@
+import { BLOB_ROTATION_PER_BEAT } from '@/utils/visualizerDrawing';
+import { type VisualizerRenderer } from '@/utils/visualizerRenderer';
+import {
+  type VisualizationMode,
+  type VisualizerDefinition,
+  type VisualizerPlugin,
+  type VisualizerSettingValue,
+  type VisualizerSettingsValues,
+  DEFAULT_VISUALIZER,
+  drawVisualizerFrame,
+  getVisualizer,
+  resolveVisualizerSettings
+} from '@/utils/visualizerPlugins';
+import { type ThemePalette } from '@/utils/visualizerHelpers';
+import { type TempoAnalysis, getBeatPosition } from '@/utils/tempoAnalysis';
+import { type KeyAnalysis } from '@/utils/chroma';
+import { type FrequencyLayout } from '@/utils/frequencyScale';
+import { type AnalyserFrame } from '@/utils/frameBus';
+import '@/visualizers';
+
+/**
+ * Everything about how frames are drawn that doesn't come from the analysers.
+ * Plain data, so it can be posted to a rendering worker.
+ */
+export interface VisualizerSettings {
+  mode: VisualizationMode;
+  // Size in CSS pixels
+  dimensions: { width: number; height: number };
+  sensitivity: number;
+  volume: number;
+  palette: ThemePalette;
+  // Beat grid of the playing track; motion locks to it when present
+  tempo: TempoAnalysis | null;
+  // Whole-track key and tuning, shown instead of the live estimate when available
+  keyAnalysis: KeyAnalysis | null;
+  frequencyLayout?: FrequencyLayout;
+  showFrequencyAxis: boolean;
+  // Values for the current visualizer's settings; missing ones use the defaults
+  modeSettings?: Partial<Record<string, VisualizerSettingValue>>;
+}
+
+/**
+ * Turns analyser frames into drawn frames, keeping the state that carries
+ * over between them: the blob's rotation and the running visualizer
+ */
+export function createVisualizerScene(renderer: VisualizerRenderer) {
+  let angle = 0;
+  let active: {
+    definition: VisualizerDefinition;
+    plugin: VisualizerPlugin;
+    dimensions: { width: number; height: number };
+  } | null = null;
+  let resolved: {
+    source: VisualizerSettings['modeSettings'];
+    definition: VisualizerDefinition;
+    values: VisualizerSettingsValues;
+  } | null = null;
+
+  // Swaps in the visualizer for the mode, and tells it about size changes
+  const activate = (mode: VisualizationMode, dimensions: { width: number; height: number }) => {
+    const definition = getVisualizer(mode) ?? getVisualizer(DEFAULT_VISUALIZER);
+    if (!definition) return null;
+
+    if (active?.definition !== definition) {
+      active?.plugin.dispose?.();
+      const plugin = definition.create();
+      plugin.init?.(dimensions);
+      active = { definition, plugin, dimensions };
+    } else if (active.dimensions.width !== dimensions.width || active.dimensions.height !== dimensions.height) {
+      active.plugin.resize?.(dimensions);
+      active.dimensions = dimensions;
+    }
+    return active;
+  };
+
+  return {
+    /**
+     * Draws one frame
+     * @param frame Latest analyser frame
+     * @param settings Current settings
+     */
+    render(frame: AnalyserFrame, settings: VisualizerSettings): void {
+      const { frequencyData, timeData, beat, chroma, stereo, playbackTime } = frame;
+      const { mode, tempo, keyAnalysis } = settings;
+
+      const current = activate(mode, settings.dimensions);
+      if (!current) return;
+      const { definition, plugin } = current;
+      if (resolved?.source !== settings.modeSettings || resolved.definition !== definition) {
+        resolved = {
+          source: settings.modeSettings,
+          definition,
+          values: resolveVisualizerSettings(definition, settings.modeSettings)
+        };
+      }
+      const { values } = resolved;
+
+      const harmony = keyAnalysis
+        ? { ...chroma, key: keyAnalysis.key, tuning: keyAnalysis.tuning }
+        : chroma;
+      const beatPosition = tempo ? getBeatPosition(tempo, playbackTime) ?? undefined : undefined;
+      if (beatPosition !== undefined) {
+        angle = beatPosition * BLOB_ROTATION_PER_BEAT;
+      } else if (definition.id === 'blob' && frequencyData.length) {
+        angle += 0.01;
+      }
+
+      const visualizerFrame = {
+        frequencyData,
+        timeData,
+        dimensions: settings.dimensions,
+        sensitivity: settings.sensitivity,
+        volume: settings.volume,
+        palette: settings.palette,
+        clock: { time: Date.now() / 1000, angle, beatPosition },
+        beat,
+        harmony,
+        frequencyLayout: settings.frequencyLayout,
+        showFrequencyAxis: settings.showFrequencyAxis,
+        stereo
+      };
+      renderer.render(definition.id, visualizerFrame, ctx => drawVisualizerFrame(ctx, plugin, visualizerFrame, values));
+    },
+
+    /**
+     * Disposes the running visualizer
+     */
+    dispose(): void {
+      active?.plugin.dispose?.();
+      active = null;
+    }
+  };
+}
+
+export type VisualizerScene = ReturnType<typeof createVisualizerScene>;
@@ -0,0 +1,118 @@
+import { OFFLINE_SAMPLE_RATE, getMonoAudio } from '@/utils/offlineAudio';
+
+/**
+ * Overview of a track's shape: the lowest and highest sample in each slice
+ * of a fixed length. Drawing aggregates slices into pixel columns, so zooming
+ * doesn't need the samples again.
+ */
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+  // Slices per second of audio
+  resolution: number;
+  duration: number;
+}
+
+// Enough detail to zoom a few minutes of audio across a wide seek bar
+export const WAVEFORM_RESOLUTION = 200;
+
+/**
+ * Finds the peaks of decoded samples
+ * @param samples Mono samples
+ * @param sampleRate Sample rate of the samples
+ * @param resolution Slices per second
+ */
+export function computeWaveformPeaks(
+  samples: Float32Array,
+  sampleRate: number,
+  resolution = WAVEFORM_RESOLUTION
+): WaveformPeaks {
+  const sliceLength = sampleRate / resolution;
+  const count = Math.max(1, Math.ceil(samples.length / sliceLength));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let slice = 0; slice < count; slice++) {
+    const start = Math.floor(slice * sliceLength);
+    const end = Math.min(samples.length, Math.floor((slice + 1) * sliceLength));
+    let low = 0;
+    let high = 0;
+    for (let i = start; i < end; i++) {
+      const sample = samples[i];
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+    }
+    min[slice] = low;
+    max[slice] = high;
+  }
+
+  return { min, max, resolution, duration: samples.length / sampleRate };
+}
+
+/**
+ * Peaks of one pixel column per entry, over part of the track
+ * @param peaks Track overview
+ * @param start Start of the range in seconds
+ * @param end End of the range in seconds
+ * @param columns Number of columns to split the range into
+ */
+export function getWaveformColumns(
+  peaks: WaveformPeaks,
+  start: number,
+  end: number,
+  columns: number
+): { min: Float32Array; max: Float32Array } {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const slicesPerColumn = ((end - start) * peaks.resolution) / columns;
+
+  for (let column = 0; column < columns; column++) {
+    const from = Math.floor(start * peaks.resolution + column * slicesPerColumn);
+    // Zoomed in far enough, a column is narrower than a slice and takes the
+    // slice it falls in
+    const to = Math.max(from + 1, Math.floor(start * peaks.resolution + (column + 1) * slicesPerColumn));
+    let low = 0;
+    let high = 0;
+    for (let slice = Math.max(0, from); slice < Math.min(peaks.min.length, to); slice++) {
+      if (peaks.min[slice] < low) low = peaks.min[slice];
+      if (peaks.max[slice] > high) high = peaks.max[slice];
+    }
+    min[column] = low;
+    max[column] = high;
+  }
+  return { min, max };
+}
+
+/**
+ * Finds the peaks in a worker so long tracks don't stall the visualizer
+ * @param samples Mono samples, handed over to the worker
+ */
+function computeInWorker(samples: Float32Array, sampleRate: number): Promise<WaveformPeaks> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(computeWaveformPeaks(samples, sampleRate));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/waveform.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WaveformPeaks>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Waveform worker failed'));
+    };
+    worker.postMessage({ samples, sampleRate }, [samples.buffer]);
+  });
+}
+
+/**
+ * Decodes a whole file and finds the peaks of its overview
+ * @param file Audio file
+ * @returns Waveform overview
+ */
+export async function analyzeWaveform(file: Blob): Promise<WaveformPeaks> {
+  // The decode is shared with the other analyses, so the worker gets a copy
+  const samples = (await getMonoAudio(file)).slice();
+  return computeInWorker(samples, OFFLINE_SAMPLE_RATE);
+}
@@ -0,0 +1,672 @@
+import { type VisualizerRenderer } from '@/utils/visualizerRenderer';
+import {
+  type Canvas2DContext,
+  type DrawOptions,
+  drawHorizontalFrequencyAxis,
+  drawRadialFrequencyAxis,
+  getBarGeometry,
+  getCircularGeometry,
+  resolveLayout
+} from '@/utils/visualizerDrawing';
+import {
+  type ThemePalette,
+  generateWaveform,
+  getRainbowHue,
+  getThemeColorComponents,
+  hslToRgb
+} from '@/utils/visualizerHelpers';
+import { parseColor } from '@/utils/customThemes';
+import { type VisualizationMode } from '@/utils/visualizerPlugins';
+import { EMPTY_BEAT_STATE } from '@/utils/beatDetection';
+
+// Built-in visualizers drawn on the GPU; the rest are drawn with Canvas 2D and uploaded as a texture
+const NATIVE_MODES = new Set<VisualizationMode>(['bars', 'circular', 'wave', 'blob']);
+// Per instance: center x/y, width, height, rotation, corner radius, then RGBA
+const FLOATS_PER_SHAPE = 10;
+const BLOB_POINTS = 64;
+// Blur passes over the half-resolution bloom buffer; each widens the glow
+const BLOOM_PASSES = 2;
+
+// Straight (not premultiplied) RGBA, each 0 to 1
+type Color = [number, number, number, number];
+
+const SHAPE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_rect;
+layout(location = 2) in vec2 a_shape;
+layout(location = 3) in vec4 a_color;
+uniform vec2 u_resolution;
+out vec2 v_local;
+out vec2 v_size;
+out float v_radius;
+out vec4 v_color;
+
+void main() {
+  // One pixel of margin leaves room for the anti-aliased edge
+  vec2 local = a_corner * (a_rect.zw + 2.0);
+  float c = cos(a_shape.x);
+  float s = sin(a_shape.x);
+  vec2 position = a_rect.xy + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_local = local;
+  v_size = a_rect.zw;
+  v_radius = a_shape.y;
+  v_color = a_color;
+}`;
+
+const SHAPE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_local;
+in vec2 v_size;
+in float v_radius;
+in vec4 v_color;
+out vec4 outColor;
+
+void main() {
+  float radius = min(v_radius, min(v_size.x, v_size.y) * 0.5);
+  vec2 q = abs(v_local) - v_size * 0.5 + radius;
+  float dist = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
+  float coverage = clamp(0.5 - dist / max(fwidth(dist), 1e-4), 0.0, 1.0);
+  outColor = vec4(v_color.rgb, 1.0) * v_color.a * coverage;
+}`;
+
+// A single triangle that covers the viewport
+const FULLSCREEN_VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+
+void main() {
+  vec2 position = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2);
+  v_uv = position;
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+const BLOB_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform vec2 u_resolution;
+uniform vec2 u_center;
+uniform float u_radius;
+uniform float u_levels[${BLOB_POINTS}];
+uniform float u_time;
+uniform float u_rotation;
+uniform float u_volume;
+uniform vec4 u_inner;
+uniform vec4 u_middle;
+uniform vec4 u_outer;
+out vec4 outColor;
+
+const float TAU = 6.28318530718;
+
+float level(float angle) {
+  float index = mod(angle / TAU * ${BLOB_POINTS}.0, ${BLOB_POINTS}.0);
+  int lower = int(floor(index));
+  int upper = (lower + 1) % ${BLOB_POINTS};
+  return mix(u_levels[lower], u_levels[upper], fract(index));
+}
+
+// Distance outside the blob's edge, which ripples with the spectrum as in the 2D drawing
+float signedDistance(vec2 point) {
+  vec2 offset = point - u_center;
+  offset.y /= 0.9;
+  float angle = atan(offset.y, offset.x) - cos(u_rotation) * 0.1;
+  float factor = level(angle) * 0.8 * u_volume;
+  float edge = u_radius * (1.0
+    + factor * sin(angle * 3.0 + u_time * 1.5)
+    + factor * 0.5 * cos(angle * 5.0 + u_time * 2.0)
+    + factor * 0.3 * sin(angle * 7.0 + u_time * 2.5));
+  return length(offset) - edge;
+}
+
+vec4 premultiply(vec4 color) {
+  return vec4(color.rgb * color.a, color.a);
+}
+
+vec4 over(vec4 top, vec4 bottom) {
+  return top + bottom * (1.0 - top.a);
+}
+
+void main() {
+  vec2 point = vec2(v_uv.x, 1.0 - v_uv.y) * u_resolution;
+
+  // Soft drop shadow down and to the right
+  float shadowDistance = signedDistance(point - vec2(u_radius * 0.1));
+  vec4 color = vec4(0.0, 0.0, 0.0, 0.3 * (1.0 - smoothstep(-10.0, 10.0, shadowDistance)));
+
+  float dist = signedDistance(point);
+  float coverage = clamp(0.5 - dist / max(fwidth(dist), 1e-4), 0.0, 1.0);
+  vec2 focus = u_center - vec2(cos(u_rotation), sin(u_rotation)) * 0.2 * u_radius;
+  float t = clamp((length(point - focus) - 0.1 * u_radius) / (1.4 * u_radius), 0.0, 1.0);
+  vec4 fill = t < 0.5 ? mix(u_inner, u_middle, t * 2.0) : mix(u_middle, u_outer, t * 2.0 - 1.0);
+  color = over(premultiply(fill) * coverage, color);
+
+  // Specular highlight
+  float highlightAngle = u_rotation + TAU * 0.125;
+  vec2 highlight = u_center - vec2(cos(highlightAngle), sin(highlightAngle)) * u_radius * 0.5;
+  float h = length(point - highlight) / (u_radius * 0.8);
+  float shine = h < 0.5 ? mix(0.6, 0.1, h * 2.0) : h < 1.0 ? mix(0.1, 0.0, h * 2.0 - 1.0) : 0.0;
+  outColor = over(vec4(vec3(shine), shine), color);
+}`;
+
+const BLUR_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+uniform vec2 u_step;
+out vec4 outColor;
+
+void main() {
+  float weights[5] = float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+  vec4 sum = texture(u_texture, v_uv) * weights[0];
+  for (int i = 1; i < 5; i++) {
+    sum += texture(u_texture, v_uv + u_step * float(i)) * weights[i];
+    sum += texture(u_texture, v_uv - u_step * float(i)) * weights[i];
+  }
+  outColor = sum;
+}`;
+
+const COMPOSITE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_scene;
+uniform sampler2D u_bloom;
+uniform vec3 u_tint;
+uniform float u_strength;
+out vec4 outColor;
+
+void main() {
+  vec4 scene = texture(u_scene, v_uv);
+  vec4 bloom = texture(u_bloom, v_uv) * u_strength;
+  vec4 color = clamp(scene + vec4(bloom.rgb * u_tint, bloom.a), 0.0, 1.0);
+  // Keep the result a valid premultiplied color for the page to composite
+  color.a = max(color.a, max(color.r, max(color.g, color.b)));
+  outColor = color;
+}`;
+
+const TEXTURE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_uv);
+}`;
+
+function compileProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Could not create a shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader failed to compile: ${log}`);
+    }
+    return shader;
+  };
+
+  const vertexShader = compile(gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!program) throw new Error('Could not create a shader program');
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Shader program failed to link: ${log}`);
+  }
+  return program;
+}
+
+/**
+ * Looks up every uniform of a program once
+ */
+function getUniforms<T extends string>(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  names: T[]
+): Record<T, WebGLUniformLocation | null> {
+  return Object.fromEntries(names.map(name => [name, gl.getUniformLocation(program, name)])) as Record<
+    T,
+    WebGLUniformLocation | null
+  >;
+}
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+function createRenderTarget(gl: WebGL2RenderingContext, width: number, height: number): RenderTarget {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  if (!texture || !framebuffer) throw new Error('Could not create a render target');
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  return { texture, framebuffer, width, height };
+}
+
+function deleteRenderTarget(gl: WebGL2RenderingContext, target: RenderTarget | null): void {
+  if (!target) return;
+  gl.deleteTexture(target.texture);
+  gl.deleteFramebuffer(target.framebuffer);
+}
+
+function toColor(css: string, alphaScale = 1): Color {
+  const color = parseColor(css) ?? { r: 255, g: 255, b: 255, a: 1 };
+  return [color.r / 255, color.g / 255, color.b / 255, color.a * alphaScale];
+}
+
+function themeColor(position: number, value: number, theme: ThemePalette, alphaScale = 1): Color {
+  const { r, g, b, a } = getThemeColorComponents(position, value, theme);
+  return [r / 255, g / 255, b / 255, a * alphaScale];
+}
+
+function mixColors(from: Color, to: Color, amount: number): Color {
+  return from.map((channel, i) => channel + (to[i] - channel) * amount) as Color;
+}
+
+function createScratchCanvas(): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(1, 1);
+  }
+  return document.createElement('canvas');
+}
+
+/**
+ * Renderer that draws the bar, circular, wave and blob modes with WebGL2:
+ * shapes are instanced quads with anti-aliased rounded ends, the blob is a
+ * fragment shader, and the glow is a blurred bloom pass rather than per-shape
+ * shadows. Other modes are drawn with Canvas 2D and composited as a texture.
+ * @param canvas Canvas no context has been taken from yet
+ * @returns Renderer, or null when WebGL2 can't be set up
+ */
+export function createWebGL2Renderer(canvas: HTMLCanvasElement | OffscreenCanvas): VisualizerRenderer | null {
+  const gl = canvas.getContext('webgl2', {
+    alpha: true,
+    premultipliedAlpha: true,
+    antialias: false,
+    // Recording copies the canvas from its own frame loop
+    preserveDrawingBuffer: true
+  }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  let programs: {
+    shape: WebGLProgram;
+    blob: WebGLProgram;
+    blur: WebGLProgram;
+    composite: WebGLProgram;
+    texture: WebGLProgram;
+  };
+  try {
+    programs = {
+      shape: compileProgram(gl, SHAPE_VERTEX_SHADER, SHAPE_FRAGMENT_SHADER),
+      blob: compileProgram(gl, FULLSCREEN_VERTEX_SHADER, BLOB_FRAGMENT_SHADER),
+      blur: compileProgram(gl, FULLSCREEN_VERTEX_SHADER, BLUR_FRAGMENT_SHADER),
+      composite: compileProgram(gl, FULLSCREEN_VERTEX_SHADER, COMPOSITE_FRAGMENT_SHADER),
+      texture: compileProgram(gl, FULLSCREEN_VERTEX_SHADER, TEXTURE_FRAGMENT_SHADER)
+    };
+  } catch (error) {
+    console.error('Could not set up the WebGL2 renderer:', error);
+    return null;
+  }
+
+  const shapeUniforms = getUniforms(gl, programs.shape, ['u_resolution']);
+  const blobUniforms = getUniforms(gl, programs.blob, [
+    'u_resolution', 'u_center', 'u_radius', 'u_levels', 'u_time', 'u_rotation', 'u_volume', 'u_inner', 'u_middle', 'u_outer'
+  ]);
+  const blurUniforms = getUniforms(gl, programs.blur, ['u_texture', 'u_step']);
+  const compositeUniforms = getUniforms(gl, programs.composite, ['u_scene', 'u_bloom', 'u_tint', 'u_strength']);
+  const textureUniforms = getUniforms(gl, programs.texture, ['u_texture']);
+
+  // Shapes: a unit quad shared by every instance, plus the per-instance buffer
+  const shapeVao = gl.createVertexArray();
+  const cornerBuffer = gl.createBuffer();
+  const instanceBuffer = gl.createBuffer();
+  gl.bindVertexArray(shapeVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-0.5, -0.5, 0.5, -0.5, -0.5, 0.5, 0.5, 0.5]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = FLOATS_PER_SHAPE * 4;
+  [[1, 4, 0], [2, 2, 4], [3, 4, 6]].forEach(([location, size, offset]) => {
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+  });
+  gl.bindVertexArray(null);
+
+  // Full-screen passes take no attributes, but WebGL2 still wants a vertex array bound
+  const emptyVao = gl.createVertexArray();
+  const overlayTexture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, overlayTexture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  // Canvas 2D drawings (fallback modes and axis labels) go through this canvas
+  const overlay = createScratchCanvas();
+  const overlayCtx = overlay.getContext('2d') as Canvas2DContext | null;
+
+  let scene: RenderTarget | null = null;
+  let bloom: [RenderTarget, RenderTarget] | null = null;
+  let dimensions = { width: 1, height: 1 };
+  let pixelRatio = 1;
+  let shapes = new Float32Array(FLOATS_PER_SHAPE * 512);
+  let shapeCount = 0;
+  const blobLevels = new Float32Array(BLOB_POINTS);
+
+  const pushShape = (
+    x: number, y: number, width: number, height: number, rotation: number, radius: number, color: Color
+  ) => {
+    if ((shapeCount + 1) * FLOATS_PER_SHAPE > shapes.length) {
+      const grown = new Float32Array(shapes.length * 2);
+      grown.set(shapes);
+      shapes = grown;
+    }
+    shapes.set([x, y, width, height, rotation, radius, ...color], shapeCount * FLOATS_PER_SHAPE);
+    shapeCount++;
+  };
+
+  // A line with round caps is a rounded rectangle laid along it
+  const pushSegment = (x0: number, y0: number, x1: number, y1: number, lineWidth: number, color: Color) => {
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    pushShape((x0 + x1) / 2, (y0 + y1) / 2, length + lineWidth, lineWidth, Math.atan2(y1 - y0, x1 - x0), lineWidth / 2, color);
+  };
+
+  const drawShapes = () => {
+    if (!shapeCount) return;
+    gl.useProgram(programs.shape);
+    gl.uniform2f(shapeUniforms.u_resolution, dimensions.width, dimensions.height);
+    gl.bindVertexArray(shapeVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, shapes.subarray(0, shapeCount * FLOATS_PER_SHAPE), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, shapeCount);
+    gl.bindVertexArray(null);
+    shapeCount = 0;
+  };
+
+  const drawFullscreen = (program: WebGLProgram) => {
+    gl.useProgram(program);
+    gl.bindVertexArray(emptyVao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+  };
+
+  const bindTarget = (target: RenderTarget | null) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target?.framebuffer ?? null);
+    gl.viewport(0, 0, target?.width ?? canvas.width, target?.height ?? canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  };
+
+  const bindTexture = (unit: number, texture: WebGLTexture | null) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+  };
+
+  // Draws with Canvas 2D into the overlay and uploads it
+  const uploadOverlay = (draw: (ctx: Canvas2DContext) => void) => {
+    if (!overlayCtx) return false;
+    overlayCtx.setTransform(1, 0, 0, 1, 0, 0);
+    overlayCtx.clearRect(0, 0, overlay.width, overlay.height);
+    overlayCtx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    draw(overlayCtx);
+    bindTexture(0, overlayTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, overlay);
+    return true;
+  };
+
+  const drawOverlay = () => {
+    bindTexture(0, overlayTexture);
+    gl.useProgram(programs.texture);
+    gl.uniform1i(textureUniforms.u_texture, 0);
+    drawFullscreen(programs.texture);
+  };
+
+  const buildBars = (frequencyData: Uint8Array, options: DrawOptions) => {
+    const { height } = dimensions;
+    const { sensitivity, volume, palette, beat, frequencyLayout } = options;
+    const { bars, barWidth } = getBarGeometry(frequencyData, dimensions, sensitivity, volume, beat, frequencyLayout);
+    const highlight = toColor(palette.highlight);
+
+    bars.forEach(({ x, height: barHeight, value, position }) => {
+      // The rounded bottom sits below the canvas edge, leaving a flat base
+      pushShape(
+        x + barWidth / 2, height - barHeight / 2 + barWidth / 4, barWidth, barHeight + barWidth / 2,
+        0, barWidth / 2, themeColor(position, value, palette)
+      );
+    });
+    bars.forEach(({ x, height: barHeight, value }) => {
+      if (value > 0.1) {
+        pushShape(x + barWidth / 2, height - barHeight, barWidth, barWidth, 0, barWidth / 2, highlight);
+      }
+    });
+  };
+
+  const buildCircular = (frequencyData: Uint8Array, options: DrawOptions) => {
+    const { sensitivity, volume, palette, clock, beat, frequencyLayout } = options;
+    const { centerX, centerY, coreRadius, points } = getCircularGeometry(
+      frequencyData, dimensions, sensitivity, volume, clock, beat, frequencyLayout
+    );
+
+    pushShape(centerX, centerY, coreRadius * 2, coreRadius * 2, 0, coreRadius,
+      mixColors(toColor(palette.highlight), toColor(palette.gradient[1]), 0.3));
+
+    const outline = toColor(palette.gradient[0]);
+    const outlineGlow = toColor(palette.gradient[1], 0.5);
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length];
+      pushSegment(point.x, point.y, next.x, next.y, 2, outline);
+    });
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length];
+      pushSegment(point.x, point.y, next.x, next.y, 4, outlineGlow);
+    });
+    points.forEach(({ x, y, value, angle }) => {
+      const opacity = 0.1 + value * 0.9;
+      pushSegment(centerX, centerY, x, y, 0.5 + value * 2, themeColor(angle / (Math.PI * 2), value, palette, opacity));
+    });
+  };
+
+  const buildWave = (timeData: Uint8Array, options: DrawOptions) => {
+    const { width, height } = dimensions;
+    const { sensitivity, volume, palette, beat = EMPTY_BEAT_STATE } = options;
+    if (!timeData.length) return;
+
+    const centerY = height / 2;
+    const sliceWidth = width / timeData.length;
+    const lineWidth = 3 + beat.bands.snare.pulse * 2;
+    const stops = palette.gradient.slice(0, 3).map(color => toColor(color));
+    const mirror = toColor(palette.gradient[0], 0.5);
+    const colorAt = (x: number) => {
+      const position = Math.min(1, Math.max(0, x / width)) * 2;
+      return position < 1
+        ? mixColors(stops[0], stops[1], position)
+        : mixColors(stops[1], stops[2] ?? stops[1], position - 1);
+    };
+
+    [1, -1].forEach(direction => {
+      let previousX = 0;
+      let previousY = centerY;
+      for (let i = 0; i < timeData.length; i++) {
+        const v = (timeData[i] / 128.0) - 1;
+        const x = i * sliceWidth;
+        const y = centerY + direction * v * centerY * sensitivity * volume;
+        if (i > 0) {
+          pushSegment(previousX, previousY, x, y, lineWidth, direction === 1 ? colorAt(x) : mirror);
+        }
+        previousX = x;
+        previousY = y;
+      }
+    });
+  };
+
+  const drawBlob = (frequencyData: Uint8Array, options: DrawOptions) => {
+    const { width, height } = dimensions;
+    const { sensitivity, volume, palette, clock, beat = EMPTY_BEAT_STATE, frequencyLayout } = options;
+    const radius = Math.min(width, height) * 0.25 * (1 + beat.pulse * 0.15);
+    blobLevels.set(generateWaveform(frequencyData, BLOB_POINTS, sensitivity, resolveLayout(frequencyLayout)));
+
+    let stops: Color[];
+    if (palette.isRainbow) {
+      const hueOffset = (clock.time * 20 % 360) / 360;
+      const hueAt = (offset: number) => getRainbowHue((hueOffset + offset) % 1, palette.rainbowHueRange);
+      stops = ([[0, 75, 0.9], [1 / 3, 60, 0.8], [2 / 3, 50, 0.7]] as const).map(([offset, lightness, alpha]) => {
+        const { r, g, b } = hslToRgb(hueAt(offset), 100, lightness);
+        return [r / 255, g / 255, b / 255, alpha] as Color;
+      });
+    } else {
+      stops = [toColor(palette.highlight), toColor(palette.gradient[1]), toColor(palette.gradient[0])];
+    }
+
+    gl.useProgram(programs.blob);
+    gl.uniform2f(blobUniforms.u_resolution, width, height);
+    gl.uniform2f(blobUniforms.u_center, width / 2, height / 2);
+    gl.uniform1f(blobUniforms.u_radius, radius);
+    gl.uniform1fv(blobUniforms.u_levels, blobLevels);
+    gl.uniform1f(blobUniforms.u_time, clock.time);
+    gl.uniform1f(blobUniforms.u_rotation, clock.angle);
+    gl.uniform1f(blobUniforms.u_volume, volume);
+    gl.uniform4fv(blobUniforms.u_inner, stops[0]);
+    gl.uniform4fv(blobUniforms.u_middle, stops[1]);
+    gl.uniform4fv(blobUniforms.u_outer, stops[2]);
+    drawFullscreen(programs.blob);
+  };
+
+  // Blurs the scene into the bloom buffers, ending in bloom[1]
+  const blurScene = () => {
+    if (!scene || !bloom) return;
+    gl.useProgram(programs.blur);
+    gl.uniform1i(blurUniforms.u_texture, 0);
+
+    let source: RenderTarget = scene;
+    for (let pass = 0; pass < BLOOM_PASSES; pass++) {
+      bindTarget(bloom[0]);
+      bindTexture(0, source.texture);
+      gl.uniform2f(blurUniforms.u_step, (pass + 1) / source.width, 0);
+      drawFullscreen(programs.blur);
+
+      bindTarget(bloom[1]);
+      bindTexture(0, bloom[0].texture);
+      gl.uniform2f(blurUniforms.u_step, 0, (pass + 1) / bloom[0].height);
+      drawFullscreen(programs.blur);
+      source = bloom[1];
+    }
+  };
+
+  const getBloomStrength = (mode: VisualizationMode, options: DrawOptions) => {
+    const beat = options.beat ?? EMPTY_BEAT_STATE;
+    if (mode === 'bars') return 0.9 + beat.bands.hihat.pulse * 0.5;
+    if (mode === 'wave') return 0.8 + beat.bands.snare.pulse * 0.4;
+    if (mode === 'circular') return 1.1;
+    return 0.3;
+  };
+
+  return {
+    backend: 'webgl2',
+
+    resize(size, ratio) {
+      dimensions = { width: Math.max(1, size.width), height: Math.max(1, size.height) };
+      pixelRatio = ratio;
+      canvas.width = Math.max(1, Math.round(dimensions.width * ratio));
+      canvas.height = Math.max(1, Math.round(dimensions.height * ratio));
+      overlay.width = canvas.width;
+      overlay.height = canvas.height;
+
+      deleteRenderTarget(gl, scene);
+      bloom?.forEach(target => deleteRenderTarget(gl, target));
+      scene = createRenderTarget(gl, canvas.width, canvas.height);
+      const bloomWidth = Math.max(1, Math.round(canvas.width / 2));
+      const bloomHeight = Math.max(1, Math.round(canvas.height / 2));
+      bloom = [createRenderTarget(gl, bloomWidth, bloomHeight), createRenderTarget(gl, bloomWidth, bloomHeight)];
+    },
+
+    render(mode, options, draw) {
+      const { frequencyData, timeData } = options;
+      if (gl.isContextLost() || !scene || !bloom) return;
+      dimensions = options.dimensions.width && options.dimensions.height ? options.dimensions : dimensions;
+
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+      // Modes without a GPU version, and the placeholder, are drawn in 2D
+      if (!NATIVE_MODES.has(mode) || !frequencyData.length) {
+        const uploaded = uploadOverlay(draw);
+        bindTarget(null);
+        if (uploaded) drawOverlay();
+        return;
+      }
+
+      bindTarget(scene);
+      if (mode === 'bars') buildBars(frequencyData, options);
+      else if (mode === 'circular') buildCircular(frequencyData, options);
+      else if (mode === 'wave') buildWave(timeData, options);
+      drawShapes();
+      if (mode === 'blob') drawBlob(frequencyData, options);
+
+      blurScene();
+
+      bindTarget(null);
+      bindTexture(0, scene.texture);
+      bindTexture(1, bloom[1].texture);
+      const glow = toColor(options.palette.glow);
+      gl.useProgram(programs.composite);
+      gl.uniform1i(compositeUniforms.u_scene, 0);
+      gl.uniform1i(compositeUniforms.u_bloom, 1);
+      gl.uniform3f(compositeUniforms.u_tint, glow[0], glow[1], glow[2]);
+      gl.uniform1f(compositeUniforms.u_strength, getBloomStrength(mode, options) * glow[3] * 2);
+      drawFullscreen(programs.composite);
+
+      // Axis labels are drawn in 2D on top, outside the bloom
+      const layout = resolveLayout(options.frequencyLayout);
+      if (options.showFrequencyAxis && layout && (mode === 'bars' || mode === 'circular')) {
+        const { sensitivity, volume, clock, beat, frequencyLayout } = options;
+        const uploaded = uploadOverlay(ctx => {
+          if (mode === 'bars') {
+            const { left, span } = getBarGeometry(frequencyData, dimensions, sensitivity, volume, beat, frequencyLayout);
+            drawHorizontalFrequencyAxis(ctx, layout, left, span, dimensions.height);
+          } else {
+            const { centerX, centerY, baseRadius } = getCircularGeometry(
+              frequencyData, dimensions, sensitivity, volume, clock, beat, frequencyLayout
+            );
+            drawRadialFrequencyAxis(ctx, layout, centerX, centerY, baseRadius * 0.85);
+          }
+        });
+        if (uploaded) drawOverlay();
+      }
+    },
+
+    dispose() {
+      Object.values(programs).forEach(program => gl.deleteProgram(program));
+      gl.deleteVertexArray(shapeVao);
+      gl.deleteVertexArray(emptyVao);
+      gl.deleteBuffer(cornerBuffer);
+      gl.deleteBuffer(instanceBuffer);
+      gl.deleteTexture(overlayTexture);
+      deleteRenderTarget(gl, scene);
+      bloom?.forEach(target => deleteRenderTarget(gl, target));
+      scene = null;
+      bloom = null;
+    }
+  };
+}
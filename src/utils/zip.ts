@@ -0,0 +1,128 @@
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by zip
+ * @param data Bytes to checksum
+ * @returns Unsigned checksum
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Without zip64, archives must stay under 4 GiB and 65535 entries
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// Every entry is stamped 1980-01-01 00:00, the earliest MS-DOS date, so the
+// same files always make the same archive bytes
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+/**
+ * Builds an uncompressed zip archive one file at a time. Entries are kept as
+ * Blobs, which the browser can page to disk, so large renders don't have to
+ * fit in memory. Stored rather than deflated because the payloads (PNGs) are
+ * already compressed.
+ */
+export function createZipWriter() {
+  const parts: BlobPart[] = [];
+  const entries: ZipEntry[] = [];
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return {
+    /**
+     * Appends a file to the archive
+     * @param name Path inside the archive
+     * @param data File contents
+     * @throws Error when the archive would exceed the zip limits
+     */
+    async addFile(name: string, data: Blob): Promise<void> {
+      const nameBytes = encoder.encode(name);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+      const headerSize = 30 + nameBytes.length;
+
+      if (offset + headerSize + data.size > MAX_ZIP_SIZE || entries.length >= MAX_ZIP_ENTRIES) {
+        throw new Error('The output is too large for a zip file');
+      }
+
+      const header = new DataView(new ArrayBuffer(headerSize));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, 20, true);
+      // Bit 11: file names are UTF-8
+      header.setUint16(6, 0x0800, true);
+      header.setUint16(8, 0, true);
+      header.setUint16(10, DOS_TIME, true);
+      header.setUint16(12, DOS_DATE, true);
+      header.setUint32(14, crc, true);
+      header.setUint32(18, data.size, true);
+      header.setUint32(22, data.size, true);
+      header.setUint16(26, nameBytes.length, true);
+      header.setUint16(28, 0, true);
+      new Uint8Array(header.buffer).set(nameBytes, 30);
+
+      parts.push(header.buffer, data);
+      entries.push({ name: nameBytes, crc, size: data.size, offset });
+      offset += headerSize + data.size;
+    },
+
+    /**
+     * Writes the central directory and returns the archive
+     * @returns The zip file
+     */
+    finish(): Blob {
+      const directoryStart = offset;
+      let directorySize = 0;
+
+      entries.forEach(entry => {
+        const record = new DataView(new ArrayBuffer(46 + entry.name.length));
+        record.setUint32(0, 0x02014b50, true);
+        record.setUint16(4, 20, true);
+        record.setUint16(6, 20, true);
+        record.setUint16(8, 0x0800, true);
+        record.setUint16(10, 0, true);
+        record.setUint16(12, DOS_TIME, true);
+        record.setUint16(14, DOS_DATE, true);
+        record.setUint32(16, entry.crc, true);
+        record.setUint32(20, entry.size, true);
+        record.setUint32(24, entry.size, true);
+        record.setUint16(28, entry.name.length, true);
+        record.setUint32(42, entry.offset, true);
+        new Uint8Array(record.buffer).set(entry.name, 46);
+        parts.push(record.buffer);
+        directorySize += record.byteLength;
+      });
+
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, directorySize, true);
+      end.setUint32(16, directoryStart, true);
+      parts.push(end.buffer);
+
+      return new Blob(parts, { type: 'application/zip' });
+    }
+  };
+}
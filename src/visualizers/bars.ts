@@ -0,0 +1,15 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawBarVisualizer } from '@/utils/visualizerDrawing';
+
+// Spectrum as rounded bars rising from the bottom edge
+export default defineVisualizer({
+  id: 'bars',
+  label: 'Bars',
+  settingsSchema: {},
+  create: () => ({
+    render(frame, ctx) {
+      const { frequencyData, dimensions, sensitivity, volume, palette, beat, frequencyLayout, showFrequencyAxis } = frame;
+      drawBarVisualizer(ctx, frequencyData, dimensions, sensitivity, volume, palette, beat, frequencyLayout, showFrequencyAxis);
+    }
+  })
+});
@@ -0,0 +1,15 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawBlobVisualizer } from '@/utils/visualizerDrawing';
+
+// Rotating blob whose outline follows the spectrum
+export default defineVisualizer({
+  id: 'blob',
+  label: '3D Blob',
+  settingsSchema: {},
+  create: () => ({
+    render(frame, ctx) {
+      const { frequencyData, dimensions, sensitivity, volume, palette, clock, beat, frequencyLayout } = frame;
+      drawBlobVisualizer(ctx, frequencyData, dimensions, sensitivity, volume, palette, clock, beat, frequencyLayout);
+    }
+  })
+});
@@ -0,0 +1,15 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawChromaWheelVisualizer } from '@/utils/visualizerDrawing';
+
+// Pitch-class energy on a wheel, with the estimated key
+export default defineVisualizer({
+  id: 'chroma',
+  label: 'Chroma',
+  settingsSchema: {},
+  create: () => ({
+    render(frame, ctx) {
+      const { harmony, dimensions, sensitivity, volume, palette, beat } = frame;
+      drawChromaWheelVisualizer(ctx, harmony, dimensions, sensitivity, volume, palette, beat);
+    }
+  })
+});
@@ -0,0 +1,17 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawCircularVisualizer } from '@/utils/visualizerDrawing';
+
+// Spectrum as spokes round a pulsing core
+export default defineVisualizer({
+  id: 'circular',
+  label: 'Circular',
+  settingsSchema: {},
+  create: () => ({
+    render(frame, ctx) {
+      const { frequencyData, dimensions, sensitivity, volume, palette, clock, beat, frequencyLayout, showFrequencyAxis } = frame;
+      drawCircularVisualizer(
+        ctx, frequencyData, dimensions, sensitivity, volume, palette, clock, beat, frequencyLayout, showFrequencyAxis
+      );
+    }
+  })
+});
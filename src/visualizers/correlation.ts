@@ -0,0 +1,15 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawCorrelationMeterVisualizer } from '@/utils/visualizerDrawing';
+
+// Phase correlation, width and channel level meters
+export default defineVisualizer({
+  id: 'correlation',
+  label: 'Correlation',
+  settingsSchema: {},
+  usesStereo: true,
+  create: () => ({
+    render(frame, ctx) {
+      drawCorrelationMeterVisualizer(ctx, frame.stereo, frame.dimensions, frame.palette);
+    }
+  })
+});
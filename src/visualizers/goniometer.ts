@@ -0,0 +1,16 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawGoniometerVisualizer } from '@/utils/visualizerDrawing';
+
+// Mid/side vectorscope of the two channels
+export default defineVisualizer({
+  id: 'goniometer',
+  label: 'Goniometer',
+  settingsSchema: {},
+  usesStereo: true,
+  create: () => ({
+    render(frame, ctx) {
+      const { stereo, dimensions, sensitivity, volume, palette, beat } = frame;
+      drawGoniometerVisualizer(ctx, stereo, dimensions, sensitivity, volume, palette, beat);
+    }
+  })
+});
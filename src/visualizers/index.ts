@@ -0,0 +1,15 @@
+import { registerVisualizer } from '@/utils/visualizerPlugins';
+import bars from '@/visualizers/bars';
+import circular from '@/visualizers/circular';
+import wave from '@/visualizers/wave';
+import blob from '@/visualizers/blob';
+import chroma from '@/visualizers/chroma';
+import spectrogram from '@/visualizers/spectrogram';
+import stereo from '@/visualizers/stereo';
+import goniometer from '@/visualizers/goniometer';
+import correlation from '@/visualizers/correlation';
+
+// Built-in visualizers, in the order they're offered. Importing this module
+// registers them; the main thread and the rendering worker both do, so a new
+// visualizer only needs a module of its own and a line here.
+[bars, circular, wave, blob, chroma, spectrogram, stereo, goniometer, correlation].forEach(registerVisualizer);
@@ -0,0 +1,78 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import {
+  type SpectrogramColormap,
+  DEFAULT_SPECTROGRAM_SETTINGS,
+  SPECTROGRAM_COLORMAPS,
+  SPECTROGRAM_DECIBEL_RANGE,
+  createSpectrogramRenderer
+} from '@/utils/spectrogram';
+
+const [FLOOR, CEILING] = SPECTROGRAM_DECIBEL_RANGE;
+// Smallest dB range allowed, so the colormap never collapses
+const MIN_RANGE = 10;
+
+// Scrolling time/frequency plot
+export default defineVisualizer({
+  id: 'spectrogram',
+  label: 'Spectrogram',
+  // Rows need the finer frequency resolution
+  fftSize: 4096,
+  settingsSchema: {
+    colormap: {
+      type: 'select',
+      label: 'Colormap',
+      default: DEFAULT_SPECTROGRAM_SETTINGS.colormap,
+      options: SPECTROGRAM_COLORMAPS.map(({ id, label }) => ({ value: id, label }))
+    },
+    minDecibels: {
+      type: 'number',
+      label: 'Floor',
+      unit: 'dB',
+      default: DEFAULT_SPECTROGRAM_SETTINGS.minDecibels,
+      min: FLOOR,
+      max: CEILING - MIN_RANGE,
+      step: 1
+    },
+    maxDecibels: {
+      type: 'number',
+      label: 'Ceiling',
+      unit: 'dB',
+      default: DEFAULT_SPECTROGRAM_SETTINGS.maxDecibels,
+      min: FLOOR + MIN_RANGE,
+      max: CEILING,
+      step: 1
+    }
+  },
+
+  // Moving one end of the range pushes the other along
+  normalizeSettings(settings, changed) {
+    if (changed === 'minDecibels') {
+      return { ...settings, maxDecibels: Math.max(settings.maxDecibels, settings.minDecibels + MIN_RANGE) };
+    }
+    if (changed === 'maxDecibels') {
+      return { ...settings, minDecibels: Math.min(settings.minDecibels, settings.maxDecibels - MIN_RANGE) };
+    }
+    return settings;
+  },
+
+  create: () => {
+    // The history scrolls across frames, so each instance keeps its own
+    const spectrogram = createSpectrogramRenderer();
+
+    return {
+      render(frame, ctx, settings) {
+        spectrogram.draw(ctx, frame.frequencyData, {
+          dimensions: frame.dimensions,
+          palette: frame.palette,
+          settings: {
+            colormap: settings.colormap as SpectrogramColormap,
+            minDecibels: settings.minDecibels,
+            maxDecibels: settings.maxDecibels
+          },
+          frequencyLayout: frame.frequencyLayout,
+          showFrequencyAxis: frame.showFrequencyAxis
+        });
+      }
+    };
+  }
+});
@@ -0,0 +1,18 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawStereoSpectrumVisualizer } from '@/utils/visualizerDrawing';
+
+// Left and right spectra mirrored about the center line
+export default defineVisualizer({
+  id: 'stereo',
+  label: 'Stereo',
+  settingsSchema: {},
+  usesStereo: true,
+  create: () => ({
+    render(frame, ctx) {
+      const { stereo, dimensions, sensitivity, volume, palette, beat, frequencyLayout, showFrequencyAxis } = frame;
+      drawStereoSpectrumVisualizer(
+        ctx, stereo, dimensions, sensitivity, volume, palette, beat, frequencyLayout, showFrequencyAxis
+      );
+    }
+  })
+});
@@ -0,0 +1,15 @@
+import { defineVisualizer } from '@/utils/visualizerPlugins';
+import { drawWaveVisualizer } from '@/utils/visualizerDrawing';
+
+// Oscilloscope view of the waveform
+export default defineVisualizer({
+  id: 'wave',
+  label: 'Wave',
+  settingsSchema: {},
+  create: () => ({
+    render(frame, ctx) {
+      const { timeData, dimensions, sensitivity, volume, palette, beat } = frame;
+      drawWaveVisualizer(ctx, timeData, dimensions, sensitivity, volume, palette, beat);
+    }
+  })
+});
@@ -0,0 +1,6 @@
+import { analyzeTrackSamples } from '@/utils/trackAnalysis';
+
+// Analyses a decoded track's tempo and key off the main thread
+self.onmessage = (event: MessageEvent<{ samples: Float32Array; sampleRate: number }>) => {
+  self.postMessage(analyzeTrackSamples(event.data.samples, event.data.sampleRate));
+};
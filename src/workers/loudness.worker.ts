@@ -0,0 +1,6 @@
+import { measureLoudness } from '@/utils/loudness';
+
+// Measures a decoded file's loudness off the main thread
+self.onmessage = (event: MessageEvent<{ channels: Float32Array[]; sampleRate: number }>) => {
+  self.postMessage(measureLoudness(event.data.channels, event.data.sampleRate));
+};
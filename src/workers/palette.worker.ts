@@ -0,0 +1,6 @@
+import { medianCut } from '@/utils/artworkPalette';
+
+// Quantizes downscaled artwork pixels off the main thread
+self.onmessage = (event: MessageEvent<Uint8ClampedArray>) => {
+  self.postMessage(medianCut(event.data));
+};
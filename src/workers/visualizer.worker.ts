@@ -0,0 +1,64 @@
+import { type VisualizerRenderer, createVisualizerRenderer } from '@/utils/visualizerRenderer';
+import { type VisualizerScene, type VisualizerSettings, createVisualizerScene } from '@/utils/visualizerScene';
+import { type FrameRing, createFrameRing } from '@/utils/frameTransport';
+import { type AnalyserFrame, EMPTY_ANALYSER_FRAME } from '@/utils/frameBus';
+import { type VisualizerWorkerRequest, type VisualizerWorkerResponse } from '@/utils/visualizerHost';
+
+// Draws a visualizer canvas handed over with transferControlToOffscreen
+
+let renderer: VisualizerRenderer | null = null;
+let scene: VisualizerScene | null = null;
+let settings: VisualizerSettings | null = null;
+let ring: FrameRing | null = null;
+const frame: AnalyserFrame = { ...EMPTY_ANALYSER_FRAME };
+
+// Workers that can't sync to the display fall back to a 60fps timer
+const nextFrame = (callback: () => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(callback);
+  } else {
+    setTimeout(callback, 1000 / 60);
+  }
+};
+
+const respond = (message: VisualizerWorkerResponse) => self.postMessage(message);
+
+const draw = () => {
+  if (!scene || !settings) return;
+  ring?.read(frame);
+  scene.render(frame, settings);
+  nextFrame(draw);
+};
+
+self.onmessage = (event: MessageEvent<VisualizerWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      renderer = createVisualizerRenderer(message.canvas, message.preference);
+      if (!renderer) {
+        respond({ type: 'failed' });
+        return;
+      }
+      settings = message.settings;
+      ring = message.ring ? createFrameRing(message.ring) : null;
+      renderer.resize(settings.dimensions, message.pixelRatio);
+      scene = createVisualizerScene(renderer);
+      respond({ type: 'ready', backend: renderer.backend });
+      nextFrame(draw);
+      break;
+
+    case 'resize':
+      renderer?.resize(message.dimensions, message.pixelRatio);
+      if (settings) settings = { ...settings, dimensions: message.dimensions };
+      break;
+
+    case 'settings':
+      settings = message.settings;
+      break;
+
+    case 'frame':
+      Object.assign(frame, message.frame);
+      break;
+  }
+};
@@ -0,0 +1,6 @@
+import { computeWaveformPeaks } from '@/utils/waveform';
+
+// Finds the peaks of a decoded track off the main thread
+self.onmessage = (event: MessageEvent<{ samples: Float32Array; sampleRate: number }>) => {
+  self.postMessage(computeWaveformPeaks(event.data.samples, event.data.sampleRate));
+};
@@ -0,0 +1,45 @@
+import { createLoudnessMeter } from '@/utils/loudness';
+
+// The AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+// Readings are posted to the page ten times a second
+const REPORT_INTERVAL = 0.1;
+
+/**
+ * Meters whatever is connected to its input and posts the readings
+ */
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  private meter = createLoudnessMeter(sampleRate);
+  private samplesSinceReport = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<{ type: 'reset' }>) => {
+      if (event.data.type === 'reset') {
+        this.meter.reset();
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    // An input with nothing connected has no channels
+    if (input?.length) {
+      this.meter.process(input);
+      this.samplesSinceReport += input[0].length;
+    }
+
+    if (this.samplesSinceReport >= sampleRate * REPORT_INTERVAL) {
+      this.samplesSinceReport = 0;
+      this.port.postMessage({ type: 'readings', readings: this.meter.getReadings() });
+    }
+    return true;
+  }
+}
+
+registerProcessor('loudness-meter', LoudnessMeterProcessor);
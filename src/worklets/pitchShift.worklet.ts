@@ -0,0 +1,35 @@
+import { MAX_PITCH_SHIFT, createPitchShifter } from '@/utils/pitchShift';
+
+// The AudioWorkletGlobalScope isn't part of the DOM typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+/**
+ * Shifts the pitch of its input by the 'semitones' parameter, keeping the
+ * duration. Inputs are mixed to stereo by the node's channel settings.
+ */
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  static parameterDescriptors = [
+    {
+      name: 'semitones',
+      defaultValue: 0,
+      minValue: -MAX_PITCH_SHIFT,
+      maxValue: MAX_PITCH_SHIFT,
+      automationRate: 'k-rate'
+    }
+  ];
+
+  private shifter = createPitchShifter(2);
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const output = outputs[0];
+    if (output?.length) {
+      this.shifter.process(inputs[0] ?? [], output, parameters.semitones[0]);
+    }
+    return true;
+  }
+}
+
+registerProcessor('pitch-shift', PitchShiftProcessor);